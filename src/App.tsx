@@ -1,9 +1,19 @@
 import type { FC } from 'react';
+import { Navigate, Route, Routes } from 'react-router';
 import './App.css';
 import HomeWrapper from './components/home/HomeWrapper';
+import { ROUTES } from './lib/routes';
 
 const App: FC = () => {
-  return <HomeWrapper />;
+  return (
+    <Routes>
+      <Route path={ROUTES.home} element={<HomeWrapper />} />
+      <Route path={ROUTES.joke} element={<HomeWrapper />} />
+      <Route path={ROUTES.category} element={<HomeWrapper />} />
+      <Route path={ROUTES.search} element={<HomeWrapper />} />
+      <Route path="*" element={<Navigate to={ROUTES.home} replace />} />
+    </Routes>
+  );
 };
 
 export default App;
@@ -0,0 +1,195 @@
+import { useState, type JSX } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/index';
+import {
+  BATCH_SIZE_OPTIONS,
+  clearBatch,
+  DEFAULT_BATCH_SIZE,
+  fetchBatchItem,
+  fetchJokeBatch,
+  selectBatchItems,
+} from '@/store/slices/batchSlice';
+import { selectVisibleCategories } from '@/store/slices/safeModeSlice';
+import JokeCard from '@/components/jokes/JokeCard';
+import JokeActions from '@/components/jokes/JokeActions';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import type { JokeError } from '@/types/jokeTypes';
+import { LayoutGrid, Loader2, RotateCw, X } from 'lucide-react';
+
+/** Seconds between the entrance animations of neighbouring cards. */
+const STAGGER_SECONDS = 0.06;
+
+/**
+ * Build the short reason shown on a card that failed to load.
+ *
+ * @param {JokeError} error - The error of the card.
+ * @param {ReturnType<typeof useTranslation>['t']} t - Translates to the UI language.
+ * @returns {string} A one-line explanation.
+ */
+function describeFailure(
+  error: JokeError,
+  t: ReturnType<typeof useTranslation>['t']
+): string {
+  switch (error.kind) {
+    case 'network':
+      return t('batch.failed.network');
+    case 'timeout':
+      return t('batch.failed.timeout');
+    case 'http':
+      return t('batch.failed.http', { status: error.status ?? '' });
+    case 'exhausted':
+      return t('batch.failed.exhausted');
+    case 'blocked':
+      return t('batch.failed.blocked');
+    default:
+      return t('batch.failed.other');
+  }
+}
+
+/**
+ * JokeBatch component
+ *
+ * Fetches several jokes at once, random or from one category, and shows
+ * them in a responsive grid of `JokeCard`s that animate in one after another.
+ *
+ * - Dispatches `fetchJokeBatch`, which runs a limited number of requests at a
+ *   time and never shows the same joke twice.
+ * - Cards fill in as their jokes arrive; a card that failed shows why and
+ *   can be retried on its own without reloading the others.
+ * - Safe mode applies to cards already loaded: a blocked joke is replaced
+ *   by a retryable failure, and profanity is masked.
+ *
+ * @component
+ * @returns {JSX.Element} The batch controls and, once fetched, the grid.
+ */
+export default function JokeBatch(): JSX.Element {
+  const dispatch = useAppDispatch();
+  const category = useAppSelector((s) => s.batch.category);
+  const items = useAppSelector(selectBatchItems);
+  const { t, categoryName } = useTranslation();
+
+  /** Categories that may be picked as the source of the batch */
+  const categories = useAppSelector(selectVisibleCategories);
+
+  /** Number of jokes the next batch fetches */
+  const [count, setCount] = useState(DEFAULT_BATCH_SIZE);
+
+  /** Category of the next batch, `''` for random jokes */
+  const [source, setSource] = useState('');
+
+  const loading = items.some((item) => item.status === 'pending');
+
+  return (
+    <section aria-label={t('batch.label')} className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <label className="flex items-center gap-2">
+          {t('batch.count')}
+          <select
+            value={count}
+            onChange={(e) => setCount(+e.target.value)}
+            className="px-3 py-1 border rounded-lg bg-background"
+          >
+            {BATCH_SIZE_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          {t('batch.from')}
+          <select
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            className="px-3 py-1 border rounded-lg bg-background"
+          >
+            <option value="">{t('batch.random')}</option>
+            {categories.map((cat) => (
+              <option key={cat} value={cat}>
+                {categoryName(cat)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={loading}
+          onClick={() =>
+            dispatch(fetchJokeBatch({ count, category: source || null }))
+          }
+        >
+          <LayoutGrid className="w-4 h-4" />
+          {t('batch.fetch', { count })}
+        </Button>
+        {items.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => dispatch(clearBatch())}
+          >
+            <X className="w-4 h-4" />
+            {t('batch.clear')}
+          </Button>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <ul className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          {items.map((item, index) => {
+            const jokeCategory = item.joke?.categories.join(', ') || null;
+            return (
+              <li key={index} aria-busy={item.status === 'pending'}>
+                {item.status === 'succeeded' && item.joke && (
+                  <JokeCard
+                    joke={item.joke.value}
+                    category={jokeCategory}
+                    delay={index * STAGGER_SECONDS}
+                    actions={
+                      <JokeActions joke={item.joke} category={jokeCategory} />
+                    }
+                  />
+                )}
+                {item.status === 'pending' && (
+                  <Card className="p-4 rounded-xl">
+                    <CardContent className="flex justify-center">
+                      <Loader2
+                        role="status"
+                        aria-label={t('batch.loading')}
+                        className="w-5 h-5 animate-spin text-muted-foreground"
+                      />
+                    </CardContent>
+                  </Card>
+                )}
+                {item.status === 'failed' && item.error && (
+                  <Card className="p-4 rounded-xl">
+                    <CardContent
+                      role="alert"
+                      data-error-kind={item.error.kind}
+                      className="flex flex-col items-center gap-2"
+                    >
+                      <p className="text-center text-sm text-red-500 dark:text-red-400">
+                        {describeFailure(item.error, t)}
+                      </p>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          dispatch(fetchBatchItem({ index, category }))
+                        }
+                      >
+                        <RotateCw className="w-4 h-4" />
+                        {t('error.retry')}
+                      </Button>
+                    </CardContent>
+                  </Card>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
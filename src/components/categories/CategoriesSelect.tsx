@@ -2,30 +2,124 @@ import { useAppDispatch, useAppSelector } from '@/store/index';
 import {
   fetchJokeByCategory,
   fetchCategories,
+  selectCategoriesRequest,
 } from '@/store/slices/jokesSlice';
-import { useEffect, useState, type JSX, type ChangeEvent } from 'react';
+import {
+  addCategory,
+  fetchJokeFromSelection,
+  MAX_CATEGORY_WEIGHT,
+  removeCategory,
+  setCategoryWeight,
+} from '@/store/slices/categorySelectionSlice';
+import { selectVisibleCategories } from '@/store/slices/safeModeSlice';
+import { useTranslation } from '@/hooks/useTranslation';
+import { categoryIcon } from '@/lib/categoryIcons';
+import JokeErrorMessage from '@/components/errors/JokeErrorMessage';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Shuffle, X } from 'lucide-react';
+import { useEffect, useState, type JSX } from 'react';
+
+/**
+ * Weight field of a selected category.
+ *
+ * What the user types is kept as a draft, so the field can be cleared while
+ * typing; only finite values are dispatched (the slice clamps them), and the
+ * draft gives way to the stored weight on blur or Enter.
+ *
+ * @param {{ name: string, weight: number }} props - The category and its stored weight.
+ * @returns {JSX.Element} The number input.
+ */
+function WeightInput({
+  name,
+  weight,
+}: {
+  name: string;
+  weight: number;
+}): JSX.Element {
+  const dispatch = useAppDispatch();
+  const { t, categoryName } = useTranslation();
+
+  /** Text being typed, or `null` to show the stored weight */
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <input
+      type="number"
+      min={1}
+      max={MAX_CATEGORY_WEIGHT}
+      value={draft ?? weight}
+      aria-label={t('categories.weightOf', { category: categoryName(name) })}
+      title={t('categories.weight')}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const value = e.target.valueAsNumber;
+        if (Number.isFinite(value)) {
+          dispatch(setCategoryWeight({ name, weight: value }));
+        }
+      }}
+      onBlur={() => setDraft(null)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') setDraft(null);
+      }}
+      className="w-10 rounded bg-transparent text-center text-muted-foreground"
+    />
+  );
+}
 
 /**
  * CategoriesSelect component
  *
- * Renders a `<select>` dropdown that allows users to choose a joke category.
- * On selection, it fetches a random joke from that category.
+ * Lets users select several joke categories, shown as removable chips.
+ * Picking a category in the Radix `Select` adds it to the selection and
+ * fetches a random joke from it; "Next joke" draws from a random selected
+ * category.
  *
  * - Fetches categories on mount via Redux `fetchCategories` thunk.
- * - Dispatches `fetchJokeByCategory` when a category is selected.
- * - Controlled component using local state (`selected`).
+ * - Dispatches `fetchJokeByCategory` when a category is added.
+ * - Dispatches `fetchJokeFromSelection` for the next joke, which favors
+ *   categories with a higher weight.
+ * - The selection lives in `categorySelectionSlice` and survives reloads.
+ * - Categories blocked by safe mode are neither offered nor shown as chips.
+ * - Shows category names in the UI language, each with its icon, and finds
+ *   them by typing their first letters (typeahead).
+ * - Groups the offered categories into safe ones and sensitive ones (those on
+ *   the safe mode blocklist).
+ * - Shows its own spinner and error for the category list request, so the
+ *   joke card is unaffected by it.
  *
  * @component
- * @returns {JSX.Element} A styled `<select>` dropdown for joke categories.
+ * @returns {JSX.Element} The category picker and the selected chips.
  */
 export default function CategoriesSelect(): JSX.Element {
   const dispatch = useAppDispatch();
+  const { t, categoryName } = useTranslation();
+
+  /** Categories fetched from the Redux store, minus those hidden by safe mode */
+  const categories = useAppSelector(selectVisibleCategories);
+
+  /** Status of the category list request */
+  const { status, error } = useAppSelector(selectCategoriesRequest);
 
-  /** Categories fetched from the Redux store */
-  const categories = useAppSelector((s) => s.jokes.categories);
+  /** Selected categories with their weights */
+  const allSelected = useAppSelector((s) => s.categorySelection.selected);
 
-  /** Currently selected category */
-  const [selected, setSelected] = useState('');
+  /** Whether safe mode is on, and what it blocks */
+  const safeMode = useAppSelector((s) => s.safeMode);
+
+  /** Selected categories that safe mode does not hide */
+  const selected = safeMode.enabled
+    ? allSelected.filter((c) => !safeMode.blockedCategories.includes(c.name))
+    : allSelected;
 
   /**
    * Fetch categories when the component mounts.
@@ -34,33 +128,126 @@ export default function CategoriesSelect(): JSX.Element {
     dispatch(fetchCategories());
   }, [dispatch]);
 
+  /** Categories that can still be added, split by the safe mode blocklist */
+  const available = categories.filter(
+    (cat) => !selected.some((c) => c.name === cat)
+  );
+  const groups = [
+    {
+      label: t('categories.safe'),
+      names: available.filter(
+        (cat) => !safeMode.blockedCategories.includes(cat)
+      ),
+    },
+    {
+      label: t('categories.sensitive'),
+      names: available.filter((cat) =>
+        safeMode.blockedCategories.includes(cat)
+      ),
+    },
+  ].filter((group) => group.names.length > 0);
+
   /**
-   * Handles change of the category dropdown.
+   * Handles a category picked in the dropdown: adds it to the selection and
+   * shows a joke from it.
    *
-   * @param {ChangeEvent<HTMLSelectElement>} e - The change event from the `<select>`.
+   * @param {string} value - The picked category.
    */
-  const handleChange = (e: ChangeEvent<HTMLSelectElement>) => {
-    const value = e.target.value;
-    setSelected(value);
+  const handleChange = (value: string) => {
     if (value) {
+      dispatch(addCategory(value));
       dispatch(fetchJokeByCategory(value));
     }
   };
 
   return (
-    <select
-      value={selected}
-      onChange={handleChange}
-      className="w-full rounded-xl border border-gray-300 bg-white px-4 py-2 text-gray-700 shadow-sm 
-                 focus:border-blue-500 focus:ring focus:ring-blue-300 focus:ring-opacity-40
-                 dark:bg-gray-800 dark:text-gray-200 dark:border-gray-700 transition"
-    >
-      <option value="">Select a category</option>
-      {categories.map((cat) => (
-        <option key={cat} value={cat}>
-          {cat}
-        </option>
-      ))}
-    </select>
+    <div className="flex flex-col gap-2">
+      <div className="relative">
+        {/* Always shows the placeholder, so another category can be picked */}
+        <Select value="" onValueChange={handleChange}>
+          <SelectTrigger
+            aria-label={t('categories.placeholder')}
+            disabled={available.length === 0}
+            className="w-full rounded-xl bg-card px-4 text-card-foreground shadow-sm"
+          >
+            <SelectValue placeholder={t('categories.placeholder')} />
+          </SelectTrigger>
+          <SelectContent>
+            {groups.map((group, index) => (
+              <SelectGroup key={group.label}>
+                {index > 0 && <SelectSeparator />}
+                <SelectLabel>{group.label}</SelectLabel>
+                {group.names.map((cat) => {
+                  const Icon = categoryIcon(cat);
+                  return (
+                    <SelectItem
+                      key={cat}
+                      value={cat}
+                      textValue={categoryName(cat)}
+                    >
+                      <Icon aria-hidden="true" />
+                      {categoryName(cat)}
+                    </SelectItem>
+                  );
+                })}
+              </SelectGroup>
+            ))}
+          </SelectContent>
+        </Select>
+        {status === 'pending' && (
+          <Loader2
+            role="status"
+            aria-label={t('categories.loading')}
+            className="absolute right-8 top-1/2 w-4 h-4 -translate-y-1/2 animate-spin text-muted-foreground"
+          />
+        )}
+      </div>
+
+      {/* Selected categories with their weights */}
+      {selected.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <ul aria-label={t('categories.selected')} className="contents">
+            {selected.map((c) => {
+              const Icon = categoryIcon(c.name);
+              return (
+                <li
+                  key={c.name}
+                  className="flex items-center gap-1 rounded-full border bg-card pl-3 pr-1 py-0.5 text-sm"
+                >
+                  <Icon
+                    aria-hidden="true"
+                    className="w-3.5 h-3.5 text-muted-foreground"
+                  />
+                  {categoryName(c.name)}
+                  <WeightInput name={c.name} weight={c.weight} />
+                  <button
+                    type="button"
+                    aria-label={t('categories.remove', {
+                      category: categoryName(c.name),
+                    })}
+                    onClick={() => dispatch(removeCategory(c.name))}
+                    className="rounded-full p-1 hover:bg-accent"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => dispatch(fetchJokeFromSelection())}
+          >
+            <Shuffle className="w-4 h-4" />
+            {t('categories.next')}
+          </Button>
+        </div>
+      )}
+
+      {status === 'failed' && error && (
+        <JokeErrorMessage error={error} operation="categories" />
+      )}
+    </div>
   );
 }
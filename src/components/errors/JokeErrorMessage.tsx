@@ -0,0 +1,198 @@
+import type { JSX } from 'react';
+import { useAppDispatch } from '@/store/index';
+import {
+  fetchCategories,
+  fetchRandomJoke,
+  retryLastRequest,
+} from '@/store/slices/jokesSlice';
+import { resetSeenJokes } from '@/store/slices/noRepeatSlice';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import type { JokeError, JokesOperation } from '@/types/jokeTypes';
+import { Eraser, FolderSync, RotateCw, Shuffle } from 'lucide-react';
+
+/** Translation function of `useTranslation`. */
+type Translate = ReturnType<typeof useTranslation>['t'];
+
+/** Category name translation function of `useTranslation`. */
+type CategoryName = ReturnType<typeof useTranslation>['categoryName'];
+
+type JokeErrorMessageProps = {
+  /** The error to describe. */
+  error: JokeError;
+  /** The operation that failed; decides what "Retry" repeats. */
+  operation?: JokesOperation;
+};
+
+/** Recovery actions offered to the user. */
+type RecoveryAction = 'retry' | 'random' | 'reload-categories' | 'reset-seen';
+
+/**
+ * Build the user-facing message and recovery action for an error.
+ *
+ * @param {JokeError} error - The error stored in Redux.
+ * @param {Translate} t - Translates the message to the UI language.
+ * @param {CategoryName} categoryName - Translates category names to the UI language.
+ * @returns {{ message: string, action: RecoveryAction }} What to show and offer.
+ */
+function describeError(
+  error: JokeError,
+  t: Translate,
+  categoryName: CategoryName
+): {
+  message: string;
+  action: RecoveryAction;
+} {
+  switch (error.kind) {
+    case 'network':
+      return { message: t('error.network'), action: 'retry' };
+    case 'timeout':
+      return { message: t('error.timeout'), action: 'retry' };
+    case 'http':
+      if (error.status === 429) {
+        return { message: t('error.tooManyRequests'), action: 'retry' };
+      }
+      if (error.status !== undefined && error.status >= 500) {
+        return {
+          message: t('error.serverError', { status: error.status }),
+          action: 'retry',
+        };
+      }
+      return {
+        message: t('error.rejected', { status: String(error.status) }),
+        action: 'random',
+      };
+    case 'invalid-payload':
+      return { message: t('error.invalidPayload'), action: 'retry' };
+    case 'empty-search':
+      return {
+        message: t('error.emptySearch', { query: String(error.query) }),
+        action: 'random',
+      };
+    case 'invalid-category':
+      return {
+        message: t('error.invalidCategory', {
+          category: categoryName(String(error.category)),
+        }),
+        action: 'reload-categories',
+      };
+    case 'not-found':
+      return {
+        message: t('error.notFound', { id: String(error.id) }),
+        action: 'random',
+      };
+    case 'exhausted':
+      return {
+        message: error.category
+          ? t('error.exhaustedCategory', {
+              category: categoryName(error.category),
+            })
+          : t('error.exhausted'),
+        action: 'reset-seen',
+      };
+    case 'blocked':
+      return {
+        message: error.category
+          ? t('error.blockedCategory', {
+              category: categoryName(error.category),
+            })
+          : error.query
+            ? t('error.blockedQuery', { query: error.query })
+            : error.id
+              ? t('error.blockedId', { id: error.id })
+              : t('error.blocked'),
+        action: 'random',
+      };
+    case 'unknown':
+      return { message: error.message, action: 'retry' };
+  }
+}
+
+/**
+ * JokeErrorMessage component
+ *
+ * Explains why the last request failed and offers the recovery action that
+ * fits the kind of error:
+ * - transient problems (network, timeout, 5xx, 429, bad payload): retry
+ * - searches without matches, unknown joke ids, jokes hidden by safe mode and
+ *   rejected requests: a random joke instead
+ * - unknown categories: reload the category list
+ * - exhausted categories (no-repeat mode): forget seen jokes and try again
+ *
+ * @component
+ * @param {JokeErrorMessageProps} props - The props for the component.
+ * @param {JokeError} props.error - The error to describe.
+ * @param {JokesOperation} [props.operation='joke'] - The operation that failed.
+ * @returns {JSX.Element} The message and its recovery button.
+ */
+export default function JokeErrorMessage({
+  error,
+  operation = 'joke',
+}: JokeErrorMessageProps): JSX.Element {
+  const dispatch = useAppDispatch();
+  const { t, categoryName } = useTranslation();
+  const { message, action } = describeError(error, t, categoryName);
+
+  /**
+   * Repeats the failed request of the given operation.
+   */
+  const handleRetry = () => {
+    if (operation === 'categories') {
+      dispatch(fetchCategories());
+    } else {
+      dispatch(retryLastRequest(operation));
+    }
+  };
+
+  /**
+   * Forgets the seen jokes and repeats the request that ran out of new ones.
+   */
+  const handleResetSeen = () => {
+    dispatch(resetSeenJokes());
+    handleRetry();
+  };
+
+  return (
+    <div
+      role="alert"
+      data-error-kind={error.kind}
+      className="flex flex-col items-center gap-2"
+    >
+      <p className="text-center text-red-500 dark:text-red-400 font-medium">
+        {message}
+      </p>
+      {action === 'retry' && (
+        <Button variant="outline" size="sm" onClick={handleRetry}>
+          <RotateCw className="w-4 h-4" />
+          {t('error.retry')}
+        </Button>
+      )}
+      {action === 'random' && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => dispatch(fetchRandomJoke())}
+        >
+          <Shuffle className="w-4 h-4" />
+          {t('error.random')}
+        </Button>
+      )}
+      {action === 'reload-categories' && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => dispatch(fetchCategories())}
+        >
+          <FolderSync className="w-4 h-4" />
+          {t('error.reloadCategories')}
+        </Button>
+      )}
+      {action === 'reset-seen' && (
+        <Button variant="outline" size="sm" onClick={handleResetSeen}>
+          <Eraser className="w-4 h-4" />
+          {t('error.resetSeen')}
+        </Button>
+      )}
+    </div>
+  );
+}
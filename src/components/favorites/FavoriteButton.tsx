@@ -0,0 +1,46 @@
+import type { JSX } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/index';
+import {
+  selectIsFavorite,
+  toggleFavorite,
+} from '@/store/slices/favoritesSlice';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import type { Joke } from '@/types/jokeTypes';
+import { Star } from 'lucide-react';
+
+type FavoriteButtonProps = {
+  /** The joke to add to or remove from the favorites. */
+  joke: Joke;
+};
+
+/**
+ * FavoriteButton component
+ *
+ * Star toggle that adds a joke to the favorites or removes it again.
+ * The pressed state reflects whether the joke is currently a favorite.
+ *
+ * @component
+ * @param {FavoriteButtonProps} props - The props for the component.
+ * @param {Joke} props.joke - The joke to toggle.
+ * @returns {JSX.Element} The toggle button.
+ */
+export default function FavoriteButton({
+  joke,
+}: FavoriteButtonProps): JSX.Element {
+  const dispatch = useAppDispatch();
+  const isFavorite = useAppSelector((s) => selectIsFavorite(s, joke.id));
+  const { t } = useTranslation();
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      aria-pressed={isFavorite}
+      onClick={() => dispatch(toggleFavorite(joke))}
+    >
+      <Star className={`w-4 h-4 ${isFavorite ? 'fill-current' : ''}`} />
+      {isFavorite ? t('favorites.remove') : t('favorites.add')}
+    </Button>
+  );
+}
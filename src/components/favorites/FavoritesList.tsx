@@ -0,0 +1,135 @@
+import { useState, type JSX } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/index';
+import { removeFavorite, selectFavorites } from '@/store/slices/favoritesSlice';
+import JokeCard from '@/components/jokes/JokeCard';
+import { safeJoke } from '@/lib/safeMode';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import type { Joke } from '@/types/jokeTypes';
+import { Eye, Trash2 } from 'lucide-react';
+
+/** Filter value matching jokes without any category. */
+const UNCATEGORIZED = '__uncategorized__';
+
+type FavoritesListProps = {
+  /** Called with a favorite the user wants to show in the joke card. */
+  onOpen: (joke: Joke) => void;
+};
+
+/**
+ * FavoritesList component
+ *
+ * Lists the saved favorite jokes, most recently added first. The list can be
+ * filtered by category; each entry can be re-opened in the joke card or
+ * removed from the favorites. In safe mode, favorites from blocked
+ * categories are hidden and profanity is masked.
+ *
+ * @component
+ * @param {FavoritesListProps} props - The props for the component.
+ * @param {(joke: Joke) => void} props.onOpen - Re-opens a favorite.
+ * @returns {JSX.Element} The favorites view.
+ */
+export default function FavoritesList({
+  onOpen,
+}: FavoritesListProps): JSX.Element {
+  const dispatch = useAppDispatch();
+  const saved = useAppSelector(selectFavorites);
+  const safeMode = useAppSelector((s) => s.safeMode);
+  const { t, categoryName } = useTranslation();
+
+  /** Favorites safe mode lets be shown, masked while it is on */
+  const favorites = saved.flatMap((joke) => {
+    const shown = safeJoke(joke, safeMode);
+    return shown ? [shown] : [];
+  });
+  const hiddenCount = saved.length - favorites.length;
+
+  /** Selected category filter; empty string shows every favorite */
+  const [filter, setFilter] = useState('');
+
+  const categories = [
+    ...new Set(favorites.flatMap((joke) => joke.categories)),
+  ].sort();
+  const hasUncategorized = favorites.some((j) => j.categories.length === 0);
+
+  /** Falls back to all favorites once the filtered category is emptied */
+  const activeFilter =
+    categories.includes(filter) ||
+    (filter === UNCATEGORIZED && hasUncategorized)
+      ? filter
+      : '';
+
+  const visible = favorites.filter((joke) => {
+    if (activeFilter === '') return true;
+    if (activeFilter === UNCATEGORIZED) return joke.categories.length === 0;
+    return joke.categories.includes(activeFilter);
+  });
+
+  if (saved.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground">
+        {t('favorites.empty')}
+      </p>
+    );
+  }
+
+  return (
+    <section aria-label={t('favorites.label')} className="flex flex-col gap-4">
+      {hiddenCount > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {t('safeMode.hiddenJokes', { count: hiddenCount })}
+        </p>
+      )}
+
+      <label className="flex items-center gap-2 text-sm">
+        {t('filter.category')}
+        <select
+          value={activeFilter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="px-3 py-1 border rounded-lg bg-background"
+        >
+          <option value="">{t('filter.all')}</option>
+          {categories.map((cat) => (
+            <option key={cat} value={cat}>
+              {categoryName(cat)}
+            </option>
+          ))}
+          {hasUncategorized && (
+            <option value={UNCATEGORIZED}>{t('filter.uncategorized')}</option>
+          )}
+        </select>
+      </label>
+
+      <ul className="flex flex-col gap-4">
+        {visible.map((joke) => (
+          <li key={joke.id}>
+            <JokeCard
+              joke={joke.value}
+              category={joke.categories.join(', ') || null}
+              actions={
+                <>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onOpen(joke)}
+                  >
+                    <Eye className="w-4 h-4" />
+                    {t('list.open')}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => dispatch(removeFavorite(joke.id))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    {t('favorites.removeEntry')}
+                  </Button>
+                </>
+              }
+            />
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
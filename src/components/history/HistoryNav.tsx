@@ -0,0 +1,61 @@
+import type { JSX, ReactNode } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/index';
+import {
+  goToHistoryEntry,
+  selectNextEntry,
+  selectPreviousEntry,
+} from '@/store/slices/historySlice';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+type HistoryNavProps = {
+  /** The joke card to place between the buttons. */
+  children: ReactNode;
+};
+
+/**
+ * HistoryNav component
+ *
+ * Places back/forward buttons around the joke card to step through the
+ * jokes shown in this session, skipping those hidden by safe mode.
+ *
+ * @component
+ * @param {HistoryNavProps} props - The props for the component.
+ * @param {ReactNode} props.children - The joke card.
+ * @returns {JSX.Element} The card flanked by the history buttons.
+ */
+export default function HistoryNav({ children }: HistoryNavProps): JSX.Element {
+  const dispatch = useAppDispatch();
+
+  /** Neighbouring entries, skipping jokes hidden by safe mode */
+  const previous = useAppSelector(selectPreviousEntry);
+  const next = useAppSelector(selectNextEntry);
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="shrink-0"
+        aria-label={t('history.previous')}
+        disabled={previous === -1}
+        onClick={() => dispatch(goToHistoryEntry(previous))}
+      >
+        <ChevronLeft className="w-5 h-5" />
+      </Button>
+      {children}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="shrink-0"
+        aria-label={t('history.next')}
+        disabled={next === -1}
+        onClick={() => dispatch(goToHistoryEntry(next))}
+      >
+        <ChevronRight className="w-5 h-5" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState, type JSX } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/index';
+import {
+  clearHistory,
+  goToHistoryEntry,
+  HISTORY_LIMIT_OPTIONS,
+  setHistoryLimit,
+} from '@/store/slices/historySlice';
+import { safeJoke } from '@/lib/safeMode';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import type { JokeRequest } from '@/types/jokeTypes';
+import { ChevronDown, ChevronUp, History, Trash2 } from 'lucide-react';
+
+/**
+ * Describe how a history entry was obtained.
+ *
+ * @param {JokeRequest} source - The request that produced the joke.
+ * @param {ReturnType<typeof useTranslation>} i18n - Translation functions of the UI language.
+ * @returns {string} A short human-readable label.
+ */
+function describeSource(
+  source: JokeRequest,
+  { t, categoryName }: ReturnType<typeof useTranslation>
+): string {
+  switch (source.type) {
+    case 'random':
+      return t('history.source.random');
+    case 'category':
+      return t('history.source.category', {
+        category: categoryName(source.category),
+      });
+    case 'search':
+    case 'lucky':
+      return t('history.source.search', { query: source.query });
+    case 'id':
+      return t('history.source.id');
+  }
+}
+
+/**
+ * HistoryPanel component
+ *
+ * Collapsible list of the jokes shown in this session, newest first, with
+ * how each was obtained. In safe mode, jokes from blocked categories are
+ * hidden and profanity is masked. Selecting an entry shows it again in the joke card.
+ * Also lets the user choose how many entries are kept and clear the history.
+ *
+ * @component
+ * @returns {JSX.Element} The history toggle and, when expanded, the panel.
+ */
+export default function HistoryPanel(): JSX.Element {
+  const dispatch = useAppDispatch();
+  const { entries, index, limit } = useAppSelector((s) => s.history);
+  const safeMode = useAppSelector((s) => s.safeMode);
+  const i18n = useTranslation();
+  const { t } = i18n;
+
+  /** Entries safe mode lets be shown, newest first, with their position */
+  const visible = entries
+    .flatMap((entry, i) => {
+      const joke = safeJoke(entry.joke, safeMode);
+      return joke ? [{ entry, joke, i }] : [];
+    })
+    .reverse();
+  const hiddenCount = entries.length - visible.length;
+
+  /** Whether the panel is expanded */
+  const [open, setOpen] = useState(false);
+
+  return (
+    <section className="flex flex-col gap-2">
+      <Button
+        variant="ghost"
+        className="self-start"
+        aria-expanded={open}
+        aria-controls="history-panel"
+        onClick={() => setOpen(!open)}
+      >
+        <History className="w-4 h-4" />
+        {t('history.toggle', { count: visible.length })}
+        {open ? (
+          <ChevronUp className="w-4 h-4" />
+        ) : (
+          <ChevronDown className="w-4 h-4" />
+        )}
+      </Button>
+
+      {open && (
+        <div id="history-panel" className="flex flex-col gap-3">
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-sm">
+              {t('history.keepLast')}
+              <select
+                value={limit}
+                onChange={(e) => dispatch(setHistoryLimit(+e.target.value))}
+                className="px-3 py-1 border rounded-lg bg-background"
+              >
+                {HISTORY_LIMIT_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={entries.length === 0}
+              onClick={() => dispatch(clearHistory())}
+            >
+              <Trash2 className="w-4 h-4" />
+              {t('history.clear')}
+            </Button>
+          </div>
+
+          {hiddenCount > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {t('safeMode.hiddenJokes', { count: hiddenCount })}
+            </p>
+          )}
+
+          {visible.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {t('history.empty')}
+            </p>
+          ) : (
+            <ol className="flex flex-col gap-1">
+              {visible.map(({ entry, joke, i }) => (
+                <li key={`${entry.shownAt}-${entry.joke.id}`}>
+                  <button
+                    type="button"
+                    aria-current={i === index ? 'true' : undefined}
+                    onClick={() => dispatch(goToHistoryEntry(i))}
+                    className="w-full text-left px-3 py-2 rounded-lg hover:bg-accent aria-[current=true]:bg-accent"
+                  >
+                    <span className="block truncate">{joke.value}</span>
+                    <span className="block text-xs text-muted-foreground">
+                      {describeSource(entry.source, i18n)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
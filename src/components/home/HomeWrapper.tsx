@@ -1,10 +1,41 @@
-import { useEffect, type JSX } from 'react';
+import { useState, type JSX } from 'react';
 import { useAppSelector, useAppDispatch } from '@/store/index';
 import JokeCard from '@/components/jokes/JokeCard';
 import SearchBar from '@/components/search/SearchBar';
+import SearchResults from '@/components/search/SearchResults';
 import CategoriesSelect from '@/components/categories/CategoriesSelect';
+import FavoritesList from '@/components/favorites/FavoritesList';
+import Leaderboard from '@/components/ratings/Leaderboard';
+import HistoryNav from '@/components/history/HistoryNav';
+import HistoryPanel from '@/components/history/HistoryPanel';
+import NoRepeatToggle from '@/components/jokes/NoRepeatToggle';
+import SafeModeToggle from '@/components/jokes/SafeModeToggle';
+import JokeIdInput from '@/components/jokes/JokeIdInput';
+import JokeActions from '@/components/jokes/JokeActions';
+import JokeBatch from '@/components/batch/JokeBatch';
+import SlideshowControls from '@/components/slideshow/SlideshowControls';
+import SpeechSettings from '@/components/speech/SpeechSettings';
 import { ModeToggle } from '@/components/theme/ModeToggle';
-import { fetchRandomJoke } from '@/store//slices/jokesSlice';
+import LanguageSwitcher from '@/components/i18n/LanguageSwitcher';
+import KeyboardShortcuts from '@/components/shortcuts/KeyboardShortcuts';
+import JokeErrorMessage from '@/components/errors/JokeErrorMessage';
+import LoadingMessage from '@/components/status/LoadingMessage';
+import JokeAnnouncer from '@/components/status/JokeAnnouncer';
+import {
+  selectCardJoke,
+  selectJokeRequest,
+  showJoke,
+} from '@/store//slices/jokesSlice';
+import { selectFavoritesCount } from '@/store/slices/favoritesSlice';
+import { selectPickedFrom } from '@/store/slices/categorySelectionSlice';
+import { selectTopRated } from '@/store/slices/ratingsSlice';
+import { Button } from '@/components/ui/button';
+import { useRouteSync } from '@/hooks/useRouteSync';
+import { useSlideshow } from '@/hooks/useSlideshow';
+import { useColorTheme } from '@/hooks/useColorTheme';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { Joke } from '@/types/jokeTypes';
+import { ArrowLeft, Star, Trophy } from 'lucide-react';
 
 /**
  * Home component
@@ -12,78 +43,209 @@ import { fetchRandomJoke } from '@/store//slices/jokesSlice';
  * Main landing page for the Chuck Norris jokes app.
  *
  * Features:
- * - Automatically fetches a random joke on mount.
- * - Provides a theme toggle (`ModeToggle`) for light/dark mode.
+ * - Loads what the URL describes (`/joke/:id`, `/category/:name`,
+ *   `/search?q=`, or a random joke on `/`) and keeps the URL in sync.
+ * - Provides a theme toggle (`ModeToggle`) for light/dark mode and custom
+ *   color themes, edited in a `ThemeEditor`, and a `LanguageSwitcher` for
+ *   the UI language.
+ * - Enables `KeyboardShortcuts`, with a help overlay and a command palette.
  * - Includes a `SearchBar` for keyword-based joke search.
- * - Includes a `CategoriesSelect` for browsing jokes by category.
+ * - Lists all matches of the last search in `SearchResults`.
+ * - Includes a `CategoriesSelect` for browsing jokes from one or more
+ *   (weighted) categories.
+ * - Includes a `JokeIdInput` for loading a joke by its id or URL.
+ * - Includes a `NoRepeatToggle` to skip jokes that were already seen.
+ * - Includes a `SafeModeToggle` to hide sensitive categories and mask profanity.
+ * - Includes `SlideshowControls` to cycle jokes automatically; the card shows
+ *   the countdown and pauses it while hovered or focused.
+ * - Includes `SpeechSettings` for reading jokes aloud; the card reads each new
+ *   joke when auto-read is on.
  * - Conditionally displays:
- *   - A loading indicator
- *   - An error message
- *   - A joke card (`JokeCard`) when results are available
+ *   - A loading indicator, with the attempt number while retrying
+ *   - An error message (`JokeErrorMessage`) with a matching recovery action
+ *   - A joke card (`JokeCard`) with favorite, share and rating controls when results are available,
+ *     flanked by back/forward buttons (`HistoryNav`)
+ *   - Each new joke, announced to screen readers (`JokeAnnouncer`)
+ * - Fetches several jokes at once into a grid (`JokeBatch`).
+ * - Lists the jokes shown so far in a collapsible `HistoryPanel`.
+ * - Switches to the `FavoritesList` view, from which favorites can be re-opened.
+ * - Switches to the `Leaderboard` view of the best rated jokes.
  *
  * @component
  * @returns {JSX.Element} The rendered home page layout.
  */
 export default function HomeWrapper(): JSX.Element {
   const dispatch = useAppDispatch();
+  const { t } = useTranslation();
 
   /**
    * State values from Redux store (`jokesSlice`):
    *
-   * @property {string} value - The currently fetched joke text.
-   * @property {string} category - The category of the current joke.
-   * @property {string | null} error - Error message, if the fetch fails.
-   * @property {boolean} loading - Indicates if a fetch request is in progress.
    * @property {boolean} hasSearched - True if user initiated a search or category selection.
+   * @property {string | null} searchQuery - Query whose results are listed, if any.
+   * @property {string | null} jokeQuery - Query the card's joke was found with, highlighted in it.
+   * @property {string | null} category - Category the card's joke was requested from.
    */
-  const { value, category, error, loading, hasSearched } = useAppSelector(
+  const { hasSearched, searchQuery, jokeQuery, category } = useAppSelector(
     (s) => s.jokes
   );
 
   /**
-   * Runs once on mount to fetch a random joke.
-   * Uses the `fetchRandomJoke` thunk from `jokesSlice`.
+   * The card's joke as safe mode lets it be shown, or why it is hidden when
+   * it was loaded before safe mode was turned on
    */
-  useEffect(() => {
-    dispatch(fetchRandomJoke());
-  }, [dispatch]);
+  const { joke, error: hiddenError } = useAppSelector(selectCardJoke);
+
+  /** Categories a joke from a multi-category selection was picked from */
+  const pickedFrom = useAppSelector(selectPickedFrom);
+
+  /** Status of the joke card request, independent of categories and search */
+  const {
+    status,
+    error: requestError,
+    retry,
+  } = useAppSelector(selectJokeRequest);
+  const error = requestError ?? hiddenError;
+  const loading = status === 'pending';
+
+  /** Number of saved favorites, shown on the view toggle */
+  const favoritesCount = useAppSelector(selectFavoritesCount);
+
+  /** Number of rated jokes, shown on the view toggle */
+  const ratedCount = useAppSelector(selectTopRated).length;
+
+  /** Which view replaces the jokes view, if any */
+  const [view, setView] = useState<'jokes' | 'favorites' | 'leaderboard'>(
+    'jokes'
+  );
+
+  /**
+   * Shows a favorite or rated joke in the joke card and returns to the jokes view.
+   *
+   * @param {Joke} saved - The joke to re-open.
+   */
+  const handleOpen = (saved: Joke) => {
+    dispatch(showJoke(saved));
+    setView('jokes');
+  };
+
+  /** Loads the joke, category or search described by the URL */
+  useRouteSync();
+
+  /** Slideshow countdown, paused while the card is hovered or focused */
+  const slideshow = useSlideshow();
+
+  /** Applies the chosen custom color theme */
+  useColorTheme();
 
   return (
     <div className="min-h-screen relative flex flex-col items-center justify-center p-6 bg-background text-foreground transition-colors">
-      {/* Top-right theme toggle button */}
-      <div className="absolute top-4 right-4">
+      {/* Top-right shortcuts, language and theme toggle buttons */}
+      <div className="absolute top-4 right-4 flex gap-2">
+        <KeyboardShortcuts />
+        <LanguageSwitcher />
         <ModeToggle />
       </div>
 
       <div className="w-full max-w-xl flex flex-col gap-6">
         {/* Page heading */}
         <h1 className="text-4xl font-bold tracking-tight text-center">
-          Chuck Norris Jokes
+          {t('app.title')}
         </h1>
 
-        {/* Search bar for text queries */}
-        <SearchBar />
+        {/* Switch between the jokes, favorites and leaderboard views */}
+        {view === 'jokes' ? (
+          <div className="flex justify-center gap-2">
+            <Button variant="outline" onClick={() => setView('favorites')}>
+              <Star className="w-4 h-4" />
+              {t('home.favorites', { count: favoritesCount })}
+            </Button>
+            <Button variant="outline" onClick={() => setView('leaderboard')}>
+              <Trophy className="w-4 h-4" />
+              {t('home.topRated', { count: ratedCount })}
+            </Button>
+          </div>
+        ) : (
+          <Button
+            variant="outline"
+            className="self-center"
+            onClick={() => setView('jokes')}
+          >
+            <ArrowLeft className="w-4 h-4" />
+            {t('home.back')}
+          </Button>
+        )}
 
-        {/* Dropdown for selecting joke categories */}
-        <CategoriesSelect />
+        {view === 'favorites' ? (
+          <FavoritesList onOpen={handleOpen} />
+        ) : view === 'leaderboard' ? (
+          <Leaderboard onOpen={handleOpen} />
+        ) : (
+          <>
+            {/* Search bar for text queries */}
+            <SearchBar />
 
-        {/* Loading indicator */}
-        {loading && (
-          <p className="text-center text-blue-500 dark:text-blue-400 font-medium">
-            Loading...
-          </p>
-        )}
+            {/* All matches of the last search; remounted per query to reset paging */}
+            <SearchResults key={searchQuery ?? ''} />
 
-        {/* Error message display */}
-        {error && !loading && (
-          <p className="text-center text-red-500 dark:text-red-400 font-medium">
-            {error}
-          </p>
-        )}
+            {/* Dropdown for selecting joke categories */}
+            <CategoriesSelect />
+
+            {/* Load a specific joke by id or URL */}
+            <JokeIdInput />
+
+            {/* Skip already seen random and category jokes */}
+            <NoRepeatToggle />
+
+            {/* Hide blocked categories and mask profanity */}
+            <SafeModeToggle />
+
+            {/* Cycle jokes automatically */}
+            <SlideshowControls />
+
+            {/* Read-aloud voice and auto-read preferences */}
+            <SpeechSettings />
+
+            {/* Loading indicator */}
+            {loading && <LoadingMessage retry={retry} />}
+
+            {/* Error message and recovery action */}
+            {error && !loading && <JokeErrorMessage error={error} />}
+
+            {/* Reads each new joke to screen readers */}
+            <JokeAnnouncer
+              joke={!loading && hasSearched && joke ? joke.value : null}
+            />
+
+            {/* Joke card output after successful fetch/search */}
+            {!loading && hasSearched && joke && (
+              <HistoryNav>
+                <div className="w-full" {...slideshow.holdProps}>
+                  <JokeCard
+                    joke={joke.value}
+                    category={category}
+                    pickedFrom={pickedFrom}
+                    progress={slideshow.progress}
+                    highlight={jokeQuery}
+                    autoRead
+                    actions={
+                      <JokeActions
+                        joke={joke}
+                        category={category}
+                        pickedFrom={pickedFrom}
+                      />
+                    }
+                  />
+                </div>
+              </HistoryNav>
+            )}
+
+            {/* Several jokes at once, shown as a grid */}
+            <JokeBatch />
 
-        {/* Joke card output after successful fetch/search */}
-        {!loading && hasSearched && value && (
-          <JokeCard joke={value} category={category} />
+            {/* Jokes shown in this and previous sessions */}
+            <HistoryPanel />
+          </>
         )}
       </div>
     </div>
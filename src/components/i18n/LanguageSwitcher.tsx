@@ -0,0 +1,58 @@
+import { useEffect, type JSX } from 'react';
+import { useAppDispatch } from '@/store/index';
+import { setLocale } from '@/store/slices/localeSlice';
+import { isLocale, LOCALES } from '@/lib/i18n/translate';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Languages } from 'lucide-react';
+
+/**
+ * LanguageSwitcher component
+ *
+ * Dropdown for choosing the UI language, shown next to `ModeToggle`. Each
+ * language is named in its own language. Also keeps the `lang` attribute of
+ * the page in sync, so screen readers and speech use the right language.
+ *
+ * @component
+ * @returns {JSX.Element} The language menu.
+ */
+export default function LanguageSwitcher(): JSX.Element {
+  const dispatch = useAppDispatch();
+  const { locale, t } = useTranslation();
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon">
+          <Languages className="h-[1.2rem] w-[1.2rem]" />
+          <span className="sr-only">{t('language.change')}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuRadioGroup
+          value={locale}
+          onValueChange={(value) => {
+            if (isLocale(value)) dispatch(setLocale(value));
+          }}
+        >
+          {LOCALES.map(({ value, label }) => (
+            <DropdownMenuRadioItem key={value} value={value} lang={value}>
+              {label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
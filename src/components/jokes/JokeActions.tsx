@@ -0,0 +1,41 @@
+import type { JSX } from 'react';
+import FavoriteButton from '@/components/favorites/FavoriteButton';
+import ShareMenu from '@/components/jokes/ShareMenu';
+import StarRating from '@/components/ratings/StarRating';
+import type { Joke } from '@/types/jokeTypes';
+
+type JokeActionsProps = {
+  /** The joke shown in the card. */
+  joke: Joke;
+  /** Category (or comma-separated categories) of the joke. */
+  category: string | null;
+  /** Categories of a multi-category selection the joke was picked from. */
+  pickedFrom?: string[] | null;
+};
+
+/**
+ * JokeActions component
+ *
+ * Controls shown below a joke card: the favorite toggle, the share menu and
+ * the star rating.
+ *
+ * @component
+ * @param {JokeActionsProps} props - The props for the component.
+ * @param {Joke} props.joke - The joke shown in the card.
+ * @param {string | null} props.category - Category of the joke.
+ * @param {string[] | null} [props.pickedFrom] - Categories the joke was picked from.
+ * @returns {JSX.Element} The joke controls.
+ */
+export default function JokeActions({
+  joke,
+  category,
+  pickedFrom = null,
+}: JokeActionsProps): JSX.Element {
+  return (
+    <>
+      <FavoriteButton joke={joke} />
+      <ShareMenu joke={joke} category={category} pickedFrom={pickedFrom} />
+      <StarRating joke={joke} />
+    </>
+  );
+}
@@ -1,19 +1,42 @@
-import type { JSX } from 'react';
+import type { JSX, ReactNode } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
-import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { highlightMatches, matchedTerms } from '@/lib/highlight';
+import { useSpeech } from '@/hooks/useSpeech';
+import { useTranslation } from '@/hooks/useTranslation';
+import { motion, useReducedMotion } from 'framer-motion';
+import { Square, Volume2 } from 'lucide-react';
 
 type JokeCardProps = {
   /** The joke text to display. If null, shows a fallback message. */
   joke: string | null;
-  /** The category of the joke, displayed as a subtitle if provided. */
+  /** The category (or comma-separated categories) of the joke, shown localized as a subtitle if provided. */
   category: string | null;
+  /** Categories of a multi-category selection the joke was picked from. */
+  pickedFrom?: string[] | null;
+  /** Optional controls rendered below the joke (e.g. a favorite button). */
+  actions?: ReactNode;
+  /** Seconds to wait before the entrance animation, to stagger cards in a grid. */
+  delay?: number;
+  /** Elapsed fraction (0–1) of the slideshow countdown; hides the bar when null. */
+  progress?: number | null;
+  /** Search query whose terms are highlighted in the joke, if it was found by one. */
+  highlight?: string | null;
+  /** Read each new joke aloud when the speech preferences ask for it. */
+  autoRead?: boolean;
 };
 
 /**
  * JokeCard component
  *
  * Displays a joke inside a styled card with a smooth animation.
- * Uses `framer-motion` for fade/scale transition effects when the joke changes.
+ * Uses `framer-motion` for fade/scale transition effects when the joke changes,
+ * unless the user prefers reduced motion.
+ * When a search query is given, every match of its terms is marked with
+ * `<mark>` and a badge lists the terms that were found.
+ * Where the browser supports speech synthesis, a button reads the joke aloud
+ * and the word being spoken is highlighted.
+ * Category names are shown in the UI language.
  *
  * @component
  * @example
@@ -24,31 +47,139 @@ type JokeCardProps = {
  * @param {JokeCardProps} props - The props for the component.
  * @param {string | null} props.joke - The joke text to display.
  * @param {string | null} props.category - The category of the joke.
+ * @param {string[] | null} [props.pickedFrom] - Categories the joke was picked from.
+ * @param {ReactNode} [props.actions] - Controls rendered below the joke.
+ * @param {number} [props.delay=0] - Delay of the entrance animation in seconds.
+ * @param {number | null} [props.progress] - Slideshow countdown shown as a progress bar.
+ * @param {string | null} [props.highlight] - Search query to highlight in the joke.
+ * @param {boolean} [props.autoRead=false] - Whether new jokes may be read aloud automatically.
  * @returns {JSX.Element} A motion-animated card containing the joke and category.
  */
 export default function JokeCard({
   joke,
   category,
+  pickedFrom = null,
+  actions,
+  delay = 0,
+  progress = null,
+  highlight = null,
+  autoRead = false,
 }: JokeCardProps): JSX.Element {
+  const { t, categoryLabel } = useTranslation();
+  const matched = joke && highlight ? matchedTerms(joke, highlight) : [];
+  const speech = useSpeech(joke, autoRead);
+  const canSpeak = speech.supported && !!joke;
+
+  /** Whether the OS asks for reduced motion, which skips the entrance animation */
+  const reduceMotion = useReducedMotion();
+
+  /**
+   * Renders the joke text, marking the word being spoken or, otherwise, the
+   * search matches.
+   *
+   * @returns {ReactNode} The joke text.
+   */
+  const renderText = (): ReactNode => {
+    if (!joke) return t('card.empty');
+    if (speech.word) {
+      const { start, end } = speech.word;
+      return (
+        <>
+          {joke.slice(0, start)}
+          <span
+            data-testid="spoken-word"
+            className="rounded-sm bg-accent px-0.5 text-accent-foreground"
+          >
+            {joke.slice(start, end)}
+          </span>
+          {joke.slice(end)}
+        </>
+      );
+    }
+    if (matched.length === 0) return joke;
+    return highlightMatches(joke, highlight ?? '').map((segment, index) =>
+      segment.match ? (
+        <mark
+          key={index}
+          className="rounded-sm bg-primary/20 px-0.5 text-inherit"
+        >
+          {segment.text}
+        </mark>
+      ) : (
+        segment.text
+      )
+    );
+  };
+
   return (
     <motion.div
       key={joke} // ensures re-animation when the joke text changes
-      initial={{ opacity: 0, scale: 0.9 }}
+      initial={reduceMotion ? false : { opacity: 0, scale: 0.9 }}
       animate={{ opacity: 1, scale: 1 }}
-      transition={{ duration: 0.3 }}
+      transition={{ duration: 0.3, delay }}
       className="w-full"
     >
       <Card className="p-4 shadow-lg bg-card text-card-foreground transition-colors rounded-xl">
         <CardContent>
           {/* Joke text */}
-          <p className="text-lg font-medium">{joke || 'No joke yet'}</p>
+          <p className="text-lg font-medium">{renderText()}</p>
+
+          {/* Search terms found in the joke */}
+          {matched.length > 0 && (
+            <span className="mt-2 inline-block rounded-full bg-secondary px-2 py-0.5 text-xs text-secondary-foreground">
+              {t('card.matched', { terms: matched.join(', ') })}
+            </span>
+          )}
 
           {/* Joke category, if available */}
           {category && (
             <p className="text-sm text-muted-foreground mt-2">
-              Category: {category}
+              {t('card.category', {
+                category: categoryLabel(category, pickedFrom),
+              })}
             </p>
           )}
+
+          {/* Joke actions, if provided, and the read aloud toggle */}
+          {(actions || canSpeak) && (
+            <div className="flex flex-wrap items-center gap-2 mt-4">
+              {actions}
+              {canSpeak && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  aria-pressed={speech.speaking}
+                  onClick={speech.speaking ? speech.stop : speech.speak}
+                >
+                  {speech.speaking ? (
+                    <Square className="w-4 h-4" />
+                  ) : (
+                    <Volume2 className="w-4 h-4" />
+                  )}
+                  {speech.speaking
+                    ? t('card.stopReading')
+                    : t('card.readAloud')}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {/* Time until the slideshow shows the next joke */}
+          {progress !== null && (
+            <div
+              role="progressbar"
+              aria-label={t('card.countdown')}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(progress * 100)}
+              className="mt-4 h-1 w-full overflow-hidden rounded-full bg-muted"
+            >
+              <div
+                className="h-full bg-primary transition-[width] duration-100 ease-linear motion-reduce:transition-none"
+                style={{ width: `${progress * 100}%` }}
+              />
+            </div>
+          )}
         </CardContent>
       </Card>
     </motion.div>
@@ -0,0 +1,77 @@
+import { useState, type JSX } from 'react';
+import { useAppDispatch } from '@/store/index';
+import { fetchJokeById } from '@/store/slices/jokesSlice';
+import { parseJokeId } from '@/lib/jokeId';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Link } from 'lucide-react';
+
+/**
+ * JokeIdInput component
+ *
+ * Loads exactly one joke from a pasted joke id or api.chucknorris.io joke
+ * URL. Input that is neither is rejected with an inline message instead of
+ * being sent to the API.
+ *
+ * @component
+ * @returns {JSX.Element} The id form.
+ */
+export default function JokeIdInput(): JSX.Element {
+  const dispatch = useAppDispatch();
+  const { t } = useTranslation();
+  const [value, setValue] = useState('');
+
+  /** Whether the last submitted value could not be read as a joke id */
+  const [invalid, setInvalid] = useState(false);
+
+  /**
+   * Handles the form submission.
+   * Dispatches `fetchJokeById` if the input contains a joke id.
+   *
+   * @param {React.FormEvent<HTMLFormElement>} e - The form submit event
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = parseJokeId(value);
+    setInvalid(id === null);
+    if (id) dispatch(fetchJokeById(id));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-1 w-full">
+      <div className="flex items-center gap-2">
+        <Input
+          type="text"
+          placeholder={t('jokeId.placeholder')}
+          aria-label={t('jokeId.label')}
+          aria-invalid={invalid}
+          aria-describedby={invalid ? 'joke-id-error' : undefined}
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setInvalid(false);
+          }}
+          className="flex-1 rounded-xl shadow-sm bg-card text-card-foreground placeholder:text-muted-foreground"
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          className="rounded-xl shadow-md px-4"
+          disabled={!value.trim()}
+        >
+          <Link className="w-4 h-4 mr-1" />
+          {t('jokeId.submit')}
+        </Button>
+      </div>
+      {invalid && (
+        <p
+          id="joke-id-error"
+          className="text-sm text-red-500 dark:text-red-400"
+        >
+          {t('jokeId.invalid')}
+        </p>
+      )}
+    </form>
+  );
+}
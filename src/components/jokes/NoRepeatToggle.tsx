@@ -0,0 +1,43 @@
+import type { JSX } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/index';
+import { resetSeenJokes, setNoRepeat } from '@/store/slices/noRepeatSlice';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import { Eraser } from 'lucide-react';
+
+/**
+ * NoRepeatToggle component
+ *
+ * Switches the "no repeats" mode, in which random and category jokes that
+ * were already seen are skipped, and lets the user forget the seen jokes.
+ *
+ * @component
+ * @returns {JSX.Element} The checkbox and reset button.
+ */
+export default function NoRepeatToggle(): JSX.Element {
+  const dispatch = useAppDispatch();
+  const { enabled, seenIds } = useAppSelector((s) => s.noRepeat);
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex items-center justify-between gap-2 text-sm">
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => dispatch(setNoRepeat(e.target.checked))}
+        />
+        {t('noRepeat.label')}
+      </label>
+      <Button
+        variant="ghost"
+        size="sm"
+        disabled={seenIds.length === 0}
+        onClick={() => dispatch(resetSeenJokes())}
+      >
+        <Eraser className="w-4 h-4" />
+        {t('noRepeat.reset', { count: seenIds.length })}
+      </Button>
+    </div>
+  );
+}
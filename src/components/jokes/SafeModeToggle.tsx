@@ -0,0 +1,101 @@
+import { useState, type JSX } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/index';
+import {
+  resetBlockedCategories,
+  setSafeMode,
+  toggleBlockedCategory,
+} from '@/store/slices/safeModeSlice';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, ChevronUp, RotateCcw, ShieldCheck } from 'lucide-react';
+
+/**
+ * SafeModeToggle component
+ *
+ * Switches the safe mode, in which jokes from blocked categories are skipped
+ * or hidden and profanity is masked, and lets the user edit the blocklist.
+ * The blocklist offers every loaded category plus any blocked category the
+ * API does not list (e.g. before the categories have loaded).
+ *
+ * @component
+ * @returns {JSX.Element} The checkbox and the collapsible blocklist.
+ */
+export default function SafeModeToggle(): JSX.Element {
+  const dispatch = useAppDispatch();
+  const { enabled, blockedCategories } = useAppSelector((s) => s.safeMode);
+  const categories = useAppSelector((s) => s.jokes.categories);
+  const { t, categoryName } = useTranslation();
+
+  /** Whether the blocklist editor is expanded */
+  const [open, setOpen] = useState(false);
+
+  /** Every category that can be blocked, in API order */
+  const options = [
+    ...categories,
+    ...blockedCategories.filter((c) => !categories.includes(c)),
+  ];
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => dispatch(setSafeMode(e.target.checked))}
+          />
+          <ShieldCheck className="w-4 h-4" />
+          {t('safeMode.label')}
+        </label>
+        <Button
+          variant="ghost"
+          size="sm"
+          aria-expanded={open}
+          aria-controls="safe-mode-blocklist"
+          onClick={() => setOpen(!open)}
+        >
+          {t('safeMode.blocked', { count: blockedCategories.length })}
+          {open ? (
+            <ChevronUp className="w-4 h-4" />
+          ) : (
+            <ChevronDown className="w-4 h-4" />
+          )}
+        </Button>
+      </div>
+
+      {open && (
+        <div
+          id="safe-mode-blocklist"
+          className="flex flex-col gap-2 rounded-xl border p-3"
+        >
+          <ul
+            aria-label={t('safeMode.blockedList')}
+            className="grid grid-cols-2 gap-1 sm:grid-cols-3"
+          >
+            {options.map((c) => (
+              <li key={c}>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={blockedCategories.includes(c)}
+                    onChange={() => dispatch(toggleBlockedCategory(c))}
+                  />
+                  {categoryName(c)}
+                </label>
+              </li>
+            ))}
+          </ul>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="self-end"
+            onClick={() => dispatch(resetBlockedCategories())}
+          >
+            <RotateCcw className="w-4 h-4" />
+            {t('safeMode.reset')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
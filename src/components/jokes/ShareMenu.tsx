@@ -0,0 +1,152 @@
+import { useEffect, useState, type JSX } from 'react';
+import {
+  downloadJokeImage,
+  formatJokeMarkdown,
+  formatJokeText,
+} from '@/lib/share';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { Joke } from '@/types/jokeTypes';
+import { Copy, FileText, ImageDown, Share2 } from 'lucide-react';
+
+/** How long (ms) a confirmation stays visible. */
+const NOTICE_DURATION_MS = 2000;
+
+type ShareMenuProps = {
+  /** The joke to share. */
+  joke: Joke;
+  /** Category (or comma-separated categories) of the joke, included in Markdown and images. */
+  category: string | null;
+  /** Categories of a multi-category selection the joke was picked from. */
+  pickedFrom?: string[] | null;
+};
+
+/**
+ * ShareMenu component
+ *
+ * Dropdown with the ways to pass a joke on:
+ * - copy it as plain text or as Markdown with a link to its source
+ * - the native share sheet (Web Share API), where the browser offers one
+ * - download it as a PNG card drawn in the current theme colors
+ *
+ * The outcome of each action is announced next to the button.
+ *
+ * @component
+ * @param {ShareMenuProps} props - The props for the component.
+ * @param {Joke} props.joke - The joke to share.
+ * @param {string | null} props.category - Category of the joke.
+ * @param {string[] | null} [props.pickedFrom] - Categories the joke was picked from.
+ * @returns {JSX.Element} The share button and its menu.
+ */
+export default function ShareMenu({
+  joke,
+  category,
+  pickedFrom = null,
+}: ShareMenuProps): JSX.Element {
+  const { t, categoryLabel } = useTranslation();
+
+  /** Category label in the UI language, as the card shows it */
+  const label = category ? categoryLabel(category, pickedFrom) : null;
+
+  /** Confirmation or error of the last action */
+  const [notice, setNotice] = useState<string | null>(null);
+
+  /** Hides the confirmation after a short delay */
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  const canShare = typeof navigator.share === 'function';
+
+  /**
+   * Copies text to the clipboard and reports the outcome.
+   *
+   * @param {string} text - What to copy.
+   */
+  const copy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setNotice(t('share.copied'));
+    } catch {
+      setNotice(t('share.copyFailed'));
+    }
+  };
+
+  /**
+   * Opens the native share sheet. Closing it is not an error.
+   */
+  const share = async () => {
+    try {
+      await navigator.share({
+        title: t('share.title'),
+        text: joke.value,
+        url: joke.url,
+      });
+    } catch (err) {
+      if ((err as Error).name !== 'AbortError')
+        setNotice(t('share.shareFailed'));
+    }
+  };
+
+  /**
+   * Downloads the joke as a PNG image.
+   */
+  const download = async () => {
+    try {
+      await downloadJokeImage(
+        joke,
+        label && t('card.category', { category: label })
+      );
+    } catch {
+      setNotice(t('share.imageFailed'));
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Share2 className="w-4 h-4" />
+            {t('share.button')}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuItem onSelect={() => copy(formatJokeText(joke))}>
+            <Copy className="w-4 h-4" />
+            {t('share.copyText')}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() =>
+              copy(formatJokeMarkdown(joke, label, t('share.title')))
+            }
+          >
+            <FileText className="w-4 h-4" />
+            {t('share.copyMarkdown')}
+          </DropdownMenuItem>
+          {canShare && (
+            <DropdownMenuItem onSelect={share}>
+              <Share2 className="w-4 h-4" />
+              {t('share.native')}
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={download}>
+            <ImageDown className="w-4 h-4" />
+            {t('share.download')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <span role="status" className="text-sm text-muted-foreground">
+        {notice}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState, type JSX } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/index';
+import {
+  LOW_RATING_MAX,
+  selectTopRated,
+  setAvoidLowRated,
+} from '@/store/slices/ratingsSlice';
+import JokeCard from '@/components/jokes/JokeCard';
+import StarRating from '@/components/ratings/StarRating';
+import { safeJoke } from '@/lib/safeMode';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import type { Joke } from '@/types/jokeTypes';
+import { Eye } from 'lucide-react';
+
+/** Filter value matching jokes without any category. */
+const UNCATEGORIZED = '__uncategorized__';
+
+/** Number of jokes listed. */
+const LEADERBOARD_SIZE = 10;
+
+type LeaderboardProps = {
+  /** Called with a rated joke the user wants to show in the joke card. */
+  onOpen: (joke: Joke) => void;
+};
+
+/**
+ * Leaderboard component
+ *
+ * Lists the user's best rated jokes, best first, optionally filtered by
+ * category. Each entry shows its rank and can be re-rated or re-opened in
+ * the joke card. Also switches skipping poorly rated random jokes. In safe
+ * mode, jokes from blocked categories are hidden and profanity is masked.
+ *
+ * @component
+ * @param {LeaderboardProps} props - The props for the component.
+ * @param {(joke: Joke) => void} props.onOpen - Re-opens a rated joke.
+ * @returns {JSX.Element} The leaderboard view.
+ */
+export default function Leaderboard({ onOpen }: LeaderboardProps): JSX.Element {
+  const dispatch = useAppDispatch();
+  const ratings = useAppSelector(selectTopRated);
+  const safeMode = useAppSelector((s) => s.safeMode);
+  const avoidLowRated = useAppSelector((s) => s.ratings.avoidLowRated);
+  const { t, categoryName } = useTranslation();
+
+  /** Rated jokes safe mode lets be shown, masked while it is on */
+  const rated = ratings.flatMap((rating) => {
+    const joke = safeJoke(rating.joke, safeMode);
+    return joke ? [{ ...rating, joke }] : [];
+  });
+  const hiddenCount = ratings.length - rated.length;
+
+  /** Selected category filter; empty string shows every rated joke */
+  const [filter, setFilter] = useState('');
+
+  const categories = [
+    ...new Set(rated.flatMap(({ joke }) => joke.categories)),
+  ].sort();
+  const hasUncategorized = rated.some(
+    ({ joke }) => joke.categories.length === 0
+  );
+
+  /** Falls back to all jokes once the filtered category has no ratings */
+  const activeFilter =
+    categories.includes(filter) ||
+    (filter === UNCATEGORIZED && hasUncategorized)
+      ? filter
+      : '';
+
+  const visible = rated
+    .filter(({ joke }) => {
+      if (activeFilter === '') return true;
+      if (activeFilter === UNCATEGORIZED) return joke.categories.length === 0;
+      return joke.categories.includes(activeFilter);
+    })
+    .slice(0, LEADERBOARD_SIZE);
+
+  return (
+    <section
+      aria-label={t('leaderboard.label')}
+      className="flex flex-col gap-4"
+    >
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={avoidLowRated}
+          onChange={(e) => dispatch(setAvoidLowRated(e.target.checked))}
+        />
+        {t('leaderboard.avoid', { count: LOW_RATING_MAX })}
+      </label>
+
+      {hiddenCount > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {t('safeMode.hiddenJokes', { count: hiddenCount })}
+        </p>
+      )}
+
+      {ratings.length === 0 ? (
+        <p className="text-center text-muted-foreground">
+          {t('leaderboard.empty')}
+        </p>
+      ) : (
+        <>
+          <label className="flex items-center gap-2 text-sm">
+            {t('filter.category')}
+            <select
+              value={activeFilter}
+              onChange={(e) => setFilter(e.target.value)}
+              className="px-3 py-1 border rounded-lg bg-background"
+            >
+              <option value="">{t('filter.all')}</option>
+              {categories.map((cat) => (
+                <option key={cat} value={cat}>
+                  {categoryName(cat)}
+                </option>
+              ))}
+              {hasUncategorized && (
+                <option value={UNCATEGORIZED}>
+                  {t('filter.uncategorized')}
+                </option>
+              )}
+            </select>
+          </label>
+
+          <ol className="flex flex-col gap-4">
+            {visible.map(({ joke }, index) => (
+              <li key={joke.id} className="flex items-start gap-3">
+                <span
+                  className="mt-4 w-6 text-right text-lg font-bold text-muted-foreground"
+                  aria-hidden="true"
+                >
+                  {index + 1}
+                </span>
+                <JokeCard
+                  joke={joke.value}
+                  category={joke.categories.join(', ') || null}
+                  actions={
+                    <>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onOpen(joke)}
+                      >
+                        <Eye className="w-4 h-4" />
+                        {t('list.open')}
+                      </Button>
+                      <StarRating joke={joke} />
+                    </>
+                  }
+                />
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,48 @@
+import type { JSX } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/index';
+import { MAX_STARS, rateJoke, selectRating } from '@/store/slices/ratingsSlice';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { Joke } from '@/types/jokeTypes';
+import { Star } from 'lucide-react';
+
+type StarRatingProps = {
+  /** The joke to rate. */
+  joke: Joke;
+};
+
+/**
+ * StarRating component
+ *
+ * Row of 1–5 star buttons rating a joke. Stars up to the current rating are
+ * filled; clicking the current rating again removes it.
+ *
+ * @component
+ * @param {StarRatingProps} props - The props for the component.
+ * @param {Joke} props.joke - The joke to rate.
+ * @returns {JSX.Element} The rating control.
+ */
+export default function StarRating({ joke }: StarRatingProps): JSX.Element {
+  const dispatch = useAppDispatch();
+  const rating = useAppSelector((s) => selectRating(s, joke.id));
+  const { t } = useTranslation();
+
+  return (
+    <div role="radiogroup" aria-label={t('rating.label')} className="flex">
+      {Array.from({ length: MAX_STARS }, (_, i) => i + 1).map((stars) => (
+        <button
+          key={stars}
+          type="button"
+          role="radio"
+          aria-checked={rating === stars}
+          aria-label={t('rating.stars', { count: stars })}
+          onClick={() => dispatch(rateJoke({ joke, stars }))}
+          className="rounded-sm p-0.5 text-amber-500 hover:scale-110 focus-visible:outline-2 focus-visible:outline-ring"
+        >
+          <Star
+            className={`w-4 h-4 ${rating !== null && stars <= rating ? 'fill-current' : ''}`}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
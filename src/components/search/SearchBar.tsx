@@ -1,17 +1,62 @@
-import { useState, type JSX } from 'react';
-import { useAppDispatch } from '@/store/index';
-import { searchJokes } from '@/store/slices/jokesSlice';
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type JSX,
+  type KeyboardEvent,
+} from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/index';
+import {
+  cancelSearch,
+  fetchLuckyJoke,
+  searchJokes,
+  setSearchSource,
+} from '@/store/slices/jokesSlice';
+import { selectIndexedJokesCount } from '@/store/slices/jokeIndexSlice';
+import {
+  clearRecentQueries,
+  recordQuery,
+  toggleSavedQuery,
+} from '@/store/slices/searchHistorySlice';
+import { suggestQueries } from '@/lib/querySuggestions';
+import { SEARCH_INPUT_ID } from '@/lib/shortcuts';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { SearchSource } from '@/types/jokeTypes';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Search } from 'lucide-react';
+import {
+  Bookmark,
+  BookmarkCheck,
+  Globe,
+  History,
+  Library,
+  Search,
+  Sparkles,
+} from 'lucide-react';
 import { motion } from 'framer-motion';
 
+/** Shortest query searched while typing (the API rejects shorter ones). */
+const LIVE_SEARCH_MIN_LENGTH = 3;
+
+/** Pause in typing (ms) after which the query is searched. */
+const LIVE_SEARCH_DEBOUNCE_MS = 400;
+
 /**
  * SearchBar component allows users to search for jokes.
  *
- * It includes an input field for typing the search query and a submit button.
+ * It includes an input field for typing the search query, a submit button that
+ * lists every matching joke and an "I'm feeling lucky" button that shows a
+ * single random match instead.
  * Uses Redux to dispatch the search action and Framer Motion for simple animations.
  *
+ * - Searches as you type once the query is long enough and typing pauses;
+ *   changing the query cancels the search that is still running.
+ * - Offers saved and recent queries in a dropdown that can be navigated with
+ *   the arrow keys, Enter and Escape. Submitted queries become recent ones.
+ * - Searches either the API or, offline-capable and typo-tolerant, the jokes
+ *   received so far ("My jokes").
+ *
  * @component
  * @example
  * return <SearchBar />;
@@ -19,6 +64,76 @@ import { motion } from 'framer-motion';
 export default function SearchBar(): JSX.Element {
   const [query, setQuery] = useState('');
   const dispatch = useAppDispatch();
+  const { t } = useTranslation();
+
+  /** Saved and recent queries */
+  const history = useAppSelector((s) => s.searchHistory);
+
+  /** Whether searches go to the API or to the local index */
+  const source = useAppSelector((s) => s.jokes.searchSource);
+
+  /** Query of the listed results, searched again when the source changes */
+  const searchQuery = useAppSelector((s) => s.jokes.searchQuery);
+
+  /** Number of jokes that can be searched locally */
+  const indexedCount = useAppSelector(selectIndexedJokesCount);
+
+  /** Whether the suggestion dropdown is shown */
+  const [open, setOpen] = useState(false);
+
+  /** Index of the highlighted suggestion, `-1` for none */
+  const [active, setActive] = useState(-1);
+
+  /** Query whose search was dispatched last, `null` once it is outdated */
+  const lastSearched = useRef<string | null>(null);
+
+  /** Query seen by the live search effect, to react to changes only */
+  const previousQuery = useRef(query);
+
+  const trimmed = query.trim();
+  const isSaved = history.saved.some(
+    (q) => q.toLowerCase() === trimmed.toLowerCase()
+  );
+  const suggestions = useMemo(
+    () => suggestQueries(history, query),
+    [history, query]
+  );
+  const showSuggestions = open && suggestions.length > 0;
+
+  /**
+   * Search as you type: drop the running search as soon as the query
+   * changes, and search the new query once typing pauses.
+   */
+  useEffect(() => {
+    if (query === previousQuery.current) return;
+    previousQuery.current = query;
+    const q = query.trim();
+    if (q === lastSearched.current) return;
+
+    dispatch(cancelSearch());
+    lastSearched.current = null;
+    if (q.length < LIVE_SEARCH_MIN_LENGTH) return;
+
+    const timer = setTimeout(() => {
+      if (q === lastSearched.current) return;
+      lastSearched.current = q;
+      dispatch(searchJokes({ query: q, live: true }));
+    }, LIVE_SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [dispatch, query]);
+
+  /**
+   * Searches a query right away and remembers it as a recent query.
+   *
+   * @param {string} q - The trimmed query.
+   */
+  const search = (q: string) => {
+    lastSearched.current = q;
+    setOpen(false);
+    setActive(-1);
+    dispatch(searchJokes(q));
+    dispatch(recordQuery(q));
+  };
 
   /**
    * Handles the form submission.
@@ -29,34 +144,215 @@ export default function SearchBar(): JSX.Element {
    */
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!query.trim()) return;
-    dispatch(searchJokes(query));
+    if (!trimmed) return;
+    search(trimmed);
+  };
+
+  /**
+   * Dispatches `fetchLuckyJoke` to show one random joke matching the query.
+   */
+  const handleLucky = () => {
+    if (!trimmed) return;
+    setOpen(false);
+    dispatch(fetchLuckyJoke(trimmed));
+    dispatch(recordQuery(trimmed));
+  };
+
+  /**
+   * Switches the search source and lists the current results' query again
+   * from the new source.
+   *
+   * @param {SearchSource} next - The source to search.
+   */
+  const handleSource = (next: SearchSource) => {
+    if (next === source) return;
+    dispatch(setSearchSource(next));
+    if (searchQuery !== null) {
+      lastSearched.current = searchQuery;
+      dispatch(searchJokes(searchQuery));
+    }
+  };
+
+  /**
+   * Fills in and searches a suggested query.
+   *
+   * @param {string} q - The suggested query.
+   */
+  const handlePick = (q: string) => {
+    setQuery(q);
+    search(q);
+  };
+
+  /**
+   * Moves through the suggestions with the arrow keys, picks the highlighted
+   * one with Enter and closes the dropdown with Escape.
+   *
+   * @param {KeyboardEvent<HTMLInputElement>} e - The key event.
+   */
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    const count = suggestions.length;
+    if (e.key === 'ArrowDown' && count > 0) {
+      e.preventDefault();
+      setOpen(true);
+      setActive((active + 1) % count);
+    } else if (e.key === 'ArrowUp' && count > 0) {
+      e.preventDefault();
+      setOpen(true);
+      setActive((active - 1 + count) % count);
+    } else if (e.key === 'Enter' && showSuggestions && active >= 0) {
+      e.preventDefault();
+      handlePick(suggestions[active].query);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+      setActive(-1);
+    }
   };
 
   return (
     <motion.form
       onSubmit={handleSubmit}
       data-testid="search-form"
-      className="flex items-center gap-2 w-full"
+      className="flex flex-col gap-2 w-full"
       initial={{ opacity: 0, y: 10 }}
       animate={{ opacity: 1, y: 0 }}
     >
-      <Input
-        type="text"
-        placeholder="🔍 Search for a joke..."
-        value={query}
-        data-testid="search-input"
-        onChange={(e) => setQuery(e.target.value)}
-        className="flex-1 rounded-xl shadow-sm focus:ring-2 focus:ring-primary bg-card text-card-foreground placeholder:text-muted-foreground"
-      />
-      <Button
-        type="submit"
-        className="rounded-xl shadow-md px-4"
-        disabled={!query.trim()}
+      <div className="flex items-center gap-2 w-full">
+        <div className="relative flex-1">
+          <Input
+            type="text"
+            placeholder={t('search.placeholder')}
+            id={SEARCH_INPUT_ID}
+            value={query}
+            data-testid="search-input"
+            role="combobox"
+            aria-label={t('search.label')}
+            aria-keyshortcuts="/"
+            aria-autocomplete="list"
+            aria-expanded={showSuggestions}
+            aria-controls="search-suggestions"
+            aria-activedescendant={
+              showSuggestions && active >= 0
+                ? `search-suggestion-${active}`
+                : undefined
+            }
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setOpen(true);
+              setActive(-1);
+            }}
+            onFocus={() => setOpen(true)}
+            onBlur={() => setOpen(false)}
+            onKeyDown={handleKeyDown}
+            className="flex-1 rounded-xl shadow-sm focus:ring-2 focus:ring-primary bg-card text-card-foreground placeholder:text-muted-foreground"
+          />
+
+          {/* Saved and recent queries */}
+          {showSuggestions && (
+            <div
+              className="absolute left-0 right-0 top-full z-10 mt-1 rounded-xl border bg-popover text-popover-foreground shadow-md"
+              // Keep the focus in the input while clicking the dropdown
+              onMouseDown={(e) => e.preventDefault()}
+            >
+              <ul
+                id="search-suggestions"
+                role="listbox"
+                aria-label={t('search.suggestions')}
+                className="py-1"
+              >
+                {suggestions.map((s, index) => (
+                  <li
+                    key={s.query}
+                    id={`search-suggestion-${index}`}
+                    role="option"
+                    aria-selected={index === active}
+                    onClick={() => handlePick(s.query)}
+                    className={`flex cursor-pointer items-center gap-2 px-3 py-1.5 text-sm ${
+                      index === active ? 'bg-accent text-accent-foreground' : ''
+                    }`}
+                  >
+                    {s.saved ? (
+                      <BookmarkCheck className="w-4 h-4 text-muted-foreground" />
+                    ) : (
+                      <History className="w-4 h-4 text-muted-foreground" />
+                    )}
+                    {s.query}
+                  </li>
+                ))}
+              </ul>
+              {history.recent.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => dispatch(clearRecentQueries())}
+                  className="w-full border-t px-3 py-1.5 text-left text-xs text-muted-foreground hover:bg-accent"
+                >
+                  {t('search.clearRecent')}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          aria-label={isSaved ? t('search.unsave') : t('search.save')}
+          aria-pressed={isSaved}
+          disabled={!trimmed}
+          onClick={() => dispatch(toggleSavedQuery(trimmed))}
+        >
+          {isSaved ? (
+            <BookmarkCheck className="w-4 h-4" />
+          ) : (
+            <Bookmark className="w-4 h-4" />
+          )}
+        </Button>
+        <Button
+          type="submit"
+          className="rounded-xl shadow-md px-4"
+          disabled={!trimmed}
+        >
+          <Search className="w-4 h-4 mr-1" />
+          {t('search.submit')}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          className="rounded-xl shadow-md px-4"
+          disabled={!trimmed}
+          onClick={handleLucky}
+        >
+          <Sparkles className="w-4 h-4 mr-1" />
+          {t('search.lucky')}
+        </Button>
+      </div>
+
+      {/* Search source */}
+      <div
+        role="group"
+        aria-label={t('search.source')}
+        className="flex items-center gap-1 text-sm"
       >
-        <Search className="w-4 h-4 mr-1" />
-        Search
-      </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant={source === 'remote' ? 'secondary' : 'ghost'}
+          aria-pressed={source === 'remote'}
+          onClick={() => handleSource('remote')}
+        >
+          <Globe className="w-4 h-4 mr-1" />
+          {t('search.remote')}
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant={source === 'local' ? 'secondary' : 'ghost'}
+          aria-pressed={source === 'local'}
+          onClick={() => handleSource('local')}
+        >
+          <Library className="w-4 h-4 mr-1" />
+          {t('search.local', { count: indexedCount })}
+        </Button>
+      </div>
     </motion.form>
   );
 }
@@ -0,0 +1,170 @@
+import { useState, type JSX } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/index';
+import {
+  clearSearchResults,
+  selectSearchRequest,
+  selectSortedSearchResults,
+  setSearchSort,
+} from '@/store/slices/jokesSlice';
+import JokeCard from '@/components/jokes/JokeCard';
+import JokeActions from '@/components/jokes/JokeActions';
+import JokeErrorMessage from '@/components/errors/JokeErrorMessage';
+import LoadingMessage from '@/components/status/LoadingMessage';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import type { MessageKey } from '@/lib/i18n/en';
+import type { SearchSort } from '@/types/jokeTypes';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+
+/** Number of jokes rendered per page. */
+const RESULTS_PAGE_SIZE = 10;
+
+/** Labels of the available sort modes, in display order. */
+const SORT_OPTIONS: { value: SearchSort; label: MessageKey }[] = [
+  { value: 'relevance', label: 'search.sort.relevance' },
+  { value: 'length', label: 'search.sort.length' },
+  { value: 'newest', label: 'search.sort.newest' },
+  { value: 'alphabetical', label: 'search.sort.alphabetical' },
+];
+
+/**
+ * SearchResults component
+ *
+ * Lists every joke returned by the last `searchJokes` call as a paginated
+ * list of `JokeCard`s highlighting the query, with controls for changing the sort order and for
+ * leaving results mode.
+ *
+ * Shows its own loading and error state for the `search` operation and
+ * renders nothing when there is no active search. Safe mode applies to the
+ * stored results: blocked jokes are left out and counted in a note.
+ *
+ * @component
+ * @returns {JSX.Element | null} The results list, or `null` without results.
+ */
+export default function SearchResults(): JSX.Element | null {
+  const dispatch = useAppDispatch();
+  const { t } = useTranslation();
+  const query = useAppSelector((s) => s.jokes.searchQuery);
+  const total = useAppSelector((s) => s.jokes.searchTotal);
+  const sort = useAppSelector((s) => s.jokes.searchSort);
+  const results = useAppSelector(selectSortedSearchResults);
+  const storedCount = useAppSelector((s) => s.jokes.searchResults.length);
+  const hiddenCount = storedCount - results.length;
+  const { status, error, retry } = useAppSelector(selectSearchRequest);
+
+  /** Zero-based index of the visible page */
+  const [page, setPage] = useState(0);
+
+  if (status === 'pending') {
+    return <LoadingMessage label={t('search.searching')} retry={retry} />;
+  }
+  if (status === 'failed' && error) {
+    return <JokeErrorMessage error={error} operation="search" />;
+  }
+  if (query === null || storedCount === 0) return null;
+
+  const pageCount = Math.max(1, Math.ceil(results.length / RESULTS_PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const visible = results.slice(
+    currentPage * RESULTS_PAGE_SIZE,
+    (currentPage + 1) * RESULTS_PAGE_SIZE
+  );
+
+  /**
+   * Switches the sort order and jumps back to the first page.
+   *
+   * @param {SearchSort} value - The new sort mode.
+   */
+  const handleSort = (value: SearchSort) => {
+    dispatch(setSearchSort(value));
+    setPage(0);
+  };
+
+  return (
+    <section aria-label={t('search.results')} className="flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {t('search.summary', {
+            count: Math.max(0, total - hiddenCount),
+            query,
+          })}
+        </p>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => dispatch(clearSearchResults())}
+        >
+          <X className="w-4 h-4" />
+          {t('search.clear')}
+        </Button>
+      </div>
+
+      {hiddenCount > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {t('safeMode.hiddenJokes', { count: hiddenCount })}
+        </p>
+      )}
+
+      {/* Sort mode */}
+      <div role="group" aria-label={t('search.sort')} className="flex gap-2">
+        {SORT_OPTIONS.map((option) => (
+          <Button
+            key={option.value}
+            size="sm"
+            variant={sort === option.value ? 'default' : 'outline'}
+            aria-pressed={sort === option.value}
+            onClick={() => handleSort(option.value)}
+          >
+            {t(option.label)}
+          </Button>
+        ))}
+      </div>
+
+      <ul className="flex flex-col gap-4">
+        {visible.map((joke) => {
+          const category = joke.categories.join(', ') || null;
+          return (
+            <li key={joke.id}>
+              <JokeCard
+                joke={joke.value}
+                category={category}
+                highlight={query}
+                actions={<JokeActions joke={joke} category={category} />}
+              />
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* Pagination */}
+      {pageCount > 1 && (
+        <nav
+          aria-label={t('search.pages')}
+          className="flex items-center justify-between"
+        >
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={currentPage === 0}
+            onClick={() => setPage(currentPage - 1)}
+          >
+            <ChevronLeft className="w-4 h-4" />
+            {t('search.previous')}
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            {t('search.page', { page: currentPage + 1, pageCount })}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={currentPage === pageCount - 1}
+            onClick={() => setPage(currentPage + 1)}
+          >
+            {t('search.next')}
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </nav>
+      )}
+    </section>
+  );
+}
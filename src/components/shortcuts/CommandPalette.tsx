@@ -0,0 +1,175 @@
+import { useMemo, useRef, useState, type JSX, type KeyboardEvent } from 'react';
+import { rankFuzzyMatches } from '@/lib/fuzzyMatch';
+import { formatShortcut } from '@/lib/shortcuts';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { Command } from '@/hooks/useShortcuts';
+import { Input } from '@/components/ui/input';
+import { Command as CommandIcon, Folder } from 'lucide-react';
+
+type CommandPaletteProps = {
+  /** The commands to choose from. */
+  commands: Command[];
+  /** Called when the palette is dismissed or a command is picked. */
+  onClose: () => void;
+};
+
+/**
+ * CommandPalette component
+ *
+ * Modal search over every command, opened with Ctrl/Cmd+K: typing filters
+ * the app actions and the "show a joke from" category commands by fuzzy
+ * matching (`nxj` finds "Next random joke"), best match first.
+ *
+ * - The arrow keys move through the matches, Enter runs the highlighted one
+ *   and Escape closes the palette.
+ * - Picking a command closes the palette first, so commands that move the
+ *   focus (like "Focus search") keep it.
+ *
+ * @component
+ * @param {CommandPaletteProps} props - The props for the component.
+ * @param {Command[]} props.commands - The commands to choose from.
+ * @param {() => void} props.onClose - Called when the palette closes.
+ * @returns {JSX.Element} The modal palette.
+ */
+export default function CommandPalette({
+  commands,
+  onClose,
+}: CommandPaletteProps): JSX.Element {
+  const { t } = useTranslation();
+
+  /** Text typed in the palette */
+  const [query, setQuery] = useState('');
+
+  /** Index of the highlighted match */
+  const [active, setActive] = useState(0);
+
+  /** Element focused before the palette opened, focused again on dismiss */
+  const previousFocus = useRef(document.activeElement);
+
+  const matches = useMemo(
+    () =>
+      rankFuzzyMatches(
+        commands.filter((c) => c.id !== 'palette'),
+        query,
+        (c) => [c.label, ...(c.keywords ?? [])]
+      ),
+    [commands, query]
+  );
+
+  /**
+   * Closes the palette and returns the focus to where it was.
+   */
+  const dismiss = () => {
+    onClose();
+    if (previousFocus.current instanceof HTMLElement) {
+      previousFocus.current.focus();
+    }
+  };
+
+  /**
+   * Closes the palette, then runs a command.
+   *
+   * @param {Command} command - The picked command.
+   */
+  const pick = (command: Command) => {
+    dismiss();
+    command.run();
+  };
+
+  /**
+   * Moves through the matches with the arrow keys, runs the highlighted one
+   * with Enter and closes the palette with Escape.
+   *
+   * @param {KeyboardEvent<HTMLInputElement>} e - The key event.
+   */
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    const count = matches.length;
+    if (e.key === 'ArrowDown' && count > 0) {
+      e.preventDefault();
+      setActive((active + 1) % count);
+    } else if (e.key === 'ArrowUp' && count > 0) {
+      e.preventDefault();
+      setActive((active - 1 + count) % count);
+    } else if (e.key === 'Enter' && matches[active]) {
+      e.preventDefault();
+      pick(matches[active]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      dismiss();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/50 p-4 pt-[15vh]"
+      onMouseDown={dismiss}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('palette.label')}
+        className="w-full max-w-lg overflow-hidden rounded-xl border bg-popover text-popover-foreground shadow-lg"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <Input
+          autoFocus
+          type="text"
+          value={query}
+          placeholder={t('palette.placeholder')}
+          role="combobox"
+          aria-label={t('palette.label')}
+          aria-autocomplete="list"
+          aria-expanded={matches.length > 0}
+          aria-controls="command-palette-list"
+          aria-activedescendant={
+            matches[active] ? `command-${matches[active].id}` : undefined
+          }
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActive(0);
+          }}
+          onKeyDown={handleKeyDown}
+          className="rounded-none border-0 border-b shadow-none focus-visible:ring-0"
+        />
+        {matches.length > 0 ? (
+          <ul
+            id="command-palette-list"
+            role="listbox"
+            aria-label={t('palette.commands')}
+            className="max-h-80 overflow-y-auto py-1"
+          >
+            {matches.map((command, index) => (
+              <li
+                key={command.id}
+                id={`command-${command.id}`}
+                role="option"
+                aria-selected={index === active}
+                onClick={() => pick(command)}
+                onMouseMove={() => setActive(index)}
+                className={`flex cursor-pointer items-center gap-2 px-3 py-1.5 text-sm ${
+                  index === active ? 'bg-accent text-accent-foreground' : ''
+                }`}
+              >
+                {command.group === 'categories' ? (
+                  <Folder className="w-4 h-4 text-muted-foreground" />
+                ) : (
+                  <CommandIcon className="w-4 h-4 text-muted-foreground" />
+                )}
+                <span className="flex-1">{command.label}</span>
+                {command.shortcut && (
+                  <kbd className="rounded border bg-muted px-1.5 py-0.5 font-mono text-xs">
+                    {formatShortcut(command.shortcut)}
+                  </kbd>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="px-3 py-4 text-center text-sm text-muted-foreground">
+            {t('palette.empty')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useState, type JSX } from 'react';
+import { useCommands, useShortcuts } from '@/hooks/useShortcuts';
+import { useTranslation } from '@/hooks/useTranslation';
+import ShortcutsHelp from '@/components/shortcuts/ShortcutsHelp';
+import CommandPalette from '@/components/shortcuts/CommandPalette';
+import { Button } from '@/components/ui/button';
+import { Keyboard } from 'lucide-react';
+
+/** How long (ms) the outcome of a command stays visible. */
+const NOTICE_DURATION_MS = 2000;
+
+/**
+ * KeyboardShortcuts component
+ *
+ * Enables the global keyboard shortcuts and renders their overlays:
+ * - `n` next random joke, `/` focus search, `]` / `[` joke from the next or
+ *   previous category, `t` toggle the theme, `c` copy the joke
+ * - `?` (or the keyboard button) shows every shortcut in `ShortcutsHelp`
+ * - Ctrl/Cmd+K opens the `CommandPalette`
+ *
+ * The outcome of commands without visible effect, like copying, is
+ * announced in a status message.
+ *
+ * @component
+ * @returns {JSX.Element} The help button, the open overlay and the status message.
+ */
+export default function KeyboardShortcuts(): JSX.Element {
+  const { t } = useTranslation();
+
+  /** Which overlay is open, if any */
+  const [overlay, setOverlay] = useState<'help' | 'palette' | null>(null);
+
+  /** Outcome of the last command, shown for a moment */
+  const [notice, setNotice] = useState<string | null>(null);
+
+  /** Hides the outcome after a short delay */
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  const openHelp = useCallback(() => setOverlay('help'), []);
+  const openPalette = useCallback(() => setOverlay('palette'), []);
+  const close = useCallback(() => setOverlay(null), []);
+
+  const commands = useCommands({ openHelp, openPalette, notify: setNotice });
+  useShortcuts(commands);
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="icon"
+        aria-label={t('shortcuts.help')}
+        aria-keyshortcuts="?"
+        onClick={openHelp}
+      >
+        <Keyboard className="h-[1.2rem] w-[1.2rem]" />
+      </Button>
+
+      {overlay === 'help' && (
+        <ShortcutsHelp commands={commands} onClose={close} />
+      )}
+      {overlay === 'palette' && (
+        <CommandPalette commands={commands} onClose={close} />
+      )}
+
+      <p
+        role="status"
+        className="fixed bottom-4 left-1/2 -translate-x-1/2 text-sm text-muted-foreground"
+      >
+        {notice}
+      </p>
+    </>
+  );
+}
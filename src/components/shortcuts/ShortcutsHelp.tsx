@@ -0,0 +1,94 @@
+import { useEffect, useRef, type JSX } from 'react';
+import { formatShortcut } from '@/lib/shortcuts';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { Command } from '@/hooks/useShortcuts';
+import { Button } from '@/components/ui/button';
+import { X } from 'lucide-react';
+
+type ShortcutsHelpProps = {
+  /** The commands; those with a shortcut are listed. */
+  commands: Command[];
+  /** Called when the overlay is dismissed. */
+  onClose: () => void;
+};
+
+/**
+ * ShortcutsHelp component
+ *
+ * Overlay listing every keyboard shortcut, opened with `?`. Closes with
+ * Escape, the close button or a click outside, and returns the focus to
+ * where it was.
+ *
+ * @component
+ * @param {ShortcutsHelpProps} props - The props for the component.
+ * @param {Command[]} props.commands - The commands to list.
+ * @param {() => void} props.onClose - Called when the overlay is dismissed.
+ * @returns {JSX.Element} The modal overlay.
+ */
+export default function ShortcutsHelp({
+  commands,
+  onClose,
+}: ShortcutsHelpProps): JSX.Element {
+  const { t } = useTranslation();
+
+  /** Close button, focused while the overlay is open */
+  const closeButton = useRef<HTMLButtonElement>(null);
+
+  /** Moves the focus into the overlay, and back when it closes */
+  useEffect(() => {
+    const previous = document.activeElement;
+    closeButton.current?.focus();
+    return () => {
+      if (previous instanceof HTMLElement) previous.focus();
+    };
+  }, []);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onMouseDown={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcuts-help-title"
+        className="w-full max-w-md rounded-xl border bg-popover p-4 text-popover-foreground shadow-lg"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key !== 'Escape') return;
+          e.preventDefault();
+          onClose();
+        }}
+      >
+        <div className="mb-3 flex items-center justify-between">
+          <h2 id="shortcuts-help-title" className="text-lg font-semibold">
+            {t('shortcuts.title')}
+          </h2>
+          <Button
+            ref={closeButton}
+            variant="ghost"
+            size="icon"
+            aria-label={t('shortcuts.close')}
+            onClick={onClose}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+        <dl className="grid grid-cols-[auto_1fr] items-center gap-x-4 gap-y-2 text-sm">
+          {commands
+            .filter((command) => command.shortcut)
+            .map((command) => (
+              <div key={command.id} className="contents">
+                <dt>
+                  <kbd className="rounded border bg-muted px-1.5 py-0.5 font-mono text-xs">
+                    {formatShortcut(command.shortcut ?? '')}
+                  </kbd>
+                </dt>
+                <dd>{command.label}</dd>
+              </div>
+            ))}
+        </dl>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import type { JSX } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/index';
+import {
+  nextSlide,
+  setPlaying,
+  setSlideshowInterval,
+  setSlideshowSource,
+  SLIDESHOW_INTERVAL_OPTIONS,
+} from '@/store/slices/slideshowSlice';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import type { SlideshowSource } from '@/types/jokeTypes';
+import { Pause, Play, SkipForward } from 'lucide-react';
+
+/**
+ * SlideshowControls component
+ *
+ * Starts and stops the auto-play mode, skips to the next joke, and sets the
+ * interval and the source (random jokes or the selected categories).
+ * The countdown itself is run by `useSlideshow` in `HomeWrapper`.
+ *
+ * @component
+ * @returns {JSX.Element} The slideshow toolbar.
+ */
+export default function SlideshowControls(): JSX.Element {
+  const dispatch = useAppDispatch();
+  const { playing, intervalMs, source } = useAppSelector((s) => s.slideshow);
+  const { t } = useTranslation();
+
+  return (
+    <div
+      role="toolbar"
+      aria-label={t('slideshow.label')}
+      className="flex flex-wrap items-center gap-2 text-sm"
+    >
+      <Button
+        variant={playing ? 'default' : 'outline'}
+        size="sm"
+        aria-pressed={playing}
+        onClick={() => dispatch(setPlaying(!playing))}
+      >
+        {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        {playing ? t('slideshow.pause') : t('slideshow.play')}
+      </Button>
+      <Button variant="ghost" size="sm" onClick={() => dispatch(nextSlide())}>
+        <SkipForward className="w-4 h-4" />
+        {t('slideshow.skip')}
+      </Button>
+      <label className="flex items-center gap-2">
+        {t('slideshow.every')}
+        <select
+          value={intervalMs}
+          onChange={(e) => dispatch(setSlideshowInterval(+e.target.value))}
+          className="px-3 py-1 border rounded-lg bg-background"
+        >
+          {SLIDESHOW_INTERVAL_OPTIONS.map((ms) => (
+            <option key={ms} value={ms}>
+              {t('slideshow.seconds', { seconds: ms / 1000 })}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        {t('slideshow.from')}
+        <select
+          value={source}
+          onChange={(e) =>
+            dispatch(setSlideshowSource(e.target.value as SlideshowSource))
+          }
+          className="px-3 py-1 border rounded-lg bg-background"
+        >
+          <option value="random">{t('slideshow.random')}</option>
+          <option value="selection">{t('slideshow.selection')}</option>
+        </select>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState, type JSX } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/index';
+import {
+  setAutoRead,
+  setSpeechPitch,
+  setSpeechRate,
+  setVoice,
+  SPEECH_PITCH_RANGE,
+  SPEECH_RATE_RANGE,
+} from '@/store/slices/speechSlice';
+import { isSpeechSupported } from '@/lib/speech';
+import { useVoices } from '@/hooks/useSpeech';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, ChevronUp, Volume2 } from 'lucide-react';
+
+/**
+ * SpeechSettings component
+ *
+ * Switches reading each new joke aloud and sets the voice, rate and pitch
+ * used by the "Read aloud" button of the joke cards. Explains instead when
+ * the browser cannot read text aloud.
+ *
+ * @component
+ * @returns {JSX.Element} The checkbox and the collapsible voice settings.
+ */
+export default function SpeechSettings(): JSX.Element {
+  const dispatch = useAppDispatch();
+  const { voiceURI, rate, pitch, autoRead } = useAppSelector((s) => s.speech);
+  const voices = useVoices();
+  const { t } = useTranslation();
+
+  /** Whether the voice settings are expanded */
+  const [open, setOpen] = useState(false);
+
+  if (!isSpeechSupported()) {
+    return (
+      <p className="text-sm text-muted-foreground">{t('speech.unsupported')}</p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={autoRead}
+            onChange={(e) => dispatch(setAutoRead(e.target.checked))}
+          />
+          <Volume2 className="w-4 h-4" />
+          {t('speech.autoRead')}
+        </label>
+        <Button
+          variant="ghost"
+          size="sm"
+          aria-expanded={open}
+          aria-controls="speech-settings"
+          onClick={() => setOpen(!open)}
+        >
+          {t('speech.settings')}
+          {open ? (
+            <ChevronUp className="w-4 h-4" />
+          ) : (
+            <ChevronDown className="w-4 h-4" />
+          )}
+        </Button>
+      </div>
+
+      {open && (
+        <div
+          id="speech-settings"
+          className="flex flex-col gap-3 rounded-xl border p-3"
+        >
+          <label className="flex items-center gap-2">
+            {t('speech.voice')}
+            <select
+              value={voiceURI ?? ''}
+              onChange={(e) => dispatch(setVoice(e.target.value || null))}
+              className="min-w-0 flex-1 px-3 py-1 border rounded-lg bg-background"
+            >
+              <option value="">{t('speech.defaultVoice')}</option>
+              {voices.map((voice) => (
+                <option key={voice.voiceURI} value={voice.voiceURI}>
+                  {voice.name} ({voice.lang})
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            {t('speech.rate')}
+            <input
+              type="range"
+              step={0.1}
+              {...SPEECH_RATE_RANGE}
+              value={rate}
+              onChange={(e) => dispatch(setSpeechRate(+e.target.value))}
+              className="flex-1"
+            />
+            <span className="w-10 text-right tabular-nums">
+              {rate.toFixed(1)}×
+            </span>
+          </label>
+          <label className="flex items-center gap-2">
+            {t('speech.pitch')}
+            <input
+              type="range"
+              step={0.1}
+              {...SPEECH_PITCH_RANGE}
+              value={pitch}
+              onChange={(e) => dispatch(setSpeechPitch(+e.target.value))}
+              className="flex-1"
+            />
+            <span className="w-10 text-right tabular-nums">
+              {pitch.toFixed(1)}
+            </span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
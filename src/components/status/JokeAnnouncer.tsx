@@ -0,0 +1,29 @@
+import type { JSX } from 'react';
+import { useTranslation } from '@/hooks/useTranslation';
+
+type JokeAnnouncerProps = {
+  /** The joke shown in the card, `null` while there is none. */
+  joke: string | null;
+};
+
+/**
+ * JokeAnnouncer component
+ *
+ * Visually hidden live region that makes screen readers read each newly
+ * loaded joke, whether it came from a click, a shortcut or the slideshow.
+ *
+ * @component
+ * @param {JokeAnnouncerProps} props - The props for the component.
+ * @param {string | null} props.joke - The joke to announce.
+ * @returns {JSX.Element} The live region.
+ */
+export default function JokeAnnouncer({
+  joke,
+}: JokeAnnouncerProps): JSX.Element {
+  const { t } = useTranslation();
+  return (
+    <p aria-live="polite" aria-atomic="true" className="sr-only">
+      {joke ? t('card.announce', { joke }) : ''}
+    </p>
+  );
+}
@@ -0,0 +1,39 @@
+import type { JSX } from 'react';
+import type { RetryStatus } from '@/types/jokeTypes';
+import { useTranslation } from '@/hooks/useTranslation';
+
+type LoadingMessageProps = {
+  /** Text shown while the request is pending; "Loading..." by default. */
+  label?: string;
+  /** Retry progress of the request, if it is being retried. */
+  retry: RetryStatus | null;
+};
+
+/**
+ * LoadingMessage component
+ *
+ * Shows a pending request, or its attempt number while it is being retried.
+ *
+ * @component
+ * @param {LoadingMessageProps} props - The props for the component.
+ * @returns {JSX.Element} The status line.
+ */
+export default function LoadingMessage({
+  label,
+  retry,
+}: LoadingMessageProps): JSX.Element {
+  const { t } = useTranslation();
+  return (
+    <p
+      role="status"
+      className="text-center text-blue-500 dark:text-blue-400 font-medium"
+    >
+      {retry
+        ? t('status.retrying', {
+            attempt: retry.attempt,
+            maxAttempts: retry.maxAttempts,
+          })
+        : (label ?? t('status.loading'))}
+    </p>
+  );
+}
@@ -1,35 +1,103 @@
-import { Moon, Sun } from 'lucide-react';
+import { useRef, useState } from 'react';
+import { Moon, Palette, Sun } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { useTheme } from 'next-themes';
+import { useAppDispatch, useAppSelector } from '@/store/index';
+import { applyTheme } from '@/store/slices/colorThemesSlice';
+import { THEME_PRESETS } from '@/lib/colorThemes';
+import { useThemeName } from '@/hooks/useColorTheme';
+import { useTranslation } from '@/hooks/useTranslation';
+import ThemeEditor from '@/components/theme/ThemeEditor';
 
 export function ModeToggle() {
   const { setTheme } = useTheme();
+  const dispatch = useAppDispatch();
+  const { t } = useTranslation();
+  const themeName = useThemeName();
+  const saved = useAppSelector((state) => state.colorThemes.saved);
+  const activeId = useAppSelector((state) => state.colorThemes.activeId);
+
+  /** Whether the theme editor is open */
+  const [editorOpen, setEditorOpen] = useState(false);
+
+  /** Menu button, focused again when the editor closes */
+  const trigger = useRef<HTMLButtonElement>(null);
+
+  /**
+   * Switch to a built-in theme, dropping any custom colors.
+   *
+   * @param {string} theme - `light`, `dark` or `system`.
+   */
+  const selectMode = (theme: string) => {
+    dispatch(applyTheme(null));
+    setTheme(theme);
+  };
 
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button variant="outline" size="icon">
-          <Sun className="h-[1.2rem] w-[1.2rem] scale-100 rotate-0 transition-all dark:scale-0 dark:-rotate-90" />
-          <Moon className="absolute h-[1.2rem] w-[1.2rem] scale-0 rotate-90 transition-all dark:scale-100 dark:rotate-0" />
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent align="end">
-        <DropdownMenuItem onClick={() => setTheme('light')}>
-          Light
-        </DropdownMenuItem>
-        <DropdownMenuItem onClick={() => setTheme('dark')}>
-          Dark
-        </DropdownMenuItem>
-        <DropdownMenuItem onClick={() => setTheme('system')}>
-          System
-        </DropdownMenuItem>
-      </DropdownMenuContent>
-    </DropdownMenu>
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button ref={trigger} variant="outline" size="icon">
+            <Sun className="h-[1.2rem] w-[1.2rem] scale-100 rotate-0 transition-all dark:scale-0 dark:-rotate-90" />
+            <Moon className="absolute h-[1.2rem] w-[1.2rem] scale-0 rotate-90 transition-all dark:scale-100 dark:rotate-0" />
+            <span className="sr-only">{t('theme.toggle')}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent
+          align="end"
+          onCloseAutoFocus={(e) => {
+            // The editor takes the focus, and gives it back to the trigger itself
+            if (editorOpen) e.preventDefault();
+          }}
+        >
+          <DropdownMenuItem onClick={() => selectMode('light')}>
+            {t('theme.light')}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => selectMode('dark')}>
+            {t('theme.dark')}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => selectMode('system')}>
+            {t('theme.system')}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>{t('theme.custom')}</DropdownMenuLabel>
+          {[...THEME_PRESETS, ...saved].map((theme) => (
+            <DropdownMenuItem
+              key={theme.id}
+              aria-current={theme.id === activeId || undefined}
+              onClick={() => dispatch(applyTheme(theme.id))}
+            >
+              <span
+                className="h-3 w-3 rounded-full border"
+                style={{ backgroundColor: theme.accent }}
+                aria-hidden="true"
+              />
+              {themeName(theme)}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setEditorOpen(true)}>
+            <Palette />
+            {t('theme.customize')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {editorOpen && (
+        <ThemeEditor
+          onClose={() => {
+            setEditorOpen(false);
+            trigger.current?.focus();
+          }}
+        />
+      )}
+    </>
   );
 }
@@ -0,0 +1,377 @@
+import { useEffect, useRef, useState, type JSX } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/index';
+import {
+  applyTheme,
+  deleteTheme,
+  importThemes,
+  saveTheme,
+  selectActiveTheme,
+} from '@/store/slices/colorThemesSlice';
+import {
+  downloadThemes,
+  parseThemesFile,
+  THEME_NAME_MAX_LENGTH,
+  THEME_PRESETS,
+  themeVariables,
+  type ThemeDraft,
+} from '@/lib/colorThemes';
+import { useThemeName } from '@/hooks/useColorTheme';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { MessageKey } from '@/lib/i18n/en';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Check, Download, Pencil, Trash2, Upload, X } from 'lucide-react';
+
+type ThemeEditorProps = {
+  /** Called when the editor is dismissed. */
+  onClose: () => void;
+};
+
+/** The color fields of the editor, with their labels. */
+const COLOR_FIELDS: {
+  field: 'accent' | 'background' | 'card';
+  label: MessageKey;
+}[] = [
+  { field: 'accent', label: 'themeEditor.accent' },
+  { field: 'background', label: 'themeEditor.background' },
+  { field: 'card', label: 'themeEditor.card' },
+];
+
+/**
+ * Swatches of a theme's three colors.
+ *
+ * @param {{ theme: ThemeDraft }} props - The theme.
+ * @returns {JSX.Element} The swatches.
+ */
+function Swatches({ theme }: { theme: ThemeDraft }): JSX.Element {
+  return (
+    <span className="flex shrink-0" aria-hidden="true">
+      {[theme.background, theme.card, theme.accent].map((color, i) => (
+        <span
+          key={i}
+          className="-ml-1 h-4 w-4 rounded-full border first:ml-0"
+          style={{ backgroundColor: color }}
+        />
+      ))}
+    </span>
+  );
+}
+
+/**
+ * ThemeEditor component
+ *
+ * Overlay for custom color themes: start from a bundled preset or the
+ * applied theme, pick the accent, background and card colors with a live
+ * preview, and save the result under a name. Saved themes can be applied,
+ * edited, deleted, and exported to or imported from a JSON file. Closes
+ * with Escape, the close button or a click outside.
+ *
+ * @component
+ * @param {ThemeEditorProps} props - The props for the component.
+ * @param {() => void} props.onClose - Called when the editor is dismissed.
+ * @returns {JSX.Element} The modal overlay.
+ */
+export default function ThemeEditor({
+  onClose,
+}: ThemeEditorProps): JSX.Element {
+  const dispatch = useAppDispatch();
+  const { t } = useTranslation();
+  const themeName = useThemeName();
+  const saved = useAppSelector((state) => state.colorThemes.saved);
+  const active = useAppSelector(selectActiveTheme);
+
+  /** Theme being edited; `id` is set while editing a saved theme */
+  const [draft, setDraft] = useState<ThemeDraft & { id?: string }>(() =>
+    active
+      ? {
+          ...active,
+          id: active.id.startsWith('preset:') ? undefined : active.id,
+          name: themeName(active),
+        }
+      : {
+          ...THEME_PRESETS[0],
+          id: undefined,
+          name: t('themeEditor.defaultName'),
+        }
+  );
+
+  /** Outcome of the last import */
+  const [notice, setNotice] = useState<{ text: string; error: boolean } | null>(
+    null
+  );
+
+  /** Close button, focused while the overlay is open */
+  const closeButton = useRef<HTMLButtonElement>(null);
+
+  /** Hidden file input opened by the import button */
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  /** Moves the focus into the overlay, and back when it closes */
+  useEffect(() => {
+    const previous = document.activeElement;
+    closeButton.current?.focus();
+    return () => {
+      if (previous instanceof HTMLElement) previous.focus();
+    };
+  }, []);
+
+  const name = draft.name.trim();
+  const preview = themeVariables(draft);
+
+  /**
+   * Save the draft and apply it.
+   *
+   * @param {boolean} asNew - Whether to add it as a new theme even when editing a saved one.
+   */
+  const save = (asNew: boolean) => {
+    if (!name) return;
+    const { id, ...theme } = draft;
+    dispatch(saveTheme({ ...theme, name, id: asNew ? undefined : id }));
+  };
+
+  /**
+   * Import the themes of a file chosen by the user.
+   *
+   * @param {File} file - The chosen file.
+   */
+  const importFile = async (file: File) => {
+    const themes = parseThemesFile(await file.text());
+    if (themes) {
+      dispatch(importThemes(themes));
+      setNotice({
+        text: t('themeEditor.imported', { count: themes.length }),
+        error: false,
+      });
+    } else {
+      setNotice({ text: t('themeEditor.invalidFile'), error: true });
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onMouseDown={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="theme-editor-title"
+        className="max-h-full w-full max-w-lg overflow-y-auto rounded-xl border bg-popover p-4 text-popover-foreground shadow-lg"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key !== 'Escape') return;
+          e.preventDefault();
+          onClose();
+        }}
+      >
+        <div className="mb-3 flex items-center justify-between">
+          <h2 id="theme-editor-title" className="text-lg font-semibold">
+            {t('themeEditor.title')}
+          </h2>
+          <Button
+            ref={closeButton}
+            variant="ghost"
+            size="icon"
+            aria-label={t('shortcuts.close')}
+            onClick={onClose}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <h3 className="mb-2 text-sm font-medium">{t('themeEditor.presets')}</h3>
+        <div className="mb-4 flex flex-wrap gap-2">
+          {THEME_PRESETS.map((preset) => (
+            <Button
+              key={preset.id}
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setDraft({ ...preset, id: undefined, name: themeName(preset) })
+              }
+            >
+              <Swatches theme={preset} />
+              {themeName(preset)}
+            </Button>
+          ))}
+        </div>
+
+        <form
+          className="mb-4 space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            save(false);
+          }}
+        >
+          <label className="block text-sm">
+            {t('themeEditor.name')}
+            <Input
+              className="mt-1"
+              value={draft.name}
+              maxLength={THEME_NAME_MAX_LENGTH}
+              required
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+          </label>
+          <div className="flex flex-wrap gap-4">
+            {COLOR_FIELDS.map(({ field, label }) => (
+              <label key={field} className="flex items-center gap-2 text-sm">
+                <input
+                  type="color"
+                  className="h-8 w-10 cursor-pointer rounded border bg-transparent"
+                  value={draft[field]}
+                  onChange={(e) =>
+                    setDraft({ ...draft, [field]: e.target.value })
+                  }
+                />
+                {t(label)}
+              </label>
+            ))}
+          </div>
+
+          <div
+            aria-label={t('themeEditor.preview')}
+            role="img"
+            className="rounded-lg border p-3"
+            style={{
+              backgroundColor: preview['--background'],
+              color: preview['--foreground'],
+            }}
+          >
+            <div
+              className="flex items-center justify-between gap-3 rounded-md p-3 text-sm shadow-sm"
+              style={{
+                backgroundColor: draft.card,
+                color: preview['--card-foreground'],
+              }}
+            >
+              {t('themeEditor.previewJoke')}
+              <span
+                className="shrink-0 rounded-md px-2 py-1 text-xs font-medium"
+                style={{
+                  backgroundColor: draft.accent,
+                  color: preview['--primary-foreground'],
+                }}
+              >
+                ★
+              </span>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button type="submit" disabled={!name}>
+              {t('themeEditor.save')}
+            </Button>
+            {draft.id && (
+              <Button
+                type="button"
+                variant="outline"
+                disabled={!name}
+                onClick={() => save(true)}
+              >
+                {t('themeEditor.saveAsNew')}
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => dispatch(applyTheme(null))}
+            >
+              {t('themeEditor.reset')}
+            </Button>
+          </div>
+        </form>
+
+        <h3 className="mb-2 text-sm font-medium">{t('themeEditor.saved')}</h3>
+        {saved.length === 0 ? (
+          <p className="mb-4 text-sm text-muted-foreground">
+            {t('themeEditor.noSaved')}
+          </p>
+        ) : (
+          <ul className="mb-4 space-y-1">
+            {saved.map((theme) => (
+              <li key={theme.id} className="flex items-center gap-2 text-sm">
+                <Swatches theme={theme} />
+                <span className="flex-1 truncate">{theme.name}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t('themeEditor.apply', { name: theme.name })}
+                  aria-pressed={active?.id === theme.id}
+                  onClick={() => dispatch(applyTheme(theme.id))}
+                >
+                  <Check className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t('themeEditor.edit', { name: theme.name })}
+                  onClick={() => setDraft(theme)}
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t('themeEditor.delete', { name: theme.name })}
+                  onClick={() => {
+                    dispatch(deleteTheme(theme.id));
+                    if (draft.id === theme.id) {
+                      setDraft({ ...draft, id: undefined });
+                    }
+                  }}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={saved.length === 0}
+            onClick={() => downloadThemes(saved)}
+          >
+            <Download className="w-4 h-4" />
+            {t('themeEditor.export')}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInput.current?.click()}
+          >
+            <Upload className="w-4 h-4" />
+            {t('themeEditor.import')}
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            data-testid="theme-import"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) void importFile(file);
+            }}
+          />
+          {notice && (
+            <p
+              role={notice.error ? 'alert' : 'status'}
+              className={
+                notice.error
+                  ? 'text-sm text-destructive'
+                  : 'text-sm text-muted-foreground'
+              }
+            >
+              {notice.text}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
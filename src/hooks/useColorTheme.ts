@@ -0,0 +1,46 @@
+import { useCallback, useEffect } from 'react';
+import { useTheme } from 'next-themes';
+import { useAppSelector } from '@/store/index';
+import { selectActiveTheme } from '@/store/slices/colorThemesSlice';
+import { applyColorTheme, isDarkColor } from '@/lib/colorThemes';
+import { en, type MessageKey } from '@/lib/i18n/en';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { ColorTheme } from '@/types/jokeTypes';
+
+/**
+ * Apply the chosen custom color theme to the page.
+ *
+ * The light or dark theme of `next-themes` follows the custom background,
+ * so `dark:` variants stay readable on it.
+ *
+ * @function useColorTheme
+ */
+export function useColorTheme(): void {
+  const theme = useAppSelector(selectActiveTheme);
+  const { setTheme } = useTheme();
+
+  useEffect(() => {
+    applyColorTheme(theme);
+    if (theme) setTheme(isDarkColor(theme.background) ? 'dark' : 'light');
+  }, [theme, setTheme]);
+}
+
+/**
+ * Name color themes in the UI language: presets are translated, saved
+ * themes keep the name the user gave them.
+ *
+ * @function useThemeName
+ * @returns {(theme: ColorTheme) => string} Names a theme.
+ */
+export function useThemeName(): (theme: ColorTheme) => string {
+  const { t } = useTranslation();
+  return useCallback(
+    (theme: ColorTheme) => {
+      const key = `theme.preset.${theme.id.replace(/^preset:/, '')}`;
+      return theme.id.startsWith('preset:') && key in en
+        ? t(key as MessageKey)
+        : theme.name;
+    },
+    [t]
+  );
+}
@@ -0,0 +1,78 @@
+import { useEffect, useRef } from 'react';
+import { useStore } from 'react-redux';
+import { useLocation, useNavigate, useNavigationType } from 'react-router';
+import { useAppDispatch, useAppSelector, type RootState } from '@/store/index';
+import { clearSearchResults, requestJoke } from '@/store/slices/jokesSlice';
+import { pathFromState, requestFromLocation } from '@/lib/routes';
+
+/**
+ * Keep the URL and the jokes state in sync.
+ *
+ * - On first render and on browser back/forward, the request described by
+ *   the URL is dispatched, unless it is already shown.
+ * - Whenever the user loads something else (via `SearchBar`,
+ *   `CategoriesSelect`, history, ...), the URL is updated with a new history
+ *   entry. URLs that were only reached to load their content (e.g. `/` for a
+ *   random joke) are replaced instead, so back/forward skips them. So are
+ *   the results of a live search that follows another one: typing a query
+ *   adds a single entry, not one per pause.
+ *
+ * @function useRouteSync
+ */
+export function useRouteSync(): void {
+  const dispatch = useAppDispatch();
+  const store = useStore<RootState>();
+  const location = useLocation();
+  const navigationType = useNavigationType();
+  const navigate = useNavigate();
+  const path = useAppSelector((s) => pathFromState(s.jokes));
+  const live = useAppSelector(
+    (s) => s.jokes.searchQuery !== null && s.jokes.searchLive
+  );
+
+  /** Key of the last location loaded into the state */
+  const handledKey = useRef<string | null>(null);
+  /** Set while the state catches up with a URL that was navigated to */
+  const followingUrl = useRef(false);
+  /** Last path derived from the state, to react to its changes only */
+  const lastPath = useRef(path);
+  /** Whether the current entry holds the results of a live search */
+  const liveEntry = useRef(false);
+
+  // URL → state: first render and back/forward
+  useEffect(() => {
+    const isFirstLocation = handledKey.current === null;
+    if (handledKey.current === location.key) return;
+    handledKey.current = location.key;
+    if (!isFirstLocation && navigationType !== 'POP') return;
+
+    const request = requestFromLocation(location);
+    const { jokes } = store.getState();
+
+    if (request.type !== 'search' && jokes.searchQuery !== null) {
+      dispatch(clearSearchResults());
+    }
+    if (request.type === 'search' && request.query === jokes.searchQuery) {
+      return;
+    }
+    if (request.type === 'id' && request.id === jokes.joke?.id) return;
+
+    followingUrl.current = true;
+    dispatch(requestJoke(request));
+  }, [location, navigationType, store, dispatch]);
+
+  // State → URL: something new is shown
+  useEffect(() => {
+    if (path === lastPath.current) return;
+    lastPath.current = path;
+    if (path === null) return;
+
+    if (path !== location.pathname + location.search) {
+      navigate(path, {
+        replace: followingUrl.current || (live && liveEntry.current),
+      });
+    }
+    followingUrl.current = false;
+    liveEntry.current = live;
+  }, [path, live, location, navigate]);
+}
@@ -0,0 +1,213 @@
+import { useEffect, useMemo } from 'react';
+import { useTheme } from 'next-themes';
+import { useAppDispatch, useAppSelector } from '@/store/index';
+import {
+  fetchJokeByCategory,
+  fetchRandomJoke,
+  selectCardJoke,
+} from '@/store/slices/jokesSlice';
+import { selectVisibleCategories } from '@/store/slices/safeModeSlice';
+import { applyTheme } from '@/store/slices/colorThemesSlice';
+import {
+  isEditableTarget,
+  isWidgetTarget,
+  matchesShortcut,
+  SEARCH_INPUT_ID,
+} from '@/lib/shortcuts';
+import { useTranslation } from '@/hooks/useTranslation';
+
+/**
+ * An action offered by the keyboard shortcuts and the command palette.
+ *
+ * @typedef {Object} Command
+ * @property {string} id - Unique id, e.g. `random` or `category:dev`.
+ * @property {string} label - Description in the UI language.
+ * @property {'actions' | 'categories'} group - Whether it is an app action or shows a joke from a category.
+ * @property {string} [shortcut] - Key that runs it (see `matchesShortcut`).
+ * @property {string[]} [keywords] - Other texts it can be found by in the palette.
+ * @property {() => void} run - Performs the action.
+ */
+export interface Command {
+  id: string;
+  label: string;
+  group: 'actions' | 'categories';
+  shortcut?: string;
+  keywords?: string[];
+  run: () => void;
+}
+
+/**
+ * Parts of the UI the commands open or report to.
+ *
+ * @typedef {Object} CommandHandlers
+ * @property {() => void} openHelp - Shows the keyboard shortcuts overlay.
+ * @property {() => void} openPalette - Shows the command palette.
+ * @property {(message: string) => void} notify - Announces the outcome of a command.
+ */
+export interface CommandHandlers {
+  openHelp: () => void;
+  openPalette: () => void;
+  notify: (message: string) => void;
+}
+
+/**
+ * List the commands of the app: its actions, with their shortcuts, followed
+ * by a "show a joke from" command per visible category.
+ *
+ * Cycling categories moves through the visible categories, starting from
+ * the category of the current joke.
+ *
+ * @function useCommands
+ * @param {CommandHandlers} handlers - The overlays and notifications the commands use.
+ * @returns {Command[]} The commands, in display order.
+ */
+export function useCommands({
+  openHelp,
+  openPalette,
+  notify,
+}: CommandHandlers): Command[] {
+  const dispatch = useAppDispatch();
+  const { t, categoryName } = useTranslation();
+  const { resolvedTheme, setTheme } = useTheme();
+  const categories = useAppSelector(selectVisibleCategories);
+  const current = useAppSelector((s) => s.jokes.category);
+  const { joke } = useAppSelector(selectCardJoke);
+
+  return useMemo(() => {
+    /**
+     * Shows a joke from the category `step` places away from the current one.
+     *
+     * @param {number} step - `1` for the next category, `-1` for the previous one.
+     */
+    const cycleCategory = (step: number) => {
+      if (categories.length === 0) return;
+      const index = current === null ? -1 : categories.indexOf(current);
+      const next =
+        index === -1
+          ? step > 0
+            ? 0
+            : categories.length - 1
+          : (index + step + categories.length) % categories.length;
+      dispatch(fetchJokeByCategory(categories[next]));
+    };
+
+    /**
+     * Copies the current joke to the clipboard and reports the outcome.
+     */
+    const copyJoke = async () => {
+      if (!joke) return;
+      try {
+        await navigator.clipboard.writeText(joke.value);
+        notify(t('shortcuts.copied'));
+      } catch {
+        notify(t('shortcuts.copyFailed'));
+      }
+    };
+
+    const actions: Command[] = [
+      {
+        id: 'random',
+        label: t('shortcuts.random'),
+        shortcut: 'n',
+        run: () => dispatch(fetchRandomJoke()),
+      },
+      {
+        id: 'search',
+        label: t('shortcuts.search'),
+        shortcut: '/',
+        run: () => document.getElementById(SEARCH_INPUT_ID)?.focus(),
+      },
+      {
+        id: 'next-category',
+        label: t('shortcuts.nextCategory'),
+        shortcut: ']',
+        run: () => cycleCategory(1),
+      },
+      {
+        id: 'previous-category',
+        label: t('shortcuts.previousCategory'),
+        shortcut: '[',
+        run: () => cycleCategory(-1),
+      },
+      {
+        id: 'theme',
+        label: t('shortcuts.theme'),
+        shortcut: 't',
+        run: () => {
+          dispatch(applyTheme(null));
+          setTheme(resolvedTheme === 'dark' ? 'light' : 'dark');
+        },
+      },
+      {
+        id: 'copy',
+        label: t('shortcuts.copy'),
+        shortcut: 'c',
+        run: () => void copyJoke(),
+      },
+      {
+        id: 'help',
+        label: t('shortcuts.help'),
+        shortcut: '?',
+        run: openHelp,
+      },
+      {
+        id: 'palette',
+        label: t('shortcuts.palette'),
+        shortcut: 'Mod+k',
+        run: openPalette,
+      },
+    ].map((command) => ({ ...command, group: 'actions' as const }));
+
+    const categoryCommands: Command[] = categories.map((name) => ({
+      id: `category:${name}`,
+      label: t('palette.category', { category: categoryName(name) }),
+      group: 'categories',
+      keywords: [categoryName(name), name],
+      run: () => dispatch(fetchJokeByCategory(name)),
+    }));
+
+    return [...actions, ...categoryCommands];
+  }, [
+    categories,
+    categoryName,
+    current,
+    dispatch,
+    joke,
+    notify,
+    openHelp,
+    openPalette,
+    resolvedTheme,
+    setTheme,
+    t,
+  ]);
+}
+
+/**
+ * Run commands when their shortcut is pressed anywhere on the page.
+ *
+ * Plain shortcuts are ignored while typing in a field or in a widget with its
+ * own typeahead (e.g. the open category picker); `Mod+` shortcuts work
+ * everywhere.
+ *
+ * @function useShortcuts
+ * @param {Command[]} commands - The commands, from `useCommands`.
+ */
+export function useShortcuts(commands: Command[]): void {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented) return;
+      const command = commands.find(
+        ({ shortcut }) =>
+          shortcut &&
+          matchesShortcut(e, shortcut) &&
+          (shortcut.startsWith('Mod+') ||
+            !(isEditableTarget(e.target) || isWidgetTarget(e.target)))
+      );
+      if (!command) return;
+      e.preventDefault();
+      command.run();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [commands]);
+}
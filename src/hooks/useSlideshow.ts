@@ -0,0 +1,107 @@
+import {
+  useEffect,
+  useState,
+  useSyncExternalStore,
+  type FocusEvent,
+} from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/index';
+import { nextSlide } from '@/store/slices/slideshowSlice';
+
+/** How often (ms) the countdown is updated. */
+const TICK_MS = 100;
+
+/**
+ * Subscribe to changes of the page visibility.
+ *
+ * @param {() => void} onChange - Called when the tab is hidden or shown.
+ * @returns {() => void} Unsubscribes.
+ */
+const subscribeVisibility = (onChange: () => void) => {
+  document.addEventListener('visibilitychange', onChange);
+  return () => document.removeEventListener('visibilitychange', onChange);
+};
+
+/**
+ * Props that pause the slideshow while the pointer or focus is inside the
+ * element they are spread on.
+ */
+export interface SlideshowHoldProps {
+  onMouseEnter: () => void;
+  onMouseLeave: () => void;
+  onFocus: () => void;
+  onBlur: (e: FocusEvent<HTMLElement>) => void;
+}
+
+/**
+ * Run the slideshow countdown and show the next joke when it runs out.
+ *
+ * The countdown restarts whenever another joke is shown (e.g. after a skip)
+ * and is paused while the slideshow is stopped, a joke is loading, the tab
+ * is hidden, or the joke card is hovered or focused.
+ *
+ * @function useSlideshow
+ * @returns {{ progress: number | null, holdProps: SlideshowHoldProps }} Elapsed fraction of the interval (`null` when not playing) and the props pausing it.
+ */
+export function useSlideshow(): {
+  progress: number | null;
+  holdProps: SlideshowHoldProps;
+} {
+  const dispatch = useAppDispatch();
+  const { playing, intervalMs } = useAppSelector((s) => s.slideshow);
+  const jokeId = useAppSelector((s) => s.jokes.joke?.id ?? null);
+  const loading = useAppSelector(
+    (s) => s.jokes.requests.joke.status === 'pending'
+  );
+  const hidden = useSyncExternalStore(
+    subscribeVisibility,
+    () => document.hidden
+  );
+
+  /** Whether the pointer is over the joke card */
+  const [hovered, setHovered] = useState(false);
+
+  /** Whether the keyboard focus is inside the joke card */
+  const [focused, setFocused] = useState(false);
+
+  /** Time (ms) the current joke has been shown while playing */
+  const [elapsed, setElapsed] = useState(0);
+
+  const paused = !playing || loading || hidden || hovered || focused;
+
+  /** Restart the countdown for every new joke and setting */
+  useEffect(() => {
+    setElapsed(0);
+  }, [jokeId, playing, intervalMs]);
+
+  /** Advance the countdown while not paused */
+  useEffect(() => {
+    if (paused) return;
+    let last = Date.now();
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const delta = now - last;
+      setElapsed((value) => value + delta);
+      last = now;
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [paused]);
+
+  /** Show the next joke once the countdown runs out */
+  useEffect(() => {
+    if (!playing || elapsed < intervalMs) return;
+    setElapsed(0);
+    dispatch(nextSlide());
+  }, [dispatch, playing, elapsed, intervalMs]);
+
+  return {
+    progress: playing ? Math.min(1, elapsed / intervalMs) : null,
+    holdProps: {
+      onMouseEnter: () => setHovered(true),
+      onMouseLeave: () => setHovered(false),
+      onFocus: () => setFocused(true),
+      onBlur: (e) => {
+        if (!e.currentTarget.contains(e.relatedTarget)) setFocused(false);
+      },
+    },
+  };
+}
@@ -0,0 +1,139 @@
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import { useStore } from 'react-redux';
+import type { RootState } from '@/store/index';
+import { isSpeechSupported, wordAt, type WordRange } from '@/lib/speech';
+
+/** Voice list used when speech synthesis is unavailable. */
+const NO_VOICES: SpeechSynthesisVoice[] = [];
+
+/** Last voice list read, so unchanged lists keep their identity. */
+let cachedVoices = NO_VOICES;
+
+/**
+ * Read the installed voices, reusing the cached list while it is unchanged.
+ *
+ * @returns {SpeechSynthesisVoice[]} The voices.
+ */
+const readVoices = () => {
+  if (!isSpeechSupported()) return NO_VOICES;
+  const voices = window.speechSynthesis.getVoices();
+  const changed =
+    voices.length !== cachedVoices.length ||
+    voices.some((voice, i) => voice.voiceURI !== cachedVoices[i].voiceURI);
+  if (changed) cachedVoices = voices;
+  return cachedVoices;
+};
+
+/**
+ * Subscribe to changes of the installed voices, which some browsers load
+ * asynchronously.
+ *
+ * @param {() => void} onChange - Called when the voices change.
+ * @returns {() => void} Unsubscribes.
+ */
+const subscribeVoices = (onChange: () => void) => {
+  if (!isSpeechSupported()) return () => {};
+  const synth = window.speechSynthesis;
+  synth.addEventListener('voiceschanged', onChange);
+  return () => synth.removeEventListener('voiceschanged', onChange);
+};
+
+/**
+ * List the speech synthesis voices of the browser.
+ *
+ * @function useVoices
+ * @returns {SpeechSynthesisVoice[]} The voices; empty when speech is unsupported.
+ */
+export function useVoices(): SpeechSynthesisVoice[] {
+  return useSyncExternalStore(subscribeVoices, readVoices);
+}
+
+/**
+ * Read a text aloud with the voice, rate and pitch from the speech
+ * preferences, tracking the word being spoken.
+ *
+ * Only one text is spoken at a time in the whole page: speaking cancels
+ * whatever was being read, including by other components. Speech stops when
+ * the text changes or the component unmounts; with `autoRead`, a new text is
+ * then read aloud if the preferences ask for it.
+ *
+ * @function useSpeech
+ * @param {string | null} text - The text to read.
+ * @param {boolean} [autoRead=false] - Whether this text may be read automatically.
+ * @returns {{ supported: boolean, speaking: boolean, word: WordRange | null, speak: () => void, stop: () => void }} Whether speech is available, the current state and the controls.
+ */
+export function useSpeech(
+  text: string | null,
+  autoRead = false
+): {
+  supported: boolean;
+  speaking: boolean;
+  word: WordRange | null;
+  speak: () => void;
+  stop: () => void;
+} {
+  const store = useStore<RootState>();
+  const supported = isSpeechSupported();
+
+  /** Utterance started by this component, `null` when not speaking */
+  const utterance = useRef<SpeechSynthesisUtterance | null>(null);
+
+  /** Whether this component's utterance is being spoken */
+  const [speaking, setSpeaking] = useState(false);
+
+  /** Word being spoken, from the latest `boundary` event */
+  const [word, setWord] = useState<WordRange | null>(null);
+
+  const stop = useCallback(() => {
+    if (!utterance.current) return;
+    utterance.current = null;
+    window.speechSynthesis.cancel();
+    setSpeaking(false);
+    setWord(null);
+  }, []);
+
+  const speak = useCallback(() => {
+    if (!supported || !text) return;
+    const synth = window.speechSynthesis;
+    // Preferences are read when speaking, so changing them does not restart
+    const { voiceURI, rate, pitch } = store.getState().speech;
+
+    const next = new SpeechSynthesisUtterance(text);
+    next.rate = rate;
+    next.pitch = pitch;
+    const voice = synth.getVoices().find((v) => v.voiceURI === voiceURI);
+    if (voice) next.voice = voice;
+
+    next.onboundary = (e) => {
+      if (utterance.current !== next || e.name === 'sentence') return;
+      setWord(wordAt(text, e.charIndex, e.charLength));
+    };
+    next.onend = next.onerror = () => {
+      // Ignore utterances that were replaced or stopped meanwhile
+      if (utterance.current !== next) return;
+      utterance.current = null;
+      setSpeaking(false);
+      setWord(null);
+    };
+
+    utterance.current = next;
+    synth.cancel();
+    setSpeaking(true);
+    setWord(null);
+    synth.speak(next);
+  }, [store, supported, text]);
+
+  /** Stop speaking when the text changes, and read the new one if asked to */
+  useEffect(() => {
+    if (autoRead && store.getState().speech.autoRead) speak();
+    return stop;
+  }, [autoRead, speak, stop, store]);
+
+  return { supported, speaking, word, speak, stop };
+}
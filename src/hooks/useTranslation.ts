@@ -0,0 +1,37 @@
+import { useMemo } from 'react';
+import { useAppSelector } from '@/store/index';
+import {
+  categoryLabel,
+  categoryName,
+  translate,
+  type MessageParams,
+} from '@/lib/i18n/translate';
+import type { MessageKey } from '@/lib/i18n/en';
+import type { Locale } from '@/types/jokeTypes';
+
+/**
+ * Translate messages and category names to the UI language chosen in the
+ * locale preferences.
+ *
+ * @function useTranslation
+ * @returns {{ locale: Locale, t: (key: MessageKey, params?: MessageParams) => string, categoryName: (category: string) => string, categoryLabel: (category: string, pickedFrom?: string[] | null) => string }} The language and its translation functions.
+ */
+export function useTranslation(): {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  categoryName: (category: string) => string;
+  categoryLabel: (category: string, pickedFrom?: string[] | null) => string;
+} {
+  const locale = useAppSelector((s) => s.locale.locale);
+
+  return useMemo(
+    () => ({
+      locale,
+      t: (key, params) => translate(locale, key, params),
+      categoryName: (category) => categoryName(locale, category),
+      categoryLabel: (category, pickedFrom) =>
+        categoryLabel(locale, category, pickedFrom),
+    }),
+    [locale]
+  );
+}
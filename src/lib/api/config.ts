@@ -0,0 +1,24 @@
+// Z ENV súboru
+export const API_BASE = import.meta.env.VITE_CHUCK_NORRIS_API;
+
+/** Default time (ms) a request may take before it is aborted. */
+export const REQUEST_TIMEOUT_MS =
+  Number(import.meta.env.VITE_REQUEST_TIMEOUT_MS) || 10_000;
+
+/** Maximum number of attempts (including the first) for a failing request. */
+export const RETRY_MAX_ATTEMPTS = 3;
+
+/** Base delay (ms) of the exponential backoff between attempts. */
+export const RETRY_BASE_DELAY_MS = 500;
+
+/** Upper bound (ms) of a single backoff delay. */
+export const RETRY_MAX_DELAY_MS = 8_000;
+
+/**
+ * Number of jokes fetched in no-repeat or safe mode before giving up on
+ * duplicates and blocked jokes.
+ */
+export const FILTER_MAX_FETCHES = 5;
+
+/** Maximum number of requests of a joke batch that run at the same time. */
+export const BATCH_CONCURRENCY = 3;
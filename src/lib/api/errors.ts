@@ -0,0 +1,93 @@
+import type { JokeError } from '@/types/jokeTypes';
+
+/**
+ * Thrown when the Chuck Norris API answers with a payload that does not
+ * match the shape the app expects.
+ *
+ * @class InvalidResponseError
+ * @extends Error
+ * @property {string} endpoint - The API path that produced the payload.
+ * @property {unknown} data - The raw payload, kept for debugging.
+ */
+export class InvalidResponseError extends Error {
+  readonly endpoint: string;
+  readonly data: unknown;
+
+  constructor(endpoint: string, reason: string, data: unknown) {
+    super(`Invalid response from ${endpoint}: ${reason}`);
+    this.name = 'InvalidResponseError';
+    this.endpoint = endpoint;
+    this.data = data;
+  }
+}
+
+/**
+ * Thrown when a request does not complete within its timeout.
+ *
+ * @class RequestTimeoutError
+ * @extends Error
+ * @property {string} endpoint - The API path that timed out.
+ * @property {number} timeoutMs - The timeout that was exceeded.
+ */
+export class RequestTimeoutError extends Error {
+  readonly endpoint: string;
+  readonly timeoutMs: number;
+
+  constructor(endpoint: string, timeoutMs: number) {
+    super(`Request to ${endpoint} timed out after ${timeoutMs} ms`);
+    this.name = 'RequestTimeoutError';
+    this.endpoint = endpoint;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown when the API answers with a non-2xx HTTP status.
+ *
+ * @class HttpError
+ * @extends Error
+ * @property {string} endpoint - The API path that failed.
+ * @property {number} status - The HTTP status code.
+ * @property {number | null} retryAfterMs - Delay requested by a `Retry-After` header, if any.
+ */
+export class HttpError extends Error {
+  readonly endpoint: string;
+  readonly status: number;
+  readonly retryAfterMs: number | null;
+
+  constructor(endpoint: string, status: number, retryAfterMs: number | null) {
+    super(`Request to ${endpoint} failed with status ${status}`);
+    this.name = 'HttpError';
+    this.endpoint = endpoint;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Map any error thrown while requesting jokes to a serializable
+ * {@link JokeError}.
+ *
+ * @function toJokeError
+ * @param {unknown} err - The thrown error.
+ * @returns {JokeError} The classified error.
+ */
+export function toJokeError(err: unknown): JokeError {
+  if (err instanceof HttpError) {
+    return { kind: 'http', message: err.message, status: err.status };
+  }
+  if (err instanceof RequestTimeoutError) {
+    return { kind: 'timeout', message: err.message };
+  }
+  if (err instanceof InvalidResponseError) {
+    return { kind: 'invalid-payload', message: err.message };
+  }
+  // fetch rejects with a TypeError when the network request itself fails
+  if (err instanceof TypeError) {
+    return { kind: 'network', message: err.message };
+  }
+  return {
+    kind: 'unknown',
+    message: err instanceof Error ? err.message : String(err),
+  };
+}
@@ -0,0 +1,157 @@
+import type { Joke, JokeSearchResponse } from '@/types/jokeTypes';
+import { API_BASE, REQUEST_TIMEOUT_MS } from './config';
+import { HttpError, InvalidResponseError, RequestTimeoutError } from './errors';
+import { parseCategories, parseJoke, parseSearchResponse } from './validation';
+
+/**
+ * Options accepted by every API call.
+ *
+ * @typedef {Object} RequestOptions
+ * @property {AbortSignal} [signal] - Aborts the request when triggered.
+ * @property {number} [timeoutMs] - Overrides the default request timeout.
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+/**
+ * Convert a `Retry-After` header (delta seconds or HTTP date) to milliseconds.
+ *
+ * @function parseRetryAfter
+ * @param {string | null} header - The raw header value.
+ * @returns {number | null} The delay, or `null` if absent or unparsable.
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (header === null || header.trim() === '') return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Perform a GET request against the Chuck Norris API and validate the
+ * decoded JSON body.
+ *
+ * @async
+ * @function request
+ * @param {string} endpoint - Path relative to `VITE_CHUCK_NORRIS_API`, including the query string.
+ * @param {(endpoint: string, data: unknown) => T} parse - Validator for the payload.
+ * @param {RequestOptions} options - Abort signal and timeout.
+ * @returns {Promise<T>} The validated payload.
+ * @throws {HttpError} If the API answers with a non-2xx status.
+ * @throws {InvalidResponseError} If the body is not JSON or fails validation.
+ * @throws {RequestTimeoutError} If the request exceeds its timeout.
+ */
+async function request<T>(
+  endpoint: string,
+  parse: (endpoint: string, data: unknown) => T,
+  { signal, timeoutMs = REQUEST_TIMEOUT_MS }: RequestOptions
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new RequestTimeoutError(endpoint, timeoutMs)),
+    timeoutMs
+  );
+  const forwardAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) forwardAbort();
+  signal?.addEventListener('abort', forwardAbort);
+
+  let data: unknown;
+  try {
+    const res = await fetch(`${API_BASE}${endpoint}`, {
+      signal: controller.signal,
+    });
+    if (!res.ok) {
+      throw new HttpError(
+        endpoint,
+        res.status,
+        parseRetryAfter(res.headers.get('Retry-After'))
+      );
+    }
+    try {
+      data = await res.json();
+    } catch (err) {
+      if (controller.signal.aborted) throw err;
+      throw new InvalidResponseError(endpoint, 'body is not valid JSON', null);
+    }
+  } catch (err) {
+    if (controller.signal.reason instanceof RequestTimeoutError) {
+      throw controller.signal.reason;
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+
+  return parse(endpoint, data);
+}
+
+/**
+ * Fetch a random joke, optionally restricted to a category.
+ *
+ * @async
+ * @function getRandomJoke
+ * @param {string} [category] - Category to draw the joke from.
+ * @param {RequestOptions} [options] - Abort signal and timeout.
+ * @returns {Promise<Joke>} A validated joke.
+ */
+export function getRandomJoke(
+  category?: string,
+  options: RequestOptions = {}
+): Promise<Joke> {
+  const endpoint = category
+    ? `/random?category=${encodeURIComponent(category)}`
+    : '/random';
+  return request(endpoint, parseJoke, options);
+}
+
+/**
+ * Fetch a specific joke by its upstream id.
+ *
+ * @async
+ * @function getJokeById
+ * @param {string} id - Upstream joke id.
+ * @param {RequestOptions} [options] - Abort signal and timeout.
+ * @returns {Promise<Joke>} The validated joke.
+ */
+export function getJokeById(
+  id: string,
+  options: RequestOptions = {}
+): Promise<Joke> {
+  return request(`/${encodeURIComponent(id)}`, parseJoke, options);
+}
+
+/**
+ * Search jokes by a free-text query.
+ *
+ * @async
+ * @function searchJokes
+ * @param {string} query - The search term.
+ * @param {RequestOptions} [options] - Abort signal and timeout.
+ * @returns {Promise<JokeSearchResponse>} All matching jokes and their count.
+ */
+export function searchJokes(
+  query: string,
+  options: RequestOptions = {}
+): Promise<JokeSearchResponse> {
+  return request(
+    `/search?query=${encodeURIComponent(query)}`,
+    parseSearchResponse,
+    options
+  );
+}
+
+/**
+ * Fetch the list of joke categories.
+ *
+ * @async
+ * @function getCategories
+ * @param {RequestOptions} [options] - Abort signal and timeout.
+ * @returns {Promise<string[]>} The category names.
+ */
+export function getCategories(options: RequestOptions = {}): Promise<string[]> {
+  return request('/categories', parseCategories, options);
+}
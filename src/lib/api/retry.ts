@@ -0,0 +1,130 @@
+import {
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_ATTEMPTS,
+  RETRY_MAX_DELAY_MS,
+} from './config';
+import { HttpError } from './errors';
+
+/**
+ * Options for {@link withRetry}.
+ *
+ * @typedef {Object} RetryOptions
+ * @property {number} [maxAttempts] - Attempt budget, including the first attempt.
+ * @property {number} [baseDelayMs] - Delay before the second attempt, doubled for each further one.
+ * @property {number} [maxDelayMs] - Cap applied to the exponential delay.
+ * @property {AbortSignal} [signal] - Stops waiting and retrying when aborted.
+ * @property {(attempt: number, maxAttempts: number, error: unknown) => void} [onRetry] - Called before each retry with the number of the upcoming attempt.
+ */
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, maxAttempts: number, error: unknown) => void;
+}
+
+/**
+ * Whether a failed request is worth retrying: network failures (which
+ * `fetch` reports as `TypeError`), 5xx responses and 429 Too Many Requests.
+ *
+ * @function isTransientError
+ * @param {unknown} err - The error thrown by the request.
+ * @returns {boolean} True if the request may succeed when repeated.
+ */
+export function isTransientError(err: unknown): boolean {
+  if (err instanceof HttpError) {
+    return err.status >= 500 || err.status === 429;
+  }
+  return err instanceof TypeError;
+}
+
+/**
+ * Compute the delay before the given retry.
+ *
+ * A `Retry-After` value sent with the error takes precedence; otherwise the
+ * delay is drawn uniformly from `[0, min(maxDelayMs, baseDelayMs * 2^(n-1))]`
+ * ("full jitter") so that clients do not retry in lockstep.
+ *
+ * @function getRetryDelay
+ * @param {number} retry - 1 for the first retry, 2 for the second, ...
+ * @param {unknown} err - The error that triggered the retry.
+ * @param {number} baseDelayMs - Base backoff delay.
+ * @param {number} maxDelayMs - Maximum backoff delay.
+ * @returns {number} Delay in milliseconds.
+ */
+export function getRetryDelay(
+  retry: number,
+  err: unknown,
+  baseDelayMs: number,
+  maxDelayMs: number
+): number {
+  if (err instanceof HttpError && err.retryAfterMs !== null) {
+    return err.retryAfterMs;
+  }
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1));
+  return Math.random() * ceiling;
+}
+
+/**
+ * Wait for `ms` milliseconds, rejecting early if the signal aborts.
+ *
+ * @function sleep
+ * @param {number} ms - Time to wait.
+ * @param {AbortSignal} [signal] - Cancels the wait.
+ * @returns {Promise<void>}
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `fn`, retrying transient failures with jittered exponential backoff
+ * until it succeeds or the attempt budget is spent. A `Retry-After` longer
+ * than `maxDelayMs` ends the retries, so the UI reports the failure instead
+ * of waiting on it.
+ *
+ * @async
+ * @function withRetry
+ * @param {(attempt: number) => Promise<T>} fn - The operation; receives the 1-based attempt number.
+ * @param {RetryOptions} [options] - Backoff configuration.
+ * @returns {Promise<T>} The result of the first successful attempt.
+ * @throws The last error if it is not transient, no attempts are left or the server asks to wait too long.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  {
+    maxAttempts = RETRY_MAX_ATTEMPTS,
+    baseDelayMs = RETRY_BASE_DELAY_MS,
+    maxDelayMs = RETRY_MAX_DELAY_MS,
+    signal,
+    onRetry,
+  }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (err) {
+      if (attempt >= maxAttempts || signal?.aborted || !isTransientError(err)) {
+        throw err;
+      }
+      const delay = getRetryDelay(attempt, err, baseDelayMs, maxDelayMs);
+      if (delay > maxDelayMs) throw err;
+      onRetry?.(attempt + 1, maxAttempts, err);
+      await sleep(delay, signal);
+    }
+  }
+}
@@ -0,0 +1,41 @@
+/** The controller of the latest request started on each channel. */
+const inFlight = new Map<string, AbortController>();
+
+/**
+ * Start a new request on a channel, aborting the one it supersedes.
+ *
+ * Only one request per channel is kept alive: calling `supersede` again
+ * with the same channel aborts the previous request's signal.
+ *
+ * @function supersede
+ * @param {string} channel - Name of the group of mutually exclusive requests.
+ * @param {AbortSignal} [signal] - Optional outer signal (e.g. the thunk's) that also aborts the request.
+ * @returns {AbortSignal} The signal to pass to the request.
+ */
+export function supersede(channel: string, signal?: AbortSignal): AbortSignal {
+  inFlight.get(channel)?.abort();
+
+  const controller = new AbortController();
+  inFlight.set(channel, controller);
+
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal?.addEventListener('abort', () => controller.abort(signal.reason), {
+      once: true,
+    });
+  }
+
+  return controller.signal;
+}
+
+/**
+ * Abort the latest request of a channel, if it is still running.
+ *
+ * @function abortChannel
+ * @param {string} channel - Name of the group of mutually exclusive requests.
+ */
+export function abortChannel(channel: string): void {
+  inFlight.get(channel)?.abort();
+  inFlight.delete(channel);
+}
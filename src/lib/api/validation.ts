@@ -0,0 +1,114 @@
+import type { Joke, JokeSearchResponse } from '@/types/jokeTypes';
+import { InvalidResponseError } from './errors';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const JOKE_STRING_FIELDS = [
+  'id',
+  'url',
+  'icon_url',
+  'created_at',
+  'updated_at',
+  'value',
+] as const;
+
+/**
+ * Validate a single joke object.
+ *
+ * @function parseJoke
+ * @param {string} endpoint - API path, used in error messages.
+ * @param {unknown} data - Raw JSON value.
+ * @param {string} [path='joke'] - Location of the value inside the payload.
+ * @returns {Joke} The validated joke.
+ * @throws {InvalidResponseError} If a field is missing or has the wrong type.
+ */
+export function parseJoke(
+  endpoint: string,
+  data: unknown,
+  path = 'joke'
+): Joke {
+  if (!isRecord(data)) {
+    throw new InvalidResponseError(endpoint, `${path} is not an object`, data);
+  }
+  for (const field of JOKE_STRING_FIELDS) {
+    if (typeof data[field] !== 'string') {
+      throw new InvalidResponseError(
+        endpoint,
+        `${path}.${field} must be a string`,
+        data
+      );
+    }
+  }
+  if (!isStringArray(data.categories)) {
+    throw new InvalidResponseError(
+      endpoint,
+      `${path}.categories must be an array of strings`,
+      data
+    );
+  }
+
+  return {
+    id: data.id as string,
+    url: data.url as string,
+    icon_url: data.icon_url as string,
+    categories: data.categories,
+    created_at: data.created_at as string,
+    updated_at: data.updated_at as string,
+    value: data.value as string,
+  };
+}
+
+/**
+ * Validate the payload of the `/search` endpoint.
+ *
+ * @function parseSearchResponse
+ * @param {string} endpoint - API path, used in error messages.
+ * @param {unknown} data - Raw JSON value.
+ * @returns {JokeSearchResponse} The validated search response.
+ * @throws {InvalidResponseError} If the payload or any joke is malformed.
+ */
+export function parseSearchResponse(
+  endpoint: string,
+  data: unknown
+): JokeSearchResponse {
+  if (!isRecord(data)) {
+    throw new InvalidResponseError(endpoint, 'response is not an object', data);
+  }
+  if (typeof data.total !== 'number') {
+    throw new InvalidResponseError(endpoint, 'total must be a number', data);
+  }
+  if (!Array.isArray(data.result)) {
+    throw new InvalidResponseError(endpoint, 'result must be an array', data);
+  }
+
+  return {
+    total: data.total,
+    result: data.result.map((item, index) =>
+      parseJoke(endpoint, item, `result[${index}]`)
+    ),
+  };
+}
+
+/**
+ * Validate the payload of the `/categories` endpoint.
+ *
+ * @function parseCategories
+ * @param {string} endpoint - API path, used in error messages.
+ * @param {unknown} data - Raw JSON value.
+ * @returns {string[]} The category names.
+ * @throws {InvalidResponseError} If the payload is not an array of strings.
+ */
+export function parseCategories(endpoint: string, data: unknown): string[] {
+  if (!isStringArray(data)) {
+    throw new InvalidResponseError(
+      endpoint,
+      'expected an array of category names',
+      data
+    );
+  }
+  return data;
+}
@@ -0,0 +1,51 @@
+import {
+  Briefcase,
+  Church,
+  Clapperboard,
+  Code,
+  Coins,
+  Flame,
+  FlaskConical,
+  Landmark,
+  Music,
+  PawPrint,
+  Plane,
+  Shirt,
+  Star,
+  Tag,
+  Trophy,
+  Utensils,
+  Vote,
+  type LucideIcon,
+} from 'lucide-react';
+
+/** Icons of the API's joke categories. */
+const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  animal: PawPrint,
+  career: Briefcase,
+  celebrity: Star,
+  dev: Code,
+  explicit: Flame,
+  fashion: Shirt,
+  food: Utensils,
+  history: Landmark,
+  money: Coins,
+  movie: Clapperboard,
+  music: Music,
+  political: Vote,
+  religion: Church,
+  science: FlaskConical,
+  sport: Trophy,
+  travel: Plane,
+};
+
+/**
+ * Icon shown next to a joke category.
+ *
+ * @function categoryIcon
+ * @param {string} category - The category as named by the API.
+ * @returns {LucideIcon} The category's icon, or a generic tag for unknown categories.
+ */
+export function categoryIcon(category: string): LucideIcon {
+  return CATEGORY_ICONS[category] ?? Tag;
+}
@@ -0,0 +1,242 @@
+import type { ColorTheme } from '@/types/jokeTypes';
+
+/** A color theme without its id, as edited, exported and imported. */
+export type ThemeDraft = Omit<ColorTheme, 'id'>;
+
+/** Longest theme name kept, in characters. */
+export const THEME_NAME_MAX_LENGTH = 40;
+
+/** Version written to exported theme files. */
+const THEMES_FILE_VERSION = 1;
+
+/** How long (ms) a downloaded file stays readable before its URL is revoked. */
+const DOWNLOAD_URL_LIFETIME_MS = 1000;
+
+/**
+ * Themes bundled with the app.
+ */
+export const THEME_PRESETS: ColorTheme[] = [
+  {
+    id: 'preset:high-contrast',
+    name: 'High contrast',
+    accent: '#ffff00',
+    background: '#000000',
+    card: '#000000',
+  },
+  {
+    id: 'preset:ocean',
+    name: 'Ocean',
+    accent: '#38bdf8',
+    background: '#0b1d2a',
+    card: '#12324a',
+  },
+  {
+    id: 'preset:forest',
+    name: 'Forest',
+    accent: '#4ade80',
+    background: '#0f1f17',
+    card: '#173026',
+  },
+  {
+    id: 'preset:sepia',
+    name: 'Sepia',
+    accent: '#8b5e34',
+    background: '#f4ecd8',
+    card: '#fbf6e9',
+  },
+];
+
+/**
+ * Whether a value is a `#rrggbb` color.
+ *
+ * @function isHexColor
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} `true` for a six-digit hex color.
+ */
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+}
+
+/**
+ * Whether a color is dark, i.e. white text on it contrasts more than black
+ * text (WCAG relative luminance).
+ *
+ * @function isDarkColor
+ * @param {string} hex - A `#rrggbb` color.
+ * @returns {boolean} `true` for dark colors.
+ */
+export function isDarkColor(hex: string): boolean {
+  const [r, g, b] = [1, 3, 5].map((i) => {
+    const c = parseInt(hex.slice(i, i + 2), 16) / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  // Black and white text contrast equally at this luminance
+  return luminance < 0.179;
+}
+
+/**
+ * Text color that is readable on a background color.
+ *
+ * @param {string} hex - The background color.
+ * @returns {string} White for dark backgrounds, near-black otherwise.
+ */
+const textOn = (hex: string) => (isDarkColor(hex) ? '#ffffff' : '#09090b');
+
+/**
+ * Blend two colors in CSS.
+ *
+ * @param {string} color - The color to add.
+ * @param {number} percent - How much of `color` to use.
+ * @param {string} base - The color it is blended into.
+ * @returns {string} A `color-mix()` expression.
+ */
+const mix = (color: string, percent: number, base: string) =>
+  `color-mix(in oklab, ${color} ${percent}%, ${base})`;
+
+/**
+ * Compute the CSS variables the `ui/` components read for a theme: text
+ * colors are picked for contrast, and the muted shades and borders are
+ * blended from the three theme colors.
+ *
+ * @function themeVariables
+ * @param {ThemeDraft} theme - The theme.
+ * @returns {Record<string, string>} Values by variable name (`--card`, ...).
+ */
+export function themeVariables({
+  accent,
+  background,
+  card,
+}: ThemeDraft): Record<string, string> {
+  const foreground = textOn(background);
+  const cardForeground = textOn(card);
+  return {
+    '--background': background,
+    '--foreground': foreground,
+    '--card': card,
+    '--card-foreground': cardForeground,
+    '--popover': card,
+    '--popover-foreground': cardForeground,
+    '--primary': accent,
+    '--primary-foreground': textOn(accent),
+    '--secondary': mix(cardForeground, 10, card),
+    '--secondary-foreground': cardForeground,
+    '--muted': mix(cardForeground, 10, card),
+    '--muted-foreground': mix(cardForeground, 70, card),
+    '--accent': mix(accent, 20, card),
+    '--accent-foreground': cardForeground,
+    '--border': mix(foreground, 25, background),
+    '--input': mix(foreground, 30, background),
+    '--ring': accent,
+  };
+}
+
+/** Names of the variables set by `applyColorTheme`. */
+const THEME_VARIABLES = Object.keys(themeVariables(THEME_PRESETS[0]));
+
+/**
+ * Write a theme's colors to the CSS variables of the page, overriding the
+ * light and dark themes, or remove them again.
+ *
+ * @function applyColorTheme
+ * @param {ThemeDraft | null} theme - The theme, or `null` for the built-in colors.
+ * @param {HTMLElement} [root=document.documentElement] - Element carrying the variables.
+ */
+export function applyColorTheme(
+  theme: ThemeDraft | null,
+  root: HTMLElement = document.documentElement
+): void {
+  for (const name of THEME_VARIABLES) root.style.removeProperty(name);
+  if (!theme) return;
+  for (const [name, value] of Object.entries(themeVariables(theme))) {
+    root.style.setProperty(name, value);
+  }
+}
+
+/**
+ * Read a theme from untrusted data, e.g. an imported file or local storage.
+ *
+ * @function parseThemeDraft
+ * @param {unknown} value - The value to read.
+ * @returns {ThemeDraft | null} The theme, or `null` if it lacks a name or a valid color.
+ */
+export function parseThemeDraft(value: unknown): ThemeDraft | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { name, accent, background, card } = value as Record<string, unknown>;
+  if (typeof name !== 'string' || !name.trim()) return null;
+  if (!isHexColor(accent) || !isHexColor(background) || !isHexColor(card)) {
+    return null;
+  }
+  return {
+    name: name.trim().slice(0, THEME_NAME_MAX_LENGTH),
+    accent: accent.toLowerCase(),
+    background: background.toLowerCase(),
+    card: card.toLowerCase(),
+  };
+}
+
+/**
+ * Serialize themes to the JSON format read by `parseThemesFile`.
+ *
+ * @function exportThemes
+ * @param {ThemeDraft[]} themes - The themes to export.
+ * @returns {string} The JSON text.
+ */
+export function exportThemes(themes: ThemeDraft[]): string {
+  return JSON.stringify(
+    {
+      version: THEMES_FILE_VERSION,
+      themes: themes.map(({ name, accent, background, card }) => ({
+        name,
+        accent,
+        background,
+        card,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Read the themes of an exported file. A bare array of themes is accepted
+ * too; invalid entries are skipped.
+ *
+ * @function parseThemesFile
+ * @param {string} text - The file contents.
+ * @returns {ThemeDraft[] | null} The themes, or `null` if the file holds none.
+ */
+export function parseThemesFile(text: string): ThemeDraft[] | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const entries = Array.isArray(data)
+    ? data
+    : (data as { themes?: unknown } | null)?.themes;
+  if (!Array.isArray(entries)) return null;
+
+  const themes = entries
+    .map(parseThemeDraft)
+    .filter((theme): theme is ThemeDraft => theme !== null);
+  return themes.length > 0 ? themes : null;
+}
+
+/**
+ * Download themes as a JSON file.
+ *
+ * @function downloadThemes
+ * @param {ThemeDraft[]} themes - The themes to export.
+ */
+export function downloadThemes(themes: ThemeDraft[]): void {
+  const blob = new Blob([exportThemes(themes)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'chuck-norris-themes.json';
+  link.click();
+  // Revoking right after the click can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+}
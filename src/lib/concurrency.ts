@@ -0,0 +1,39 @@
+/**
+ * Call `fn` for every item with at most `limit` calls in flight at once,
+ * starting them in order as earlier ones settle.
+ *
+ * Like `Promise.allSettled`, a failing call does not stop the others.
+ *
+ * @async
+ * @function mapWithConcurrency
+ * @param {T[]} items - The inputs.
+ * @param {number} limit - Maximum number of concurrent calls (at least 1).
+ * @param {(item: T, index: number) => Promise<R>} fn - The operation.
+ * @returns {Promise<PromiseSettledResult<R>[]>} The outcome of each call, in input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = {
+          status: 'fulfilled',
+          value: await fn(items[index], index),
+        };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
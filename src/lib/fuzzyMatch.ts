@@ -0,0 +1,70 @@
+/**
+ * Lowercase a text and strip its diacritics, so `kategória` matches `kategoria`.
+ *
+ * @param {string} text - The text to normalize.
+ * @returns {string} The normalized text.
+ */
+const normalize = (text: string) =>
+  text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+/**
+ * Score how well a query abbreviates a text, as in command palettes: the
+ * query's characters must appear in the text in order, but not necessarily
+ * next to each other (`nxj` matches "Next joke").
+ *
+ * Each matched character scores 1, plus 3 when it follows the previous match
+ * and 2 when it starts a word. Whitespace in the query is ignored, and case
+ * and diacritics are ignored everywhere.
+ *
+ * @function fuzzyMatch
+ * @param {string} query - What the user typed.
+ * @param {string} text - The text to match.
+ * @returns {number | null} The score (higher is better), or `null` if the text does not match.
+ */
+export function fuzzyMatch(query: string, text: string): number | null {
+  const q = normalize(query).replace(/\s+/g, '');
+  const t = normalize(text);
+  let score = 0;
+  let previous = -2;
+  let from = 0;
+
+  for (const char of q) {
+    const index = t.indexOf(char, from);
+    if (index === -1) return null;
+    score += 1;
+    if (index === previous + 1) score += 3;
+    if (index === 0 || !/[\p{L}\p{N}]/u.test(t[index - 1])) score += 2;
+    previous = index;
+    from = index + 1;
+  }
+  return score;
+}
+
+/**
+ * Keep the items matching a query, best match first. Items whose texts match
+ * equally well keep their order. An empty query keeps every item.
+ *
+ * @function rankFuzzyMatches
+ * @template T
+ * @param {T[]} items - The items to rank.
+ * @param {string} query - What the user typed.
+ * @param {(item: T) => string[]} texts - Texts an item can be found by; the best matching one counts.
+ * @returns {T[]} The matching items.
+ */
+export function rankFuzzyMatches<T>(
+  items: T[],
+  query: string,
+  texts: (item: T) => string[]
+): T[] {
+  if (!query.trim()) return items;
+  return items
+    .map((item) => {
+      const scores = texts(item)
+        .map((text) => fuzzyMatch(query, text))
+        .filter((score): score is number => score !== null);
+      return { item, score: scores.length > 0 ? Math.max(...scores) : null };
+    })
+    .filter((m): m is { item: T; score: number } => m.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map((m) => m.item);
+}
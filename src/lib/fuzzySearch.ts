@@ -0,0 +1,124 @@
+import type { Joke } from '@/types/jokeTypes';
+
+/**
+ * A joke matching a fuzzy search, with how well it matches.
+ *
+ * @typedef {Object} FuzzyMatch
+ * @property {Joke} joke - The matching joke.
+ * @property {number} score - Sum of the best score of each query term; higher is better.
+ */
+export interface FuzzyMatch {
+  joke: Joke;
+  score: number;
+}
+
+/**
+ * Split a text into lowercase words (letters and digits).
+ *
+ * @function tokenize
+ * @param {string} text - The text to split.
+ * @returns {string[]} The words, in text order.
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Number of typos tolerated in a query term: none for short terms, where
+ * almost any word would be a near miss.
+ *
+ * @param {string} term - The query term.
+ * @returns {number} The maximum edit distance.
+ */
+const maxTypos = (term: string) =>
+  term.length <= 3 ? 0 : term.length <= 6 ? 1 : 2;
+
+/**
+ * Levenshtein distance between two words, giving up above a bound.
+ *
+ * @function editDistance
+ * @param {string} a - The first word.
+ * @param {string} b - The second word.
+ * @param {number} [max=Infinity] - Distance above which the exact value does not matter.
+ * @returns {number} The number of insertions, deletions and substitutions, or `max + 1` if above `max`.
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Score how well a query term matches a word.
+ *
+ * An exact word scores 1 and the start of a word 0.8. A word within the
+ * tolerated typos scores 0.6, or 0.5 when only its start is misspelt (`chuk`
+ * for `chucks`), minus 0.2 for every further typo.
+ *
+ * @param {string} term - The lowercase query term.
+ * @param {string} word - The lowercase word of the joke.
+ * @returns {number} The score, `0` when the term does not match.
+ */
+function termScore(term: string, word: string): number {
+  if (word === term) return 1;
+  if (term.length >= 3 && word.startsWith(term)) return 0.8;
+
+  const max = maxTypos(term);
+  if (max === 0) return 0;
+  const whole = editDistance(term, word, max);
+  const start = editDistance(term, word.slice(0, term.length), max);
+  return Math.max(
+    whole <= max ? 0.6 - 0.2 * (whole - 1) : 0,
+    start <= max ? 0.5 - 0.2 * (start - 1) : 0
+  );
+}
+
+/**
+ * Search jokes for a query, tolerating typos.
+ *
+ * Every term of the query must match a word of the joke, exactly, as the
+ * start of the word or with a few typos. Matches are ranked by the sum of
+ * their best term scores; equal scores keep the order of `jokes`.
+ *
+ * @function fuzzySearch
+ * @param {Joke[]} jokes - The jokes to search.
+ * @param {string} query - The search query.
+ * @returns {FuzzyMatch[]} The matching jokes, best first.
+ */
+export function fuzzySearch(jokes: Joke[], query: string): FuzzyMatch[] {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) return [];
+
+  const matches: FuzzyMatch[] = [];
+  for (const joke of jokes) {
+    const words = [...new Set(tokenize(joke.value))];
+    let score = 0;
+    for (const term of terms) {
+      const best = Math.max(0, ...words.map((word) => termScore(term, word)));
+      if (best === 0) {
+        score = 0;
+        break;
+      }
+      score += best;
+    }
+    if (score > 0) matches.push({ joke, score });
+  }
+  // Array#sort is stable, so ties keep their order
+  return matches.sort((a, b) => b.score - a.score);
+}
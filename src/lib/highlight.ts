@@ -0,0 +1,88 @@
+/**
+ * A piece of text, marked when it matches one of the searched terms.
+ *
+ * @typedef {Object} HighlightSegment
+ * @property {string} text - The text of the piece.
+ * @property {boolean} match - Whether it matches a searched term.
+ */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Split a query into its unique, non-empty terms.
+ *
+ * Terms are compared case-insensitively; the first spelling is kept.
+ *
+ * @function queryTerms
+ * @param {string} query - The search query, e.g. `roundhouse kick`.
+ * @returns {string[]} The terms, in query order.
+ */
+export function queryTerms(query: string): string[] {
+  const seen = new Set<string>();
+  return query.split(/\s+/).filter((term) => {
+    const key = term.toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Escape the characters with a special meaning in regular expressions.
+ *
+ * @param {string} text - The literal text.
+ * @returns {string} A pattern matching exactly `text`.
+ */
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Split a text into the pieces that match a query and the pieces between.
+ *
+ * Every case-insensitive occurrence of every term is matched, preferring the
+ * longest term where terms overlap (`kick` over `kic`).
+ *
+ * @function highlightMatches
+ * @param {string} text - The text to split, e.g. a joke.
+ * @param {string} query - The search query.
+ * @returns {HighlightSegment[]} The pieces, in text order; one unmatched piece if nothing matches.
+ */
+export function highlightMatches(
+  text: string,
+  query: string
+): HighlightSegment[] {
+  const terms = queryTerms(query).sort((a, b) => b.length - a.length);
+  if (terms.length === 0) return [{ text, match: false }];
+
+  const pattern = new RegExp(terms.map(escapeRegExp).join('|'), 'gi');
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const found of text.matchAll(pattern)) {
+    if (found.index > last) {
+      segments.push({ text: text.slice(last, found.index), match: false });
+    }
+    segments.push({ text: found[0], match: true });
+    last = found.index + found[0].length;
+  }
+  if (last < text.length || segments.length === 0) {
+    segments.push({ text: text.slice(last), match: false });
+  }
+  return segments;
+}
+
+/**
+ * List the terms of a query that occur in a text.
+ *
+ * @function matchedTerms
+ * @param {string} text - The searched text.
+ * @param {string} query - The search query.
+ * @returns {string[]} The terms found (case-insensitive), in query order.
+ */
+export function matchedTerms(text: string, query: string): string[] {
+  const haystack = text.toLowerCase();
+  return queryTerms(query).filter((term) =>
+    haystack.includes(term.toLowerCase())
+  );
+}
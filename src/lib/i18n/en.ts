@@ -0,0 +1,254 @@
+/**
+ * Translation of a message that depends on a count, by CLDR plural category
+ * (`Intl.PluralRules`). Categories a language does not use may be left out;
+ * `other` is the fallback.
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+
+/**
+ * A translated message. `{name}` placeholders are replaced by the parameters
+ * passed to `translate`.
+ */
+export type Message = string | PluralMessage;
+
+/**
+ * English messages, the reference catalog: every other locale must translate
+ * each of its keys.
+ */
+export const en = {
+  'app.title': 'Chuck Norris Jokes',
+  'home.favorites': 'Favorites ({count})',
+  'home.topRated': 'Top rated ({count})',
+  'home.back': 'Back to jokes',
+
+  'theme.toggle': 'Toggle theme',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.system': 'System',
+  'language.change': 'Change language',
+  'theme.custom': 'Color themes',
+  'theme.customize': 'Customize colors…',
+  'theme.preset.high-contrast': 'High contrast',
+  'theme.preset.ocean': 'Ocean',
+  'theme.preset.forest': 'Forest',
+  'theme.preset.sepia': 'Sepia',
+  'themeEditor.title': 'Theme editor',
+  'themeEditor.presets': 'Start from a preset',
+  'themeEditor.name': 'Name',
+  'themeEditor.defaultName': 'My theme',
+  'themeEditor.accent': 'Accent',
+  'themeEditor.background': 'Background',
+  'themeEditor.card': 'Card',
+  'themeEditor.preview': 'Preview',
+  'themeEditor.previewJoke': 'Chuck Norris can divide by zero.',
+  'themeEditor.save': 'Save and apply',
+  'themeEditor.saveAsNew': 'Save as new',
+  'themeEditor.saved': 'Saved themes',
+  'themeEditor.noSaved': 'No saved themes yet.',
+  'themeEditor.apply': 'Apply {name}',
+  'themeEditor.edit': 'Edit {name}',
+  'themeEditor.delete': 'Delete {name}',
+  'themeEditor.reset': 'Use default colors',
+  'themeEditor.export': 'Export',
+  'themeEditor.import': 'Import',
+  'themeEditor.imported': {
+    one: 'Imported {count} theme',
+    other: 'Imported {count} themes',
+  },
+  'themeEditor.invalidFile': 'This file contains no valid themes.',
+
+  'status.loading': 'Loading...',
+  'status.retrying': 'Retrying ({attempt}/{maxAttempts})…',
+
+  'search.placeholder': '🔍 Search for a joke...',
+  'search.label': 'Search jokes',
+  'search.suggestions': 'Search suggestions',
+  'search.clearRecent': 'Clear recent queries',
+  'search.save': 'Save query',
+  'search.unsave': 'Remove saved query',
+  'search.submit': 'Search',
+  'search.lucky': "I'm feeling lucky",
+  'search.source': 'Search in',
+  'search.remote': 'Remote',
+  'search.local': 'My jokes ({count})',
+  'search.searching': 'Searching...',
+  'search.results': 'Search results',
+  'search.summary': {
+    one: '{count} result for "{query}"',
+    other: '{count} results for "{query}"',
+  },
+  'search.clear': 'Clear',
+  'search.sort': 'Sort results',
+  'search.sort.relevance': 'Relevance',
+  'search.sort.length': 'Shortest',
+  'search.sort.newest': 'Newest',
+  'search.sort.alphabetical': 'A–Z',
+  'search.pages': 'Results pages',
+  'search.previous': 'Previous',
+  'search.next': 'Next',
+  'search.page': 'Page {page} of {pageCount}',
+
+  'categories.placeholder': 'Select a category',
+  'categories.loading': 'Loading categories',
+  'categories.selected': 'Selected categories',
+  'categories.weight': 'Weight',
+  'categories.weightOf': 'Weight of {category}',
+  'categories.remove': 'Remove {category}',
+  'categories.safe': 'Safe',
+  'categories.sensitive': 'Sensitive (hidden in safe mode)',
+  'categories.next': 'Next joke',
+
+  'card.empty': 'No joke yet',
+  'card.matched': 'Matched: {terms}',
+  'card.category': 'Category: {category}',
+  'card.pickedFrom': '{category} (picked from {categories})',
+  'card.readAloud': 'Read aloud',
+  'card.stopReading': 'Stop reading',
+  'card.announce': 'New joke: {joke}',
+  'card.countdown': 'Time until the next joke',
+
+  'filter.category': 'Category',
+  'filter.all': 'All',
+  'filter.uncategorized': 'Uncategorized',
+  'list.open': 'Open',
+
+  'favorites.label': 'Favorites',
+  'favorites.add': 'Add to favorites',
+  'favorites.remove': 'Remove from favorites',
+  'favorites.removeEntry': 'Remove',
+  'favorites.empty': 'No favorites yet. Star a joke to keep it here.',
+
+  'history.previous': 'Previous joke',
+  'history.next': 'Next joke',
+  'history.toggle': {
+    one: 'History ({count} joke)',
+    other: 'History ({count} jokes)',
+  },
+  'history.keepLast': 'Keep last',
+  'history.clear': 'Clear history',
+  'history.empty': 'No jokes yet.',
+  'history.source.random': 'Random',
+  'history.source.category': 'Category: {category}',
+  'history.source.search': 'Search: "{query}"',
+  'history.source.id': 'Opened by id',
+
+  'jokeId.placeholder': 'Paste a joke id or URL...',
+  'jokeId.label': 'Joke id or URL',
+  'jokeId.submit': 'Load joke',
+  'jokeId.invalid': 'That is not a joke id or api.chucknorris.io joke URL.',
+
+  'noRepeat.label': 'No repeats',
+  'noRepeat.reset': 'Reset seen jokes ({count})',
+
+  'safeMode.label': 'Safe mode',
+  'safeMode.blocked': 'Blocked categories ({count})',
+  'safeMode.blockedList': 'Blocked categories',
+  'safeMode.reset': 'Reset to defaults',
+  'safeMode.hiddenJokes': {
+    one: '{count} joke is hidden by safe mode.',
+    other: '{count} jokes are hidden by safe mode.',
+  },
+
+  'share.button': 'Share',
+  'share.title': 'Chuck Norris joke',
+  'share.copyText': 'Copy text',
+  'share.copyMarkdown': 'Copy as Markdown',
+  'share.native': 'Share…',
+  'share.download': 'Download as PNG',
+  'share.copied': 'Copied!',
+  'share.copyFailed': 'Could not copy',
+  'share.shareFailed': 'Could not share',
+  'share.imageFailed': 'Could not create the image',
+
+  'rating.label': 'Rate this joke',
+  'rating.stars': {
+    one: '{count} star',
+    other: '{count} stars',
+  },
+  'leaderboard.label': 'Top rated jokes',
+  'leaderboard.avoid': {
+    one: 'Avoid random jokes rated {count} star or less',
+    other: 'Avoid random jokes rated {count} stars or less',
+  },
+  'leaderboard.empty': 'No ratings yet. Rate a joke to rank it here.',
+
+  'slideshow.label': 'Slideshow',
+  'slideshow.play': 'Play',
+  'slideshow.pause': 'Pause',
+  'slideshow.skip': 'Skip',
+  'slideshow.every': 'Every',
+  'slideshow.seconds': '{seconds} s',
+  'slideshow.from': 'From',
+  'slideshow.random': 'Random',
+  'slideshow.selection': 'Selected categories',
+
+  'speech.unsupported': 'Reading jokes aloud is not supported in this browser.',
+  'speech.autoRead': 'Read new jokes aloud',
+  'speech.settings': 'Voice settings',
+  'speech.voice': 'Voice',
+  'speech.defaultVoice': 'Browser default',
+  'speech.rate': 'Rate',
+  'speech.pitch': 'Pitch',
+
+  'batch.label': 'Joke batch',
+  'batch.count': 'Jokes',
+  'batch.from': 'From',
+  'batch.random': 'Random',
+  'batch.fetch': {
+    one: 'Get {count} joke',
+    other: 'Get {count} jokes',
+  },
+  'batch.clear': 'Clear grid',
+  'batch.loading': 'Loading joke',
+  'batch.failed.network': 'Could not reach the joke server.',
+  'batch.failed.timeout': 'The joke server took too long to respond.',
+  'batch.failed.http': 'The request failed (HTTP {status}).',
+  'batch.failed.exhausted': 'Only got jokes that are already in the grid.',
+  'batch.failed.blocked': 'Only got jokes hidden by safe mode.',
+  'batch.failed.other': 'This joke could not be loaded.',
+
+  'shortcuts.title': 'Keyboard shortcuts',
+  'shortcuts.close': 'Close',
+  'shortcuts.random': 'Next random joke',
+  'shortcuts.search': 'Focus search',
+  'shortcuts.nextCategory': 'Joke from the next category',
+  'shortcuts.previousCategory': 'Joke from the previous category',
+  'shortcuts.theme': 'Toggle light and dark theme',
+  'shortcuts.copy': 'Copy joke',
+  'shortcuts.copied': 'Copied!',
+  'shortcuts.copyFailed': 'Could not copy',
+  'shortcuts.help': 'Show keyboard shortcuts',
+  'shortcuts.palette': 'Open command palette',
+  'palette.label': 'Command palette',
+  'palette.placeholder': 'Type a command or category...',
+  'palette.commands': 'Commands',
+  'palette.empty': 'No matching commands',
+  'palette.category': 'Show a joke from {category}',
+
+  'error.network': 'Could not reach the joke server. Check your connection.',
+  'error.timeout': 'The joke server took too long to respond.',
+  'error.tooManyRequests': 'Too many requests. Wait a moment and try again.',
+  'error.serverError': 'The joke server is having trouble (HTTP {status}).',
+  'error.rejected': 'The request was rejected (HTTP {status}).',
+  'error.invalidPayload':
+    'The joke server sent a response we could not understand.',
+  'error.emptySearch': 'No jokes match "{query}". Try another word.',
+  'error.invalidCategory': 'The category "{category}" does not exist.',
+  'error.notFound': 'There is no joke with the id "{id}".',
+  'error.exhausted': 'You have seen every joke we could find.',
+  'error.exhaustedCategory':
+    'You have seen every joke we could find in "{category}".',
+  'error.blocked': 'Safe mode hid every joke we fetched.',
+  'error.blockedCategory': 'The category "{category}" is hidden in safe mode.',
+  'error.blockedQuery': 'Every joke matching "{query}" is hidden in safe mode.',
+  'error.blockedId': 'The joke "{id}" is hidden in safe mode.',
+  'error.retry': 'Retry',
+  'error.random': 'Random joke instead',
+  'error.reloadCategories': 'Reload categories',
+  'error.resetSeen': 'Reset seen jokes',
+} satisfies Record<string, Message>;
+
+/** Key of a translated message. */
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,271 @@
+import type { Message, MessageKey } from './en';
+
+/**
+ * Slovak messages.
+ */
+export const sk: Record<MessageKey, Message> = {
+  'app.title': 'Vtipy o Chuckovi Norrisovi',
+  'home.favorites': 'Obľúbené ({count})',
+  'home.topRated': 'Najlepšie hodnotené ({count})',
+  'home.back': 'Späť na vtipy',
+
+  'theme.toggle': 'Prepnúť vzhľad',
+  'theme.light': 'Svetlý',
+  'theme.dark': 'Tmavý',
+  'theme.system': 'Podľa systému',
+  'language.change': 'Zmeniť jazyk',
+  'theme.custom': 'Farebné motívy',
+  'theme.customize': 'Upraviť farby…',
+  'theme.preset.high-contrast': 'Vysoký kontrast',
+  'theme.preset.ocean': 'Oceán',
+  'theme.preset.forest': 'Les',
+  'theme.preset.sepia': 'Sépia',
+  'themeEditor.title': 'Editor motívov',
+  'themeEditor.presets': 'Začať z predvoľby',
+  'themeEditor.name': 'Názov',
+  'themeEditor.defaultName': 'Môj motív',
+  'themeEditor.accent': 'Zvýraznenie',
+  'themeEditor.background': 'Pozadie',
+  'themeEditor.card': 'Karta',
+  'themeEditor.preview': 'Náhľad',
+  'themeEditor.previewJoke': 'Chuck Norris vie deliť nulou.',
+  'themeEditor.save': 'Uložiť a použiť',
+  'themeEditor.saveAsNew': 'Uložiť ako nový',
+  'themeEditor.saved': 'Uložené motívy',
+  'themeEditor.noSaved': 'Zatiaľ žiadne uložené motívy.',
+  'themeEditor.apply': 'Použiť {name}',
+  'themeEditor.edit': 'Upraviť {name}',
+  'themeEditor.delete': 'Odstrániť {name}',
+  'themeEditor.reset': 'Použiť predvolené farby',
+  'themeEditor.export': 'Exportovať',
+  'themeEditor.import': 'Importovať',
+  'themeEditor.imported': {
+    one: 'Importovaný {count} motív',
+    few: 'Importované {count} motívy',
+    other: 'Importovaných {count} motívov',
+  },
+  'themeEditor.invalidFile': 'Tento súbor neobsahuje žiadne platné motívy.',
+
+  'status.loading': 'Načítava sa...',
+  'status.retrying': 'Skúšam znova ({attempt}/{maxAttempts})…',
+
+  'search.placeholder': '🔍 Hľadať vtip...',
+  'search.label': 'Hľadať vtipy',
+  'search.suggestions': 'Návrhy hľadania',
+  'search.clearRecent': 'Vymazať nedávne hľadania',
+  'search.save': 'Uložiť hľadanie',
+  'search.unsave': 'Odstrániť uložené hľadanie',
+  'search.submit': 'Hľadať',
+  'search.lucky': 'Skúsim šťastie',
+  'search.source': 'Hľadať v',
+  'search.remote': 'Na serveri',
+  'search.local': 'Moje vtipy ({count})',
+  'search.searching': 'Hľadá sa...',
+  'search.results': 'Výsledky hľadania',
+  'search.summary': {
+    one: '{count} výsledok pre „{query}“',
+    few: '{count} výsledky pre „{query}“',
+    many: '{count} výsledku pre „{query}“',
+    other: '{count} výsledkov pre „{query}“',
+  },
+  'search.clear': 'Zrušiť',
+  'search.sort': 'Zoradiť výsledky',
+  'search.sort.relevance': 'Relevancia',
+  'search.sort.length': 'Najkratšie',
+  'search.sort.newest': 'Najnovšie',
+  'search.sort.alphabetical': 'A–Z',
+  'search.pages': 'Strany výsledkov',
+  'search.previous': 'Predchádzajúca',
+  'search.next': 'Ďalšia',
+  'search.page': 'Strana {page} z {pageCount}',
+
+  'categories.placeholder': 'Vyberte kategóriu',
+  'categories.loading': 'Načítavajú sa kategórie',
+  'categories.selected': 'Vybrané kategórie',
+  'categories.weight': 'Váha',
+  'categories.weightOf': 'Váha kategórie {category}',
+  'categories.remove': 'Odstrániť {category}',
+  'categories.safe': 'Bezpečné',
+  'categories.sensitive': 'Citlivé (skryté v bezpečnom režime)',
+  'categories.next': 'Ďalší vtip',
+
+  'card.empty': 'Zatiaľ žiadny vtip',
+  'card.matched': 'Nájdené: {terms}',
+  'card.category': 'Kategória: {category}',
+  'card.pickedFrom': '{category} (vybrané z {categories})',
+  'card.readAloud': 'Prečítať nahlas',
+  'card.stopReading': 'Zastaviť čítanie',
+  'card.announce': 'Nový vtip: {joke}',
+  'card.countdown': 'Čas do ďalšieho vtipu',
+
+  'filter.category': 'Kategória',
+  'filter.all': 'Všetky',
+  'filter.uncategorized': 'Bez kategórie',
+  'list.open': 'Otvoriť',
+
+  'favorites.label': 'Obľúbené',
+  'favorites.add': 'Pridať medzi obľúbené',
+  'favorites.remove': 'Odstrániť z obľúbených',
+  'favorites.removeEntry': 'Odstrániť',
+  'favorites.empty':
+    'Zatiaľ žiadne obľúbené. Označte vtip hviezdičkou a uložte si ho sem.',
+
+  'history.previous': 'Predchádzajúci vtip',
+  'history.next': 'Ďalší vtip',
+  'history.toggle': {
+    one: 'História ({count} vtip)',
+    few: 'História ({count} vtipy)',
+    other: 'História ({count} vtipov)',
+  },
+  'history.keepLast': 'Uchovať posledných',
+  'history.clear': 'Vymazať históriu',
+  'history.empty': 'Zatiaľ žiadne vtipy.',
+  'history.source.random': 'Náhodný',
+  'history.source.category': 'Kategória: {category}',
+  'history.source.search': 'Hľadanie: „{query}“',
+  'history.source.id': 'Otvorený podľa id',
+
+  'jokeId.placeholder': 'Vložte id alebo URL vtipu...',
+  'jokeId.label': 'Id alebo URL vtipu',
+  'jokeId.submit': 'Načítať vtip',
+  'jokeId.invalid': 'Toto nie je id vtipu ani URL vtipu z api.chucknorris.io.',
+
+  'noRepeat.label': 'Bez opakovania',
+  'noRepeat.reset': 'Zabudnúť videné vtipy ({count})',
+
+  'safeMode.label': 'Bezpečný režim',
+  'safeMode.blocked': 'Blokované kategórie ({count})',
+  'safeMode.blockedList': 'Blokované kategórie',
+  'safeMode.reset': 'Obnoviť predvolené',
+  'safeMode.hiddenJokes': {
+    one: 'Bezpečný režim skrýva {count} vtip.',
+    few: 'Bezpečný režim skrýva {count} vtipy.',
+    other: 'Bezpečný režim skrýva {count} vtipov.',
+  },
+
+  'share.button': 'Zdieľať',
+  'share.title': 'Vtip o Chuckovi Norrisovi',
+  'share.copyText': 'Kopírovať text',
+  'share.copyMarkdown': 'Kopírovať ako Markdown',
+  'share.native': 'Zdieľať…',
+  'share.download': 'Stiahnuť ako PNG',
+  'share.copied': 'Skopírované!',
+  'share.copyFailed': 'Nepodarilo sa skopírovať',
+  'share.shareFailed': 'Nepodarilo sa zdieľať',
+  'share.imageFailed': 'Obrázok sa nepodarilo vytvoriť',
+
+  'rating.label': 'Ohodnoťte tento vtip',
+  'rating.stars': {
+    one: '{count} hviezdička',
+    few: '{count} hviezdičky',
+    other: '{count} hviezdičiek',
+  },
+  'leaderboard.label': 'Najlepšie hodnotené vtipy',
+  'leaderboard.avoid': {
+    one: 'Vynechať náhodné vtipy hodnotené {count} hviezdičkou alebo menej',
+    other: 'Vynechať náhodné vtipy hodnotené {count} hviezdičkami alebo menej',
+  },
+  'leaderboard.empty':
+    'Zatiaľ žiadne hodnotenia. Ohodnoťte vtip a zaradí sa sem.',
+
+  'slideshow.label': 'Prezentácia',
+  'slideshow.play': 'Spustiť',
+  'slideshow.pause': 'Pozastaviť',
+  'slideshow.skip': 'Preskočiť',
+  'slideshow.every': 'Každých',
+  'slideshow.seconds': '{seconds} s',
+  'slideshow.from': 'Zdroj',
+  'slideshow.random': 'Náhodné',
+  'slideshow.selection': 'Vybrané kategórie',
+
+  'speech.unsupported': 'Tento prehliadač nevie čítať vtipy nahlas.',
+  'speech.autoRead': 'Čítať nové vtipy nahlas',
+  'speech.settings': 'Nastavenia hlasu',
+  'speech.voice': 'Hlas',
+  'speech.defaultVoice': 'Predvolený v prehliadači',
+  'speech.rate': 'Rýchlosť',
+  'speech.pitch': 'Výška',
+
+  'batch.label': 'Dávka vtipov',
+  'batch.count': 'Vtipy',
+  'batch.from': 'Zdroj',
+  'batch.random': 'Náhodné',
+  'batch.fetch': {
+    one: 'Načítať {count} vtip',
+    few: 'Načítať {count} vtipy',
+    other: 'Načítať {count} vtipov',
+  },
+  'batch.clear': 'Vyčistiť mriežku',
+  'batch.loading': 'Načítava sa vtip',
+  'batch.failed.network': 'Nepodarilo sa spojiť so serverom vtipov.',
+  'batch.failed.timeout': 'Server vtipov odpovedal príliš dlho.',
+  'batch.failed.http': 'Požiadavka zlyhala (HTTP {status}).',
+  'batch.failed.exhausted': 'Prišli len vtipy, ktoré už v mriežke sú.',
+  'batch.failed.blocked': 'Prišli len vtipy skryté bezpečným režimom.',
+  'batch.failed.other': 'Tento vtip sa nepodarilo načítať.',
+
+  'shortcuts.title': 'Klávesové skratky',
+  'shortcuts.close': 'Zavrieť',
+  'shortcuts.random': 'Ďalší náhodný vtip',
+  'shortcuts.search': 'Prejsť na hľadanie',
+  'shortcuts.nextCategory': 'Vtip z ďalšej kategórie',
+  'shortcuts.previousCategory': 'Vtip z predchádzajúcej kategórie',
+  'shortcuts.theme': 'Prepnúť svetlý a tmavý vzhľad',
+  'shortcuts.copy': 'Kopírovať vtip',
+  'shortcuts.copied': 'Skopírované!',
+  'shortcuts.copyFailed': 'Nepodarilo sa skopírovať',
+  'shortcuts.help': 'Zobraziť klávesové skratky',
+  'shortcuts.palette': 'Otvoriť paletu príkazov',
+  'palette.label': 'Paleta príkazov',
+  'palette.placeholder': 'Zadajte príkaz alebo kategóriu...',
+  'palette.commands': 'Príkazy',
+  'palette.empty': 'Žiadne zodpovedajúce príkazy',
+  'palette.category': 'Zobraziť vtip z kategórie {category}',
+
+  'error.network':
+    'Nepodarilo sa spojiť so serverom vtipov. Skontrolujte pripojenie.',
+  'error.timeout': 'Server vtipov odpovedal príliš pomaly.',
+  'error.tooManyRequests':
+    'Príliš veľa požiadaviek. Chvíľu počkajte a skúste to znova.',
+  'error.serverError': 'Server vtipov má problémy (HTTP {status}).',
+  'error.rejected': 'Požiadavka bola odmietnutá (HTTP {status}).',
+  'error.invalidPayload': 'Server vtipov poslal odpoveď, ktorej nerozumieme.',
+  'error.emptySearch': 'Slovu „{query}“ nezodpovedá žiadny vtip. Skúste iné.',
+  'error.invalidCategory': 'Kategória „{category}“ neexistuje.',
+  'error.notFound': 'Vtip s id „{id}“ neexistuje.',
+  'error.exhausted': 'Videli ste už všetky vtipy, ktoré sme našli.',
+  'error.exhaustedCategory':
+    'Videli ste už všetky vtipy, ktoré sme našli v kategórii „{category}“.',
+  'error.blocked': 'Bezpečný režim skryl všetky načítané vtipy.',
+  'error.blockedCategory':
+    'Kategória „{category}“ je v bezpečnom režime skrytá.',
+  'error.blockedQuery':
+    'Všetky vtipy zodpovedajúce „{query}“ sú v bezpečnom režime skryté.',
+  'error.blockedId': 'Vtip „{id}“ je v bezpečnom režime skrytý.',
+  'error.retry': 'Skúsiť znova',
+  'error.random': 'Radšej náhodný vtip',
+  'error.reloadCategories': 'Znova načítať kategórie',
+  'error.resetSeen': 'Zabudnúť videné vtipy',
+};
+
+/**
+ * Slovak names of the API's joke categories.
+ */
+export const skCategories: Record<string, string> = {
+  animal: 'zvieratá',
+  career: 'kariéra',
+  celebrity: 'celebrity',
+  dev: 'programovanie',
+  explicit: 'explicitné',
+  fashion: 'móda',
+  food: 'jedlo',
+  history: 'história',
+  money: 'peniaze',
+  movie: 'filmy',
+  music: 'hudba',
+  political: 'politika',
+  religion: 'náboženstvo',
+  science: 'veda',
+  sport: 'šport',
+  travel: 'cestovanie',
+};
@@ -0,0 +1,122 @@
+import type { Locale } from '@/types/jokeTypes';
+import { en, type Message, type MessageKey } from './en';
+import { sk, skCategories } from './sk';
+
+/** Parameters interpolated into a message; `count` also picks the plural form. */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Supported locales with their names, written in their own language.
+ */
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'sk', label: 'Slovenčina' },
+];
+
+/** Locale used when the browser prefers none of the supported ones. */
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** Messages and category names of each locale. */
+const CATALOGS: Record<
+  Locale,
+  {
+    messages: Record<MessageKey, Message>;
+    categories: Record<string, string>;
+  }
+> = {
+  en: { messages: en, categories: {} },
+  sk: { messages: sk, categories: skCategories },
+};
+
+/**
+ * Whether a value is one of the supported locales.
+ *
+ * @function isLocale
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} `true` for a supported locale.
+ */
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some((l) => l.value === value);
+}
+
+/**
+ * Pick the first supported locale from the browser's preferred languages,
+ * ignoring regions (`sk-SK` is Slovak).
+ *
+ * @function detectLocale
+ * @param {readonly string[]} languages - Preferred languages, e.g. `navigator.languages`.
+ * @returns {Locale} The matching locale, or `DEFAULT_LOCALE`.
+ */
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Translate a message, choosing its plural form by the `count` parameter and
+ * replacing its `{name}` placeholders. Unknown placeholders are left as is.
+ *
+ * @function translate
+ * @param {Locale} locale - The language to translate to.
+ * @param {MessageKey} key - The message to translate.
+ * @param {MessageParams} [params={}] - Values of the placeholders.
+ * @returns {string} The translated text.
+ */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params: MessageParams = {}
+): string {
+  const message = CATALOGS[locale].messages[key];
+  const template =
+    typeof message === 'string'
+      ? message
+      : (message[
+          new Intl.PluralRules(locale).select(Number(params.count ?? 0))
+        ] ?? message.other);
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Display name of a joke category. Categories without a translation keep
+ * the name used by the API.
+ *
+ * @function categoryName
+ * @param {Locale} locale - The language to translate to.
+ * @param {string} category - The category as named by the API.
+ * @returns {string} The localized name.
+ */
+export function categoryName(locale: Locale, category: string): string {
+  return CATALOGS[locale].categories[category] ?? category;
+}
+
+/**
+ * Label of a joke's categories in the UI language. A joke from a
+ * multi-category selection also names the categories it was picked from.
+ *
+ * @function categoryLabel
+ * @param {Locale} locale - The language to translate to.
+ * @param {string} category - Comma-separated categories as named by the API.
+ * @param {string[] | null} [pickedFrom=null] - Categories the joke was picked from.
+ * @returns {string} The localized label.
+ */
+export function categoryLabel(
+  locale: Locale,
+  category: string,
+  pickedFrom: string[] | null = null
+): string {
+  const label = category
+    .split(', ')
+    .map((name) => categoryName(locale, name))
+    .join(', ');
+  if (!pickedFrom) return label;
+  return translate(locale, 'card.pickedFrom', {
+    category: label,
+    categories: pickedFrom.map((name) => categoryName(locale, name)).join(', '),
+  });
+}
@@ -0,0 +1,36 @@
+/** Characters upstream joke ids are made of. */
+const JOKE_ID_PATTERN = /^[\w-]+$/;
+
+/** Endpoints under `/jokes/` that look like ids but are not. */
+const RESERVED_PATHS = new Set(['random', 'search', 'categories']);
+
+/** Hosts whose `/jokes/{id}` URLs point at a joke. */
+const JOKE_HOST_PATTERN = /(^|\.)chucknorris\.io$/;
+
+/**
+ * Extract a joke id from user input.
+ *
+ * Accepts a bare id (`abc123`) or a joke URL as sent in the `url` field of the
+ * API (`https://api.chucknorris.io/jokes/abc123`).
+ *
+ * @function parseJokeId
+ * @param {string} input - What the user pasted.
+ * @returns {string | null} The id, or `null` if the input is neither.
+ */
+export function parseJokeId(input: string): string | null {
+  const value = input.trim();
+  if (JOKE_ID_PATTERN.test(value)) {
+    return RESERVED_PATHS.has(value) ? null : value;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+  if (!JOKE_HOST_PATTERN.test(url.hostname)) return null;
+
+  const id = url.pathname.match(/^\/jokes\/([\w-]+)\/?$/)?.[1];
+  return id && !RESERVED_PATHS.has(id) ? id : null;
+}
@@ -0,0 +1,27 @@
+/**
+ * Pick a random item with a chance proportional to its weight.
+ *
+ * Items with a weight of zero or less are never picked.
+ *
+ * @function pickWeighted
+ * @param {T[]} items - The candidates.
+ * @param {(item: T) => number} weightOf - Returns the weight of an item.
+ * @param {() => number} [random=Math.random] - Source of randomness in `[0, 1)`.
+ * @returns {T | null} The picked item, or `null` if no item has a positive weight.
+ */
+export function pickWeighted<T>(
+  items: T[],
+  weightOf: (item: T) => number,
+  random: () => number = Math.random
+): T | null {
+  const candidates = items.filter((item) => weightOf(item) > 0);
+  const total = candidates.reduce((sum, item) => sum + weightOf(item), 0);
+  if (total === 0) return null;
+
+  let remaining = random() * total;
+  for (const item of candidates) {
+    remaining -= weightOf(item);
+    if (remaining < 0) return item;
+  }
+  return candidates[candidates.length - 1];
+}
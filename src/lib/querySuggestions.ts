@@ -0,0 +1,47 @@
+import type { SearchHistoryState } from '@/types/jokeTypes';
+
+/**
+ * A query offered in the search dropdown.
+ *
+ * @typedef {Object} QuerySuggestion
+ * @property {string} query - The suggested query.
+ * @property {boolean} saved - Whether the user saved it (otherwise it is recent).
+ */
+export interface QuerySuggestion {
+  query: string;
+  saved: boolean;
+}
+
+/**
+ * List the saved and recent queries matching what the user has typed.
+ *
+ * Saved queries come first, then recent ones. A query matches if it contains
+ * the typed text (case-insensitive) without being equal to it.
+ *
+ * @function suggestQueries
+ * @param {SearchHistoryState} history - The saved and recent queries.
+ * @param {string} input - What the user has typed so far.
+ * @param {number} [limit=8] - Maximum number of suggestions.
+ * @returns {QuerySuggestion[]} The suggestions, without duplicates.
+ */
+export function suggestQueries(
+  { saved, recent }: SearchHistoryState,
+  input: string,
+  limit = 8
+): QuerySuggestion[] {
+  const needle = input.trim().toLowerCase();
+  const seen = new Set<string>();
+  const suggestions: QuerySuggestion[] = [];
+
+  const candidates = [
+    ...saved.map((query) => ({ query, saved: true })),
+    ...recent.map((query) => ({ query, saved: false })),
+  ];
+  for (const candidate of candidates) {
+    const key = candidate.query.toLowerCase();
+    if (seen.has(key) || key === needle || !key.includes(needle)) continue;
+    seen.add(key);
+    suggestions.push(candidate);
+  }
+  return suggestions.slice(0, limit);
+}
@@ -0,0 +1,125 @@
+import { matchPath } from 'react-router';
+import type { JokeRequest, JokesState } from '@/types/jokeTypes';
+
+/** Route patterns of the app. */
+export const ROUTES = {
+  home: '/',
+  joke: '/joke/:id',
+  category: '/category/:name',
+  search: '/search',
+} as const;
+
+/**
+ * Build the shareable path of a specific joke.
+ *
+ * @function jokePath
+ * @param {string} id - Upstream joke id.
+ * @returns {string} e.g. `/joke/abc123`.
+ */
+export const jokePath = (id: string) => `/joke/${encodeURIComponent(id)}`;
+
+/**
+ * Build the path that loads a random joke from a category.
+ *
+ * @function categoryPath
+ * @param {string} name - Category name.
+ * @returns {string} e.g. `/category/dev`.
+ */
+export const categoryPath = (name: string) =>
+  `/category/${encodeURIComponent(name)}`;
+
+/**
+ * Build the path that lists the results of a search.
+ *
+ * @function searchPath
+ * @param {string} query - The search term.
+ * @returns {string} e.g. `/search?q=kick`.
+ */
+export const searchPath = (query: string) =>
+  `${ROUTES.search}?${new URLSearchParams({ q: query })}`;
+
+/**
+ * Decode a path segment, keeping it as is if it is not valid URI encoding.
+ *
+ * @param {string} segment - Raw path segment.
+ * @returns {string} The decoded segment.
+ */
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Work out which request a URL stands for.
+ *
+ * Unknown paths and searches without a query fall back to a random joke.
+ *
+ * @function requestFromLocation
+ * @param {{ pathname: string, search: string }} location - The current location.
+ * @returns {JokeRequest} The request to dispatch for the URL.
+ */
+export function requestFromLocation({
+  pathname,
+  search,
+}: {
+  pathname: string;
+  search: string;
+}): JokeRequest {
+  const joke = matchPath(ROUTES.joke, pathname);
+  if (joke?.params.id) return { type: 'id', id: decodeSegment(joke.params.id) };
+
+  const category = matchPath(ROUTES.category, pathname);
+  if (category?.params.name) {
+    return {
+      type: 'category',
+      category: decodeSegment(category.params.name),
+    };
+  }
+
+  if (matchPath(ROUTES.search, pathname)) {
+    const query = new URLSearchParams(search).get('q')?.trim();
+    if (query) return { type: 'search', query };
+  }
+
+  return { type: 'random' };
+}
+
+/**
+ * Work out the URL that describes what is currently shown.
+ *
+ * Search results take precedence over the joke card; loading a joke any
+ * other way drops them, so the path follows the user's latest action. A joke
+ * loaded from a category links to the category; any other joke links to
+ * itself.
+ *
+ * @function pathFromState
+ * @param {JokesState} jokes - The jokes state.
+ * @returns {string | null} The path, or `null` while loading or when nothing is shown.
+ */
+export function pathFromState({
+  joke,
+  category,
+  requests,
+  lastRequests,
+  searchQuery,
+}: JokesState): string | null {
+  if (
+    requests.joke.status === 'pending' ||
+    requests.search.status === 'pending'
+  )
+    return null;
+  if (searchQuery !== null) return searchPath(searchQuery);
+
+  const last = lastRequests.joke;
+  if (
+    last?.type === 'category' &&
+    requests.joke.status === 'succeeded' &&
+    category === last.category
+  ) {
+    return categoryPath(last.category);
+  }
+  return joke ? jokePath(joke.id) : null;
+}
@@ -0,0 +1,112 @@
+import type { Joke, SafeModeState } from '@/types/jokeTypes';
+
+/** Categories hidden in safe mode unless the user changes the blocklist. */
+export const DEFAULT_BLOCKED_CATEGORIES = ['explicit', 'political', 'religion'];
+
+/** Offensive word stems, masked wherever they appear inside a word. */
+const PROFANE_STEMS = ['fuck', 'shit', 'motherf'];
+
+/** Offensive words, masked only as whole words (with plural/verb endings). */
+const PROFANE_WORDS = [
+  'ass',
+  'asses',
+  'asshole',
+  'bastard',
+  'bitch',
+  'bitches',
+  'boner',
+  'cock',
+  'crap',
+  'cunt',
+  'damn',
+  'dick',
+  'dildo',
+  'jizz',
+  'piss',
+  'pissed',
+  'porn',
+  'pussy',
+  'slut',
+  'tits',
+  'twat',
+  'whore',
+];
+
+const PROFANITY_PATTERN = new RegExp(
+  [
+    `\\b\\w*(?:${PROFANE_STEMS.join('|')})\\w*\\b`,
+    `\\b(?:${PROFANE_WORDS.join('|')})(?:s|es|ed|ing)?\\b`,
+  ].join('|'),
+  'gi'
+);
+
+/**
+ * Check whether a text contains a word from the profanity list.
+ *
+ * @function containsProfanity
+ * @param {string} text - The text to check.
+ * @returns {boolean} `true` if at least one word would be masked.
+ */
+export function containsProfanity(text: string): boolean {
+  PROFANITY_PATTERN.lastIndex = 0;
+  return PROFANITY_PATTERN.test(text);
+}
+
+/**
+ * Replace every profane word with its first letter followed by asterisks,
+ * e.g. `damn` becomes `d***`.
+ *
+ * @function maskProfanity
+ * @param {string} text - The text to mask.
+ * @returns {string} The masked text.
+ */
+export function maskProfanity(text: string): string {
+  return text.replace(
+    PROFANITY_PATTERN,
+    (word) => word[0] + '*'.repeat(word.length - 1)
+  );
+}
+
+/**
+ * Check whether a joke belongs to a blocked category.
+ *
+ * @function isJokeBlocked
+ * @param {Joke} joke - The joke to check.
+ * @param {string[]} blockedCategories - Categories hidden in safe mode.
+ * @returns {boolean} `true` if any of the joke's categories is blocked.
+ */
+export function isJokeBlocked(
+  joke: Joke,
+  blockedCategories: string[]
+): boolean {
+  return joke.categories.some((c) => blockedCategories.includes(c));
+}
+
+/**
+ * Mask the profanity in a joke's text.
+ *
+ * @function maskJoke
+ * @param {Joke} joke - The joke to mask.
+ * @returns {Joke} The joke itself if it is clean, otherwise a masked copy.
+ */
+export function maskJoke(joke: Joke): Joke {
+  return containsProfanity(joke.value)
+    ? { ...joke, value: maskProfanity(joke.value) }
+    : joke;
+}
+
+/**
+ * Apply the safe mode to a joke about to be displayed, e.g. one stored
+ * before safe mode was turned on.
+ *
+ * @function safeJoke
+ * @param {Joke} joke - The joke to display.
+ * @param {SafeModeState} safeMode - The safe mode settings.
+ * @returns {Joke | null} The joke, masked while safe mode is on, or `null` if its category is blocked.
+ */
+export function safeJoke(joke: Joke, safeMode: SafeModeState): Joke | null {
+  if (!safeMode.enabled) return joke;
+  return isJokeBlocked(joke, safeMode.blockedCategories)
+    ? null
+    : maskJoke(joke);
+}
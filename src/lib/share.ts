@@ -0,0 +1,202 @@
+import type { Joke } from '@/types/jokeTypes';
+
+/**
+ * Colors used to draw a joke image.
+ *
+ * @typedef {Object} ImageColors
+ * @property {string} background - Card background.
+ * @property {string} foreground - Joke text.
+ * @property {string} muted - Category and footer text.
+ */
+export interface ImageColors {
+  background: string;
+  foreground: string;
+  muted: string;
+}
+
+/** Width of exported images in pixels. */
+const IMAGE_WIDTH = 1080;
+/** Space around the text in pixels. */
+const IMAGE_PADDING = 72;
+/** Size of the joke text in pixels. */
+const JOKE_FONT_SIZE = 44;
+/** Size of the category and footer text in pixels. */
+const META_FONT_SIZE = 28;
+/** Line height relative to the font size. */
+const LINE_HEIGHT = 1.4;
+/** Font stack used for all text. */
+const FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", sans-serif';
+/** How long (ms) a downloaded image stays readable before its URL is revoked. */
+const DOWNLOAD_URL_LIFETIME_MS = 1000;
+
+/**
+ * Format a joke as plain text.
+ *
+ * @function formatJokeText
+ * @param {Joke} joke - The joke to share.
+ * @returns {string} The joke text.
+ */
+export const formatJokeText = (joke: Joke) => joke.value;
+
+/**
+ * Format a joke as a Markdown quote linking to its source.
+ *
+ * @function formatJokeMarkdown
+ * @param {Joke} joke - The joke to share.
+ * @param {string | null} category - Category label to include, if any.
+ * @param {string} title - Text of the source link, in the UI language.
+ * @returns {string} The Markdown snippet.
+ */
+export function formatJokeMarkdown(
+  joke: Joke,
+  category: string | null,
+  title: string
+) {
+  const quote = joke.value
+    .split('\n')
+    .map((line) => `> ${line}`)
+    .join('\n');
+  const label = category ? ` (${category})` : '';
+  return `${quote}\n\n— [${title}](${joke.url})${label}`;
+}
+
+/**
+ * Read the card colors of the current theme from the CSS variables.
+ *
+ * @function readThemeColors
+ * @param {Element} [root=document.documentElement] - Element carrying the theme class.
+ * @returns {ImageColors} The resolved colors, with light-theme fallbacks.
+ */
+export function readThemeColors(
+  root: Element = document.documentElement
+): ImageColors {
+  const style = getComputedStyle(root);
+  const read = (name: string, fallback: string) =>
+    style.getPropertyValue(name).trim() || fallback;
+
+  return {
+    background: read('--card', '#ffffff'),
+    foreground: read('--card-foreground', '#09090b'),
+    muted: read('--muted-foreground', '#71717a'),
+  };
+}
+
+/**
+ * Break text into lines that fit a maximum width.
+ *
+ * @function wrapText
+ * @param {Pick<CanvasRenderingContext2D, 'measureText'>} ctx - Context configured with the font.
+ * @param {string} text - The text to wrap.
+ * @param {number} maxWidth - Available width in pixels.
+ * @returns {string[]} The lines; words longer than a line are kept whole.
+ */
+export function wrapText(
+  ctx: Pick<CanvasRenderingContext2D, 'measureText'>,
+  text: string,
+  maxWidth: number
+): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Draw a joke card onto a new canvas.
+ *
+ * The height grows with the number of text lines.
+ *
+ * @function renderJokeImage
+ * @param {Joke} joke - The joke to draw.
+ * @param {string | null} caption - Line drawn below the joke, e.g. the translated category label.
+ * @param {ImageColors} colors - Theme colors.
+ * @returns {HTMLCanvasElement} The drawn canvas.
+ * @throws {Error} If the browser cannot create a 2D context.
+ */
+export function renderJokeImage(
+  joke: Joke,
+  caption: string | null,
+  colors: ImageColors
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+
+  const jokeFont = `600 ${JOKE_FONT_SIZE}px ${FONT_FAMILY}`;
+  const metaFont = `${META_FONT_SIZE}px ${FONT_FAMILY}`;
+  const jokeLine = JOKE_FONT_SIZE * LINE_HEIGHT;
+  const metaLine = META_FONT_SIZE * LINE_HEIGHT;
+
+  ctx.font = jokeFont;
+  const lines = wrapText(ctx, joke.value, IMAGE_WIDTH - 2 * IMAGE_PADDING);
+  const metaLines = caption ? 2 : 1;
+
+  // Resizing resets the context, so the font is set again below
+  canvas.width = IMAGE_WIDTH;
+  canvas.height = Math.ceil(
+    2 * IMAGE_PADDING + lines.length * jokeLine + metaLine * (metaLines + 1)
+  );
+
+  ctx.fillStyle = colors.background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.textBaseline = 'top';
+
+  let y = IMAGE_PADDING;
+  ctx.font = jokeFont;
+  ctx.fillStyle = colors.foreground;
+  for (const line of lines) {
+    ctx.fillText(line, IMAGE_PADDING, y);
+    y += jokeLine;
+  }
+
+  y += metaLine;
+  ctx.font = metaFont;
+  ctx.fillStyle = colors.muted;
+  if (caption) {
+    ctx.fillText(caption, IMAGE_PADDING, y);
+    y += metaLine;
+  }
+  ctx.fillText('api.chucknorris.io', IMAGE_PADDING, y);
+
+  return canvas;
+}
+
+/**
+ * Render a joke image and download it as a PNG file.
+ *
+ * @async
+ * @function downloadJokeImage
+ * @param {Joke} joke - The joke to export.
+ * @param {string | null} caption - Line drawn below the joke, if any.
+ * @returns {Promise<void>} Resolves once the download was started.
+ * @throws {Error} If the image cannot be rendered or encoded.
+ */
+export async function downloadJokeImage(
+  joke: Joke,
+  caption: string | null
+): Promise<void> {
+  const canvas = renderJokeImage(joke, caption, readThemeColors());
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, 'image/png')
+  );
+  if (!blob) throw new Error('Could not encode the joke image');
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `chuck-norris-joke-${joke.id}.png`;
+  link.click();
+  // Revoking right after the click can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+}
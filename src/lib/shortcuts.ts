@@ -0,0 +1,86 @@
+/** Id of the search input, focused by the `/` shortcut. */
+export const SEARCH_INPUT_ID = 'search-input';
+
+/**
+ * Whether a key event matches a shortcut.
+ *
+ * Shortcuts are written as the `KeyboardEvent.key` they expect (`n`, `/`,
+ * `?`), optionally prefixed with `Mod+` for Ctrl, or Cmd on macOS
+ * (`Mod+k`). Plain shortcuts ignore keys pressed with Ctrl, Cmd or Alt, so
+ * browser shortcuts keep working; Shift is allowed since it produces keys
+ * like `?`.
+ *
+ * @function matchesShortcut
+ * @param {Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey'>} event - The key event.
+ * @param {string} shortcut - The shortcut.
+ * @returns {boolean} `true` if the event triggers the shortcut.
+ */
+export function matchesShortcut(
+  event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey'>,
+  shortcut: string
+): boolean {
+  const mod = event.ctrlKey || event.metaKey;
+  if (shortcut.startsWith('Mod+')) {
+    return (
+      mod && !event.altKey && event.key.toLowerCase() === shortcut.slice(4)
+    );
+  }
+  return !mod && !event.altKey && event.key === shortcut;
+}
+
+/**
+ * Whether a key event comes from a field the user types into, where plain
+ * shortcuts must not fire.
+ *
+ * @function isEditableTarget
+ * @param {EventTarget | null} target - The event target.
+ * @returns {boolean} `true` for text inputs, text areas, selects and editable content.
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLInputElement) {
+    return !['checkbox', 'radio', 'button', 'submit', 'range'].includes(
+      target.type
+    );
+  }
+  return (
+    target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement
+  );
+}
+
+/**
+ * Whether a key event comes from a widget that handles letter keys itself,
+ * such as the typeahead of the category picker, where plain shortcuts must
+ * not fire either: a combobox, a listbox, an option or an open popup.
+ *
+ * @function isWidgetTarget
+ * @param {EventTarget | null} target - The event target.
+ * @returns {boolean} `true` inside comboboxes, listboxes, options and popups.
+ */
+export function isWidgetTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof Element)) return false;
+  return (
+    target.closest(
+      '[role="combobox"], [role="listbox"], [role="option"], [data-radix-popper-content-wrapper]'
+    ) !== null
+  );
+}
+
+/**
+ * Format a shortcut for display, e.g. `Mod+k` as `Ctrl+K`, or `⌘K` on macOS.
+ *
+ * @function formatShortcut
+ * @param {string} shortcut - The shortcut.
+ * @param {boolean} [mac] - Whether to use macOS symbols; detected from the browser by default.
+ * @returns {string} The keys to press.
+ */
+export function formatShortcut(
+  shortcut: string,
+  mac = typeof navigator !== 'undefined' &&
+    /Mac|iP(hone|ad)/.test(navigator.platform)
+): string {
+  if (!shortcut.startsWith('Mod+')) return shortcut.toUpperCase();
+  const key = shortcut.slice(4).toUpperCase();
+  return mac ? `⌘${key}` : `Ctrl+${key}`;
+}
@@ -0,0 +1,31 @@
+import type { Joke, SearchSort } from '@/types/jokeTypes';
+
+/**
+ * Comparators for each search sort mode. `relevance` keeps the order in
+ * which the API returned the results and therefore has no comparator.
+ *
+ * `updated_at` is sent as `YYYY-MM-DD HH:mm:ss.SSSSSS`, so comparing the raw
+ * strings orders them chronologically.
+ */
+const comparators: Record<
+  Exclude<SearchSort, 'relevance'>,
+  (a: Joke, b: Joke) => number
+> = {
+  length: (a, b) => a.value.length - b.value.length,
+  newest: (a, b) =>
+    a.updated_at < b.updated_at ? 1 : a.updated_at > b.updated_at ? -1 : 0,
+  alphabetical: (a, b) => a.value.localeCompare(b.value),
+};
+
+/**
+ * Return a sorted copy of the given jokes.
+ *
+ * @function sortJokes
+ * @param {Joke[]} jokes - The jokes to sort; the array is not mutated.
+ * @param {SearchSort} sort - The sort mode.
+ * @returns {Joke[]} The sorted jokes.
+ */
+export function sortJokes(jokes: Joke[], sort: SearchSort): Joke[] {
+  if (sort === 'relevance') return jokes;
+  return [...jokes].sort(comparators[sort]);
+}
@@ -0,0 +1,57 @@
+/**
+ * Position of a word in a text.
+ *
+ * @typedef {Object} WordRange
+ * @property {number} start - Index of the first character of the word.
+ * @property {number} end - Index after the last character of the word.
+ */
+export interface WordRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Whether the browser can read text aloud.
+ *
+ * @function isSpeechSupported
+ * @returns {boolean} `true` if the Web Speech synthesis API is available.
+ */
+export function isSpeechSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'speechSynthesis' in window &&
+    typeof window.SpeechSynthesisUtterance === 'function'
+  );
+}
+
+/**
+ * Find the word starting at a character reported by a speech `boundary`
+ * event.
+ *
+ * Browsers do not always report the length of the word, so it runs up to the
+ * next whitespace.
+ *
+ * @function wordAt
+ * @param {string} text - The text being read.
+ * @param {number} charIndex - Index of the first character of the word.
+ * @param {number} [charLength] - Length of the word, when the browser reports it.
+ * @returns {WordRange | null} The word, or `null` if the index is outside the text.
+ */
+export function wordAt(
+  text: string,
+  charIndex: number,
+  charLength?: number
+): WordRange | null {
+  if (charIndex < 0 || charIndex >= text.length) return null;
+  if (charLength) {
+    return {
+      start: charIndex,
+      end: Math.min(text.length, charIndex + charLength),
+    };
+  }
+  const rest = text.slice(charIndex).search(/\s/);
+  return {
+    start: charIndex,
+    end: rest === -1 ? text.length : charIndex + rest,
+  };
+}
@@ -0,0 +1,37 @@
+/** Prefix of every key the app writes to local storage. */
+const STORAGE_PREFIX = 'chuck-norris-jokes:';
+
+/**
+ * Read and JSON-decode a value from local storage.
+ *
+ * @function readStorage
+ * @param {string} key - Key without the app prefix.
+ * @returns {unknown} The decoded value, or `undefined` if it is missing,
+ *   unreadable or storage is unavailable.
+ */
+export function readStorage(key: string): unknown {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    return raw === null ? undefined : JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * JSON-encode and write a value to local storage.
+ *
+ * Failures (quota exceeded, storage disabled) are ignored: persistence is a
+ * convenience and must never break the app.
+ *
+ * @function writeStorage
+ * @param {string} key - Key without the app prefix.
+ * @param {unknown} value - A JSON-serializable value.
+ */
+export function writeStorage(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch {
+    // Ignore: the state simply won't survive a reload.
+  }
+}
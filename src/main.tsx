@@ -4,12 +4,15 @@ import App from './App.tsx';
 import { Provider } from 'react-redux';
 import { store } from './store/index.ts';
 import { ThemeProvider } from 'next-themes';
+import { BrowserRouter } from 'react-router';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <Provider store={store}>
       <ThemeProvider attribute="class" defaultTheme="dark" enableSystem>
-        <App />
+        <BrowserRouter>
+          <App />
+        </BrowserRouter>
       </ThemeProvider>
     </Provider>
   </StrictMode>
@@ -1,18 +1,82 @@
-import { configureStore } from '@reduxjs/toolkit';
+import { combineReducers, configureStore } from '@reduxjs/toolkit';
 import {
   useDispatch,
   useSelector,
   type TypedUseSelectorHook,
 } from 'react-redux';
 import jokesReducer from './slices/jokesSlice';
+import favoritesReducer, {
+  FAVORITES_STORAGE_KEY,
+  selectFavorites,
+} from './slices/favoritesSlice';
+import historyReducer, {
+  HISTORY_STORAGE_KEY,
+  selectSavedHistory,
+} from './slices/historySlice';
+import noRepeatReducer, {
+  NO_REPEAT_STORAGE_KEY,
+  selectSavedNoRepeat,
+} from './slices/noRepeatSlice';
+import categorySelectionReducer, {
+  CATEGORY_SELECTION_STORAGE_KEY,
+} from './slices/categorySelectionSlice';
+import safeModeReducer, { SAFE_MODE_STORAGE_KEY } from './slices/safeModeSlice';
+import batchReducer from './slices/batchSlice';
+import slideshowReducer, {
+  SLIDESHOW_STORAGE_KEY,
+} from './slices/slideshowSlice';
+import searchHistoryReducer, {
+  SEARCH_HISTORY_STORAGE_KEY,
+} from './slices/searchHistorySlice';
+import jokeIndexReducer, {
+  JOKE_INDEX_STORAGE_KEY,
+  selectIndexedJokes,
+} from './slices/jokeIndexSlice';
+import ratingsReducer, { RATINGS_STORAGE_KEY } from './slices/ratingsSlice';
+import speechReducer, { SPEECH_STORAGE_KEY } from './slices/speechSlice';
+import localeReducer, { LOCALE_STORAGE_KEY } from './slices/localeSlice';
+import colorThemesReducer, {
+  COLOR_THEMES_STORAGE_KEY,
+} from './slices/colorThemesSlice';
+import { persistState } from './persistence';
+
+export const rootReducer = combineReducers({
+  jokes: jokesReducer,
+  favorites: favoritesReducer,
+  history: historyReducer,
+  noRepeat: noRepeatReducer,
+  categorySelection: categorySelectionReducer,
+  safeMode: safeModeReducer,
+  batch: batchReducer,
+  slideshow: slideshowReducer,
+  searchHistory: searchHistoryReducer,
+  jokeIndex: jokeIndexReducer,
+  ratings: ratingsReducer,
+  speech: speechReducer,
+  locale: localeReducer,
+  colorThemes: colorThemesReducer,
+});
 
 export const store = configureStore({
-  reducer: {
-    jokes: jokesReducer,
-  },
+  reducer: rootReducer,
+});
+
+persistState(store, {
+  [FAVORITES_STORAGE_KEY]: selectFavorites,
+  [HISTORY_STORAGE_KEY]: selectSavedHistory,
+  [NO_REPEAT_STORAGE_KEY]: selectSavedNoRepeat,
+  [CATEGORY_SELECTION_STORAGE_KEY]: (state) => state.categorySelection,
+  [SAFE_MODE_STORAGE_KEY]: (state) => state.safeMode,
+  [SLIDESHOW_STORAGE_KEY]: (state) => state.slideshow,
+  [SEARCH_HISTORY_STORAGE_KEY]: (state) => state.searchHistory,
+  [JOKE_INDEX_STORAGE_KEY]: selectIndexedJokes,
+  [RATINGS_STORAGE_KEY]: (state) => state.ratings,
+  [SPEECH_STORAGE_KEY]: (state) => state.speech,
+  [LOCALE_STORAGE_KEY]: (state) => state.locale,
+  [COLOR_THEMES_STORAGE_KEY]: (state) => state.colorThemes,
 });
 
-export type RootState = ReturnType<typeof store.getState>;
+export type RootState = ReturnType<typeof rootReducer>;
 export type AppDispatch = typeof store.dispatch;
 
 export const useAppDispatch: () => AppDispatch = useDispatch;
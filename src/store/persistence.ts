@@ -0,0 +1,34 @@
+import { writeStorage } from '@/lib/storage';
+
+/**
+ * Write selected parts of the state to local storage whenever they change.
+ *
+ * Each entry maps a storage key to a function returning the value to
+ * persist. Values are compared by reference, so only slices that actually
+ * changed are written.
+ *
+ * @function persistState
+ * @param {object} store - The Redux store.
+ * @param {Record<string, (state: S) => unknown>} selectors - What to persist, by storage key.
+ * @returns {() => void} Unsubscribes the listener.
+ */
+export function persistState<S>(
+  store: { getState: () => S; subscribe: (listener: () => void) => () => void },
+  selectors: Record<string, (state: S) => unknown>
+): () => void {
+  const previous = new Map<string, unknown>();
+  for (const [key, select] of Object.entries(selectors)) {
+    previous.set(key, select(store.getState()));
+  }
+
+  return store.subscribe(() => {
+    const state = store.getState();
+    for (const [key, select] of Object.entries(selectors)) {
+      const value = select(state);
+      if (value !== previous.get(key)) {
+        previous.set(key, value);
+        writeStorage(key, value);
+      }
+    }
+  });
+}
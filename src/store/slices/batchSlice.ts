@@ -0,0 +1,217 @@
+import {
+  createAsyncThunk,
+  createSelector,
+  createSlice,
+} from '@reduxjs/toolkit';
+import * as jokesApi from '@/lib/api/jokesApi';
+import { BATCH_CONCURRENCY, FILTER_MAX_FETCHES } from '@/lib/api/config';
+import { toJokeError } from '@/lib/api/errors';
+import { withRetry } from '@/lib/api/retry';
+import { supersede } from '@/lib/api/supersede';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { isJokeBlocked, maskJoke, safeJoke } from '@/lib/safeMode';
+import type {
+  BatchItem,
+  BatchState,
+  Joke,
+  JokeError,
+  SafeModeState,
+} from '@/types/jokeTypes';
+
+/** Number of jokes fetched by a new batch unless the user picks another. */
+export const DEFAULT_BATCH_SIZE = 6;
+
+/** Batch sizes offered to the user. */
+export const BATCH_SIZE_OPTIONS = [3, 6, 9, 12];
+
+/** Channel of the batch requests; starting a batch aborts the previous one. */
+const BATCH_CHANNEL = 'batch';
+
+/** Parts of the root state read by the batch thunks. */
+type BatchRootState = { batch: BatchState; safeMode: SafeModeState };
+
+/** A card whose request has not settled yet. */
+const pendingItem = (requestId: string | null): BatchItem => ({
+  requestId,
+  status: 'pending',
+  joke: null,
+  error: null,
+});
+
+/** Error of a card whose joke is hidden by safe mode. */
+const blockedError: JokeError = {
+  kind: 'blocked',
+  message: 'Hidden by safe mode',
+};
+
+/**
+ * Error returned when a card only received jokes already in the batch.
+ *
+ * @function duplicateError
+ * @param {string | null} category - The category jokes were fetched from.
+ * @returns {JokeError} An `exhausted` error.
+ */
+const duplicateError = (category: string | null): JokeError => ({
+  kind: 'exhausted',
+  message: `Only duplicate jokes after ${FILTER_MAX_FETCHES} fetches`,
+  ...(category !== null && { category }),
+});
+
+/**
+ * Fetch the joke of one card.
+ *
+ * Jokes already shown in another card are re-fetched, as are jokes from
+ * blocked categories in safe mode; profanity is masked in safe mode.
+ *
+ * @async
+ * @function fetchBatchItem
+ * @param {{ index: number, category: string | null }} arg - The card and the category to draw from.
+ * @returns {Promise<Joke>} The joke of the card.
+ */
+export const fetchBatchItem = createAsyncThunk<
+  Joke,
+  { index: number; category: string | null },
+  { rejectValue: JokeError; state: BatchRootState }
+>('batch/fetchBatchItem', async ({ index, category }, thunkAPI) => {
+  const { safeMode } = thunkAPI.getState();
+  const { signal } = thunkAPI;
+  let lastError = duplicateError(category);
+
+  try {
+    for (let i = 0; i < FILTER_MAX_FETCHES; i++) {
+      const joke = await withRetry(
+        () => jokesApi.getRandomJoke(category ?? undefined, { signal }),
+        { signal }
+      );
+      // Read the batch again: other cards may have loaded in the meantime
+      const taken = thunkAPI
+        .getState()
+        .batch.items.some(
+          (item, other) => other !== index && item.joke?.id === joke.id
+        );
+      if (taken) {
+        lastError = duplicateError(category);
+      } else if (
+        safeMode.enabled &&
+        isJokeBlocked(joke, safeMode.blockedCategories)
+      ) {
+        lastError = blockedError;
+      } else {
+        return safeMode.enabled ? maskJoke(joke) : joke;
+      }
+    }
+    return thunkAPI.rejectWithValue(lastError);
+  } catch (err) {
+    return thunkAPI.rejectWithValue(toJokeError(err));
+  }
+});
+
+/**
+ * Fetch `count` jokes at once, at most `BATCH_CONCURRENCY` at a time.
+ *
+ * Each card is loaded by its own `fetchBatchItem`, so a failure only affects
+ * its card. Starting a new batch aborts the cards of the previous one.
+ *
+ * @async
+ * @function fetchJokeBatch
+ * @param {{ count: number, category: string | null }} arg - Number of jokes and the category to draw from (`null` for random jokes).
+ * @returns {Promise<void>} Resolves once every card has settled.
+ */
+export const fetchJokeBatch = createAsyncThunk<
+  void,
+  { count: number; category: string | null },
+  { state: BatchRootState }
+>('batch/fetchJokeBatch', async ({ count, category }, thunkAPI) => {
+  const signal = supersede(BATCH_CHANNEL, thunkAPI.signal);
+  const indices = Array.from({ length: count }, (_, i) => i);
+
+  await mapWithConcurrency(indices, BATCH_CONCURRENCY, async (index) => {
+    if (signal.aborted) return;
+    const request = thunkAPI.dispatch(fetchBatchItem({ index, category }));
+    const abort = () => request.abort();
+    signal.addEventListener('abort', abort);
+    try {
+      await request;
+    } finally {
+      signal.removeEventListener('abort', abort);
+    }
+  });
+});
+
+/**
+ * Redux slice holding the grid of jokes fetched by `fetchJokeBatch`.
+ *
+ * Every card tracks its own request, so cards fill in as they arrive and a
+ * failed card can be retried on its own with `fetchBatchItem`.
+ */
+export const batchSlice = createSlice({
+  name: 'batch',
+  initialState: (): BatchState => ({ category: null, items: [] }),
+  reducers: {
+    /**
+     * Remove the grid.
+     */
+    clearBatch: (state) => {
+      state.category = null;
+      state.items = [];
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchJokeBatch.pending, (state, action) => {
+        const { count, category } = action.meta.arg;
+        state.category = category;
+        state.items = Array.from({ length: count }, () => pendingItem(null));
+      })
+      .addCase(fetchBatchItem.pending, (state, action) => {
+        const { index } = action.meta.arg;
+        if (index >= state.items.length) return;
+        state.items[index] = pendingItem(action.meta.requestId);
+      })
+      .addCase(fetchBatchItem.fulfilled, (state, action) => {
+        const item = state.items[action.meta.arg.index];
+        if (item?.requestId !== action.meta.requestId) return;
+        item.status = 'succeeded';
+        item.joke = action.payload;
+      })
+      .addCase(fetchBatchItem.rejected, (state, action) => {
+        const item = state.items[action.meta.arg.index];
+        if (item?.requestId !== action.meta.requestId) return;
+        item.status = 'failed';
+        item.error = action.payload ?? {
+          kind: 'unknown',
+          message: action.error.message ?? 'Failed to fetch joke',
+        };
+      });
+  },
+});
+
+export const { clearBatch } = batchSlice.actions;
+
+/**
+ * Select the cards of the grid as safe mode lets them be shown: a card whose
+ * joke is from a blocked category turns into a `blocked` failure that can be
+ * retried, and profanity is masked, even in jokes loaded before safe mode
+ * was turned on.
+ *
+ * @function selectBatchItems
+ * @param {{ batch: BatchState, safeMode: SafeModeState }} state - The root state.
+ * @returns {BatchItem[]} The cards, in display order.
+ */
+export const selectBatchItems = createSelector(
+  [
+    (state: BatchRootState) => state.batch.items,
+    (state: BatchRootState) => state.safeMode,
+  ],
+  (items, safeMode) =>
+    items.map((item): BatchItem => {
+      if (!item.joke) return item;
+      const joke = safeJoke(item.joke, safeMode);
+      if (joke === item.joke) return item;
+      return joke
+        ? { ...item, joke }
+        : { ...item, status: 'failed', joke: null, error: blockedError };
+    })
+);
+
+export default batchSlice.reducer;
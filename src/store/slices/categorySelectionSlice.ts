@@ -0,0 +1,183 @@
+import {
+  createSelector,
+  createSlice,
+  type PayloadAction,
+  type ThunkAction,
+  type UnknownAction,
+} from '@reduxjs/toolkit';
+import { readStorage } from '@/lib/storage';
+import { pickWeighted } from '@/lib/pickWeighted';
+import { fetchJokeByCategory } from './jokesSlice';
+import type {
+  CategorySelectionState,
+  JokeIndexState,
+  JokesState,
+  NoRepeatState,
+  RatingsState,
+  SafeModeState,
+  WeightedCategory,
+} from '@/types/jokeTypes';
+
+/** Local storage key of the selected categories. */
+export const CATEGORY_SELECTION_STORAGE_KEY = 'categorySelection';
+
+/** Weight of a newly selected category. */
+export const DEFAULT_CATEGORY_WEIGHT = 1;
+
+/** Highest weight a category can be given. */
+export const MAX_CATEGORY_WEIGHT = 10;
+
+/**
+ * Keep a weight within `1..MAX_CATEGORY_WEIGHT`.
+ *
+ * @param {number} weight - Requested weight.
+ * @returns {number} A whole number in range.
+ */
+const clampWeight = (weight: number) =>
+  Number.isFinite(weight)
+    ? Math.min(MAX_CATEGORY_WEIGHT, Math.max(1, Math.round(weight)))
+    : DEFAULT_CATEGORY_WEIGHT;
+
+/**
+ * Read the category selection saved by a previous session.
+ *
+ * @function loadSelection
+ * @returns {CategorySelectionState} The restored selection, or an empty one.
+ */
+function loadSelection(): CategorySelectionState {
+  const saved = readStorage(CATEGORY_SELECTION_STORAGE_KEY) as
+    | { selected?: unknown }
+    | undefined;
+  if (!Array.isArray(saved?.selected)) return { selected: [] };
+
+  const selected: WeightedCategory[] = [];
+  for (const item of saved.selected) {
+    if (typeof item?.name !== 'string') continue;
+    if (selected.some((c) => c.name === item.name)) continue;
+    selected.push({
+      name: item.name,
+      weight: clampWeight(Number(item.weight)),
+    });
+  }
+  return { selected };
+}
+
+/**
+ * Redux slice holding the categories the next joke is drawn from.
+ *
+ * `fetchJokeFromSelection` picks one of them at random, favoring higher
+ * weights. The selection is restored from local storage and written back by
+ * `persistState`.
+ */
+export const categorySelectionSlice = createSlice({
+  name: 'categorySelection',
+  initialState: loadSelection,
+  reducers: {
+    /**
+     * Add a category to the selection with the default weight.
+     */
+    addCategory: (state, action: PayloadAction<string>) => {
+      if (state.selected.some((c) => c.name === action.payload)) return;
+      state.selected.push({
+        name: action.payload,
+        weight: DEFAULT_CATEGORY_WEIGHT,
+      });
+    },
+
+    /**
+     * Remove a category from the selection.
+     */
+    removeCategory: (state, action: PayloadAction<string>) => {
+      state.selected = state.selected.filter((c) => c.name !== action.payload);
+    },
+
+    /**
+     * Change how likely a selected category is to be picked.
+     */
+    setCategoryWeight: (
+      state,
+      action: PayloadAction<{ name: string; weight: number }>
+    ) => {
+      const category = state.selected.find(
+        (c) => c.name === action.payload.name
+      );
+      if (category) category.weight = clampWeight(action.payload.weight);
+    },
+
+    /**
+     * Deselect every category.
+     */
+    clearCategories: (state) => {
+      state.selected = [];
+    },
+  },
+});
+
+export const {
+  addCategory,
+  removeCategory,
+  setCategoryWeight,
+  clearCategories,
+} = categorySelectionSlice.actions;
+
+/**
+ * Fetch a joke from one of the selected categories, picked by weight.
+ *
+ * Selected categories missing from the loaded category list, or blocked by
+ * safe mode, are skipped.
+ *
+ * @function fetchJokeFromSelection
+ * @returns {ThunkAction} A thunk dispatching `fetchJokeByCategory`, or nothing without a selection.
+ */
+export const fetchJokeFromSelection =
+  (): ThunkAction<
+    void,
+    {
+      jokes: JokesState;
+      noRepeat: NoRepeatState;
+      safeMode: SafeModeState;
+      jokeIndex: JokeIndexState;
+      ratings: RatingsState;
+      categorySelection: CategorySelectionState;
+    },
+    unknown,
+    UnknownAction
+  > =>
+  (dispatch, getState) => {
+    const { jokes, safeMode, categorySelection } = getState();
+    const available = categorySelection.selected.filter(
+      (c) =>
+        (jokes.categories.length === 0 || jokes.categories.includes(c.name)) &&
+        !(safeMode.enabled && safeMode.blockedCategories.includes(c.name))
+    );
+    const picked = pickWeighted(available, (c) => c.weight);
+    if (picked) dispatch(fetchJokeByCategory(picked.name));
+  };
+
+/**
+ * Select the categories the card's joke was picked from, when it was drawn
+ * from a multi-category selection.
+ *
+ * @function selectPickedFrom
+ * @param {object} state - The root state.
+ * @returns {string[] | null} The selected categories, or `null` for any other joke.
+ */
+export const selectPickedFrom = createSelector(
+  [
+    (state: { jokes: JokesState }) => state.jokes,
+    (state: { categorySelection: CategorySelectionState }) =>
+      state.categorySelection.selected,
+  ],
+  ({ category, lastRequests, requests }, selected) => {
+    const names = selected.map((c) => c.name);
+    return category &&
+      lastRequests.joke?.type === 'category' &&
+      requests.joke.status === 'succeeded' &&
+      names.length > 1 &&
+      names.includes(category)
+      ? names
+      : null;
+  }
+);
+
+export default categorySelectionSlice.reducer;
@@ -0,0 +1,113 @@
+import { createSlice, nanoid, type PayloadAction } from '@reduxjs/toolkit';
+import { readStorage } from '@/lib/storage';
+import {
+  parseThemeDraft,
+  THEME_PRESETS,
+  type ThemeDraft,
+} from '@/lib/colorThemes';
+import type { ColorTheme, ColorThemesState } from '@/types/jokeTypes';
+
+/** Local storage key of the custom color themes. */
+export const COLOR_THEMES_STORAGE_KEY = 'colorThemes';
+
+/**
+ * Read the custom color themes saved by a previous session, dropping invalid
+ * ones.
+ *
+ * @function loadColorThemes
+ * @returns {ColorThemesState} The restored themes, or none.
+ */
+function loadColorThemes(): ColorThemesState {
+  const saved = readStorage(COLOR_THEMES_STORAGE_KEY) as
+    | Partial<Record<keyof ColorThemesState, unknown>>
+    | undefined;
+
+  const themes = Array.isArray(saved?.saved)
+    ? saved.saved.flatMap((value: unknown) => {
+        if (typeof value !== 'object' || value === null) return [];
+        const draft = parseThemeDraft(value);
+        const id = (value as { id?: unknown }).id;
+        return draft && typeof id === 'string' ? [{ ...draft, id }] : [];
+      })
+    : [];
+  const activeId =
+    typeof saved?.activeId === 'string' &&
+    [...THEME_PRESETS, ...themes].some((t) => t.id === saved.activeId)
+      ? saved.activeId
+      : null;
+
+  return { saved: themes, activeId };
+}
+
+/**
+ * Redux slice for the custom color themes applied by `useColorTheme`.
+ *
+ * The bundled presets are not stored; `activeId` may point to one of them.
+ * The state is restored from local storage and written back by
+ * `persistState`.
+ */
+export const colorThemesSlice = createSlice({
+  name: 'colorThemes',
+  initialState: loadColorThemes,
+  reducers: {
+    /**
+     * Save a theme and apply it. A theme with the id of a saved one replaces
+     * it; any other theme is added under a new id.
+     */
+    saveTheme: (state, action: PayloadAction<ThemeDraft & { id?: string }>) => {
+      const { id, ...draft } = action.payload;
+      const index = state.saved.findIndex((t) => t.id === id);
+      if (index === -1) {
+        const theme = { ...draft, id: nanoid() };
+        state.saved.push(theme);
+        state.activeId = theme.id;
+      } else {
+        state.saved[index] = { ...draft, id: state.saved[index].id };
+        state.activeId = state.saved[index].id;
+      }
+    },
+
+    /**
+     * Delete a saved theme, going back to the built-in colors if it was applied.
+     */
+    deleteTheme: (state, action: PayloadAction<string>) => {
+      state.saved = state.saved.filter((t) => t.id !== action.payload);
+      if (state.activeId === action.payload) state.activeId = null;
+    },
+
+    /**
+     * Apply a preset or saved theme, or `null` for the built-in colors.
+     */
+    applyTheme: (state, action: PayloadAction<string | null>) => {
+      state.activeId = action.payload;
+    },
+
+    /**
+     * Add imported themes, each under a new id.
+     */
+    importThemes: (state, action: PayloadAction<ThemeDraft[]>) => {
+      for (const draft of action.payload) {
+        state.saved.push({ ...draft, id: nanoid() });
+      }
+    },
+  },
+});
+
+export const { saveTheme, deleteTheme, applyTheme, importThemes } =
+  colorThemesSlice.actions;
+
+/**
+ * Select the applied color theme.
+ *
+ * @function selectActiveTheme
+ * @param {{ colorThemes: ColorThemesState }} state - The root state.
+ * @returns {ColorTheme | null} The preset or saved theme, or `null` for the built-in colors.
+ */
+export const selectActiveTheme = (state: {
+  colorThemes: ColorThemesState;
+}): ColorTheme | null => {
+  const { saved, activeId } = state.colorThemes;
+  return [...THEME_PRESETS, ...saved].find((t) => t.id === activeId) ?? null;
+};
+
+export default colorThemesSlice.reducer;
@@ -0,0 +1,98 @@
+import {
+  createEntityAdapter,
+  createSlice,
+  type PayloadAction,
+} from '@reduxjs/toolkit';
+import { parseJoke } from '@/lib/api/validation';
+import { readStorage } from '@/lib/storage';
+import type { FavoritesState, Joke } from '@/types/jokeTypes';
+
+/** Local storage key of the saved favorites. */
+export const FAVORITES_STORAGE_KEY = 'favorites';
+
+/** Stores favorites by upstream joke id, most recently added first. */
+const favoritesAdapter = createEntityAdapter<Joke>();
+
+/**
+ * Read the favorites saved by a previous session.
+ *
+ * Entries that are not valid jokes (e.g. written by an older version) are
+ * dropped instead of failing the whole list.
+ *
+ * @function loadFavorites
+ * @returns {Joke[]} The saved jokes, in their saved order.
+ */
+function loadFavorites(): Joke[] {
+  const saved = readStorage(FAVORITES_STORAGE_KEY);
+  if (!Array.isArray(saved)) return [];
+
+  return saved.flatMap((item) => {
+    try {
+      return [parseJoke(FAVORITES_STORAGE_KEY, item)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Redux slice holding the user's favorite jokes.
+ *
+ * The initial state is restored from local storage; the store writes it back
+ * whenever it changes (see `persistState`).
+ */
+export const favoritesSlice = createSlice({
+  name: 'favorites',
+  initialState: (): FavoritesState =>
+    favoritesAdapter.setAll(
+      favoritesAdapter.getInitialState(),
+      loadFavorites()
+    ),
+  reducers: {
+    /**
+     * Add a joke to the favorites, or remove it if it is already there.
+     */
+    toggleFavorite: (state, action: PayloadAction<Joke>) => {
+      const joke = action.payload;
+      if (state.entities[joke.id]) {
+        favoritesAdapter.removeOne(state, joke.id);
+      } else {
+        state.ids.unshift(joke.id);
+        state.entities[joke.id] = joke;
+      }
+    },
+
+    /**
+     * Remove a joke from the favorites by its id.
+     */
+    removeFavorite: (state, action: PayloadAction<string>) => {
+      favoritesAdapter.removeOne(state, action.payload);
+    },
+  },
+});
+
+export const { toggleFavorite, removeFavorite } = favoritesSlice.actions;
+
+export const {
+  /** Select every favorite, most recently added first. */
+  selectAll: selectFavorites,
+  /** Select the number of favorites. */
+  selectTotal: selectFavoritesCount,
+} = favoritesAdapter.getSelectors(
+  (state: { favorites: FavoritesState }) => state.favorites
+);
+
+/**
+ * Select whether a joke is among the favorites.
+ *
+ * @function selectIsFavorite
+ * @param {{ favorites: FavoritesState }} state - The root state.
+ * @param {string} id - Upstream joke id.
+ * @returns {boolean} `true` if the joke is a favorite.
+ */
+export const selectIsFavorite = (
+  state: { favorites: FavoritesState },
+  id: string
+) => id in state.favorites.entities;
+
+export default favoritesSlice.reducer;
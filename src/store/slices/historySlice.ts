@@ -0,0 +1,325 @@
+import {
+  createSelector,
+  createSlice,
+  type PayloadAction,
+  type ThunkAction,
+  type UnknownAction,
+} from '@reduxjs/toolkit';
+import { parseJoke } from '@/lib/api/validation';
+import { readStorage } from '@/lib/storage';
+import { safeJoke } from '@/lib/safeMode';
+import {
+  fetchJokeByCategory,
+  fetchJokeById,
+  fetchLuckyJoke,
+  fetchRandomJoke,
+  isJokeRequestPending,
+  isKnownJokeShown,
+  showJoke,
+} from './jokesSlice';
+import type {
+  HistoryEntry,
+  HistoryState,
+  Joke,
+  JokeRequest,
+  SafeModeState,
+} from '@/types/jokeTypes';
+
+/** Local storage key of the saved history. */
+export const HISTORY_STORAGE_KEY = 'history';
+
+/** Number of entries kept unless the user picks another limit. */
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+/** History sizes the user can choose from. */
+export const HISTORY_LIMIT_OPTIONS = [10, 25, 50, 100] as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Check that a stored value is a request the history can describe.
+ *
+ * @param {unknown} value - Raw stored value.
+ * @returns {boolean} `true` for a valid {@link JokeRequest}.
+ */
+function isJokeRequest(value: unknown): value is JokeRequest {
+  if (!isRecord(value)) return false;
+  switch (value.type) {
+    case 'random':
+      return true;
+    case 'category':
+      return typeof value.category === 'string';
+    case 'search':
+    case 'lucky':
+      return typeof value.query === 'string';
+    case 'id':
+      return typeof value.id === 'string';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Validate one stored history entry.
+ *
+ * @param {unknown} value - Raw stored value.
+ * @returns {HistoryEntry | null} The entry, or `null` if it is malformed.
+ */
+function parseEntry(value: unknown): HistoryEntry | null {
+  if (!isRecord(value) || !isJokeRequest(value.source)) return null;
+  if (typeof value.shownAt !== 'number') return null;
+  try {
+    return {
+      joke: parseJoke(HISTORY_STORAGE_KEY, value.joke),
+      source: value.source,
+      shownAt: value.shownAt,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the history saved by a previous session.
+ *
+ * Malformed entries are dropped and the position is clamped to the entries
+ * that remain, so a corrupted save degrades to a shorter history.
+ *
+ * @function loadHistory
+ * @returns {HistoryState} The restored history, or an empty one.
+ */
+function loadHistory(): HistoryState {
+  const saved = readStorage(HISTORY_STORAGE_KEY);
+  const empty: HistoryState = {
+    entries: [],
+    index: -1,
+    limit: DEFAULT_HISTORY_LIMIT,
+    requestId: null,
+  };
+  if (!isRecord(saved) || !Array.isArray(saved.entries)) return empty;
+
+  const limit =
+    typeof saved.limit === 'number' && saved.limit > 0
+      ? saved.limit
+      : DEFAULT_HISTORY_LIMIT;
+  const entries = saved.entries
+    .map(parseEntry)
+    .filter((entry): entry is HistoryEntry => entry !== null)
+    .slice(-limit);
+  const index = typeof saved.index === 'number' ? saved.index : -1;
+
+  return {
+    entries,
+    index: Math.min(Math.max(index, 0), entries.length - 1),
+    limit,
+    requestId: null,
+  };
+}
+
+/**
+ * Append a joke to the history.
+ *
+ * Like browser history, entries after the current position are discarded
+ * first; the oldest entries are dropped once `limit` is exceeded.
+ *
+ * @param {HistoryState} state - Draft history state.
+ * @param {Joke} joke - The joke now shown.
+ * @param {JokeRequest} source - How it was obtained.
+ */
+function record(state: HistoryState, joke: Joke, source: JokeRequest) {
+  state.entries.splice(state.index + 1);
+  state.entries.push({ joke, source, shownAt: Date.now() });
+  state.entries.splice(0, Math.max(0, state.entries.length - state.limit));
+  state.index = state.entries.length - 1;
+}
+
+/**
+ * Redux slice holding the session history of the joke card.
+ *
+ * Every joke loaded into the card by `fetchRandomJoke`, `fetchJokeByCategory`,
+ * `fetchLuckyJoke` or `fetchJokeById` is recorded with its source; the
+ * response of a request superseded by another one, or by a joke shown with
+ * `showJoke`, is ignored. `goToHistoryEntry` moves through the history and shows the selected joke
+ * again. The state is restored from local storage and written back by
+ * `persistState`.
+ */
+export const historySlice = createSlice({
+  name: 'history',
+  initialState: loadHistory,
+  reducers: {
+    /**
+     * Move the current position; dispatched by `goToHistoryEntry`.
+     */
+    historyMoved: (state, action: PayloadAction<number>) => {
+      state.index = action.payload;
+    },
+
+    /**
+     * Change how many entries are kept, dropping the oldest if needed.
+     */
+    setHistoryLimit: (state, action: PayloadAction<number>) => {
+      state.limit = action.payload;
+      const excess = Math.max(0, state.entries.length - state.limit);
+      state.entries.splice(0, excess);
+      state.index =
+        state.entries.length === 0 ? -1 : Math.max(0, state.index - excess);
+    },
+
+    /**
+     * Forget every entry but keep the chosen limit.
+     */
+    clearHistory: (state) => {
+      state.entries = [];
+      state.index = -1;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchRandomJoke.fulfilled, (state, action) => {
+        if (action.meta.requestId !== state.requestId) return;
+        record(state, action.payload, { type: 'random' });
+      })
+      .addCase(fetchJokeByCategory.fulfilled, (state, action) => {
+        if (action.meta.requestId !== state.requestId) return;
+        record(state, action.payload.joke, {
+          type: 'category',
+          category: action.payload.category,
+        });
+      })
+      .addCase(fetchLuckyJoke.fulfilled, (state, action) => {
+        if (action.meta.requestId !== state.requestId) return;
+        record(state, action.payload, {
+          type: 'lucky',
+          query: action.meta.arg,
+        });
+      })
+      .addCase(fetchJokeById.fulfilled, (state, action) => {
+        if (action.meta.requestId !== state.requestId) return;
+        record(state, action.payload, { type: 'id', id: action.meta.arg });
+      })
+      .addMatcher(isJokeRequestPending, (state, action) => {
+        state.requestId = action.meta.requestId;
+      })
+      .addMatcher(isKnownJokeShown, (state) => {
+        state.requestId = null;
+      });
+  },
+});
+
+export const { setHistoryLimit, clearHistory } = historySlice.actions;
+
+/**
+ * Select the part of the history saved in local storage.
+ *
+ * @function selectSavedHistory
+ * @param {{ history: HistoryState }} state - The root state.
+ * @returns {Omit<HistoryState, 'requestId'>} The entries, position and limit.
+ */
+export const selectSavedHistory = createSelector(
+  [
+    (state: { history: HistoryState }) => state.history.entries,
+    (state: { history: HistoryState }) => state.history.index,
+    (state: { history: HistoryState }) => state.history.limit,
+  ],
+  (entries, index, limit): Omit<HistoryState, 'requestId'> => ({
+    entries,
+    index,
+    limit,
+  })
+);
+
+/**
+ * Show the joke at a position of the history.
+ *
+ * @function goToHistoryEntry
+ * @param {number} index - Position in `entries`; ignored if out of range.
+ * @returns {ThunkAction} A thunk moving the position and showing the joke.
+ */
+export const goToHistoryEntry =
+  (
+    index: number
+  ): ThunkAction<
+    void,
+    { history: HistoryState; safeMode: SafeModeState },
+    unknown,
+    UnknownAction
+  > =>
+  (dispatch, getState) => {
+    const entry = getState().history.entries[index];
+    if (!entry) return;
+    dispatch(historySlice.actions.historyMoved(index));
+    dispatch(showJoke(entry.joke));
+  };
+
+/**
+ * Find the nearest entry in a direction that safe mode lets be shown.
+ *
+ * @param {{ history: HistoryState, safeMode: SafeModeState }} state - The root state.
+ * @param {1 | -1} step - `-1` for older entries, `1` for newer ones.
+ * @returns {number} Position of the entry, or `-1` if there is none.
+ */
+function adjacentEntry(
+  { history, safeMode }: { history: HistoryState; safeMode: SafeModeState },
+  step: 1 | -1
+): number {
+  for (
+    let i = history.index + step;
+    i >= 0 && i < history.entries.length;
+    i += step
+  ) {
+    if (safeJoke(history.entries[i].joke, safeMode)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Select the older entry to step back to, skipping jokes hidden by safe mode.
+ *
+ * @function selectPreviousEntry
+ * @param {{ history: HistoryState, safeMode: SafeModeState }} state - The root state.
+ * @returns {number} Position of the entry, or `-1` if there is none.
+ */
+export const selectPreviousEntry = (state: {
+  history: HistoryState;
+  safeMode: SafeModeState;
+}) => adjacentEntry(state, -1);
+
+/**
+ * Select the newer entry to step forward to, skipping jokes hidden by safe
+ * mode.
+ *
+ * @function selectNextEntry
+ * @param {{ history: HistoryState, safeMode: SafeModeState }} state - The root state.
+ * @returns {number} Position of the entry, or `-1` if there is none.
+ */
+export const selectNextEntry = (state: {
+  history: HistoryState;
+  safeMode: SafeModeState;
+}) => adjacentEntry(state, 1);
+
+/**
+ * Select whether there is an older entry to step back to.
+ *
+ * @function selectCanGoBack
+ * @param {{ history: HistoryState, safeMode: SafeModeState }} state - The root state.
+ * @returns {boolean} `true` if an older entry may be shown.
+ */
+export const selectCanGoBack = (state: {
+  history: HistoryState;
+  safeMode: SafeModeState;
+}) => selectPreviousEntry(state) !== -1;
+
+/**
+ * Select whether there is a newer entry to step forward to.
+ *
+ * @function selectCanGoForward
+ * @param {{ history: HistoryState, safeMode: SafeModeState }} state - The root state.
+ * @returns {boolean} `true` if a newer entry may be shown.
+ */
+export const selectCanGoForward = (state: {
+  history: HistoryState;
+  safeMode: SafeModeState;
+}) => selectNextEntry(state) !== -1;
+
+export default historySlice.reducer;
@@ -0,0 +1,118 @@
+import { createEntityAdapter, createSlice } from '@reduxjs/toolkit';
+import { parseJoke } from '@/lib/api/validation';
+import { readStorage } from '@/lib/storage';
+import {
+  fetchJokeByCategory,
+  fetchJokeById,
+  fetchLuckyJoke,
+  fetchRandomJoke,
+  searchJokes,
+} from './jokesSlice';
+import { fetchBatchItem } from './batchSlice';
+import type { Joke, JokeIndexState } from '@/types/jokeTypes';
+
+/** Local storage key of the indexed jokes. */
+export const JOKE_INDEX_STORAGE_KEY = 'jokeIndex';
+
+/** Maximum number of jokes kept; the least recently received are dropped first. */
+export const JOKE_INDEX_LIMIT = 500;
+
+/** Stores jokes by upstream joke id, most recently received first. */
+const jokeIndexAdapter = createEntityAdapter<Joke>();
+
+/**
+ * Read the jokes indexed by a previous session.
+ *
+ * Entries that are not valid jokes are dropped instead of failing the whole
+ * index.
+ *
+ * @function loadJokeIndex
+ * @returns {Joke[]} The indexed jokes, in their saved order.
+ */
+function loadJokeIndex(): Joke[] {
+  const saved = readStorage(JOKE_INDEX_STORAGE_KEY);
+  if (!Array.isArray(saved)) return [];
+
+  return saved
+    .flatMap((item) => {
+      try {
+        return [parseJoke(JOKE_INDEX_STORAGE_KEY, item)];
+      } catch {
+        return [];
+      }
+    })
+    .slice(0, JOKE_INDEX_LIMIT);
+}
+
+/**
+ * Add received jokes to the top of the index, replacing older copies.
+ *
+ * @param {JokeIndexState} state - Draft index state.
+ * @param {Joke[]} jokes - The received jokes, in their received order.
+ */
+function indexJokes(state: JokeIndexState, jokes: Joke[]) {
+  const ids = jokes.map((joke) => joke.id);
+  state.ids = [...new Set([...ids, ...state.ids])];
+  for (const joke of jokes) state.entities[joke.id] = joke;
+  for (const id of state.ids.splice(JOKE_INDEX_LIMIT)) {
+    delete state.entities[id];
+  }
+}
+
+/**
+ * Redux slice indexing every joke the app receives, so it can be searched
+ * offline (see `searchJokes` with the `local` source).
+ *
+ * Jokes are added when a joke, a search or a batch card loads. The state is
+ * restored from local storage and written back by `persistState`.
+ */
+export const jokeIndexSlice = createSlice({
+  name: 'jokeIndex',
+  initialState: (): JokeIndexState =>
+    jokeIndexAdapter.setAll(
+      jokeIndexAdapter.getInitialState(),
+      loadJokeIndex()
+    ),
+  reducers: {
+    /**
+     * Forget every indexed joke.
+     */
+    clearJokeIndex: (state) => {
+      jokeIndexAdapter.removeAll(state);
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchRandomJoke.fulfilled, (state, action) => {
+        indexJokes(state, [action.payload]);
+      })
+      .addCase(fetchJokeByCategory.fulfilled, (state, action) => {
+        indexJokes(state, [action.payload.joke]);
+      })
+      .addCase(fetchLuckyJoke.fulfilled, (state, action) => {
+        indexJokes(state, [action.payload]);
+      })
+      .addCase(fetchJokeById.fulfilled, (state, action) => {
+        indexJokes(state, [action.payload]);
+      })
+      .addCase(searchJokes.fulfilled, (state, action) => {
+        indexJokes(state, action.payload.result);
+      })
+      .addCase(fetchBatchItem.fulfilled, (state, action) => {
+        indexJokes(state, [action.payload]);
+      });
+  },
+});
+
+export const { clearJokeIndex } = jokeIndexSlice.actions;
+
+export const {
+  /** Select every indexed joke, most recently received first. */
+  selectAll: selectIndexedJokes,
+  /** Select the number of indexed jokes. */
+  selectTotal: selectIndexedJokesCount,
+} = jokeIndexAdapter.getSelectors(
+  (state: { jokeIndex: JokeIndexState }) => state.jokeIndex
+);
+
+export default jokeIndexSlice.reducer;
@@ -1,64 +1,504 @@
-import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import {
+  createAction,
+  createSlice,
+  createAsyncThunk,
+  createSelector,
+  isAnyOf,
+  isPending,
+  type PayloadAction,
+  type ThunkAction,
+  type UnknownAction,
+} from '@reduxjs/toolkit';
+import * as jokesApi from '@/lib/api/jokesApi';
+import { FILTER_MAX_FETCHES } from '@/lib/api/config';
+import { toJokeError } from '@/lib/api/errors';
+import { withRetry } from '@/lib/api/retry';
+import { abortChannel, supersede } from '@/lib/api/supersede';
+import { fuzzySearch } from '@/lib/fuzzySearch';
+import { isJokeBlocked, maskJoke, safeJoke } from '@/lib/safeMode';
+import { sortJokes } from '@/lib/sortJokes';
+import { isLowRated } from './ratingsSlice';
+import type {
+  Joke,
+  JokeError,
+  JokeIndexState,
+  JokeRequest,
+  JokeSearchResponse,
+  JokesState,
+  NoRepeatState,
+  OperationState,
+  RatingsState,
+  RetryStatus,
+  SafeModeState,
+  SearchSort,
+  SearchSource,
+} from '@/types/jokeTypes';
 
-// Z ENV súboru
-const API_BASE = import.meta.env.VITE_CHUCK_NORRIS_API;
+/**
+ * Channel shared by the requests that load the joke card (random, category,
+ * lucky, id). Starting one aborts the previous.
+ */
+const JOKE_CHANNEL = 'joke';
+
+/** Channel of the search result requests. */
+const SEARCH_CHANNEL = 'search';
+
+/** Parts of the root state read by the joke thunks. */
+type JokesRootState = {
+  jokes: JokesState;
+  noRepeat: NoRepeatState;
+  safeMode: SafeModeState;
+  jokeIndex: JokeIndexState;
+  ratings: RatingsState;
+};
+
+/**
+ * Dispatched by a thunk right before it waits to retry a failed attempt.
+ */
+export const retryScheduled = createAction<RetryStatus>('jokes/retryScheduled');
+
+/**
+ * Error returned when a search matches no jokes.
+ *
+ * @function emptySearchError
+ * @param {string} query - The search term.
+ * @returns {JokeError} An `empty-search` error.
+ */
+const emptySearchError = (query: string): JokeError => ({
+  kind: 'empty-search',
+  message: 'No joke found for this query',
+  query,
+});
+
+/**
+ * Error returned when a category does not exist.
+ *
+ * @function invalidCategoryError
+ * @param {string} category - The requested category.
+ * @returns {JokeError} An `invalid-category` error.
+ */
+const invalidCategoryError = (category: string): JokeError => ({
+  kind: 'invalid-category',
+  message: `Unknown category "${category}"`,
+  category,
+});
+
+/**
+ * Error returned when no joke has the requested id.
+ *
+ * @function notFoundError
+ * @param {string} id - The requested joke id.
+ * @returns {JokeError} A `not-found` error.
+ */
+const notFoundError = (id: string): JokeError => ({
+  kind: 'not-found',
+  message: `No joke with id "${id}"`,
+  id,
+});
+
+/**
+ * Error returned when no-repeat mode only received already seen jokes.
+ *
+ * @function exhaustedError
+ * @param {string} [category] - The category that appears exhausted.
+ * @returns {JokeError} An `exhausted` error.
+ */
+const exhaustedError = (category?: string): JokeError => ({
+  kind: 'exhausted',
+  message: `Only seen jokes after ${FILTER_MAX_FETCHES} fetches`,
+  ...(category !== undefined && { category }),
+});
+
+/**
+ * Error returned when safe mode hides what was requested.
+ *
+ * @function blockedError
+ * @param {Pick<JokeError, 'category' | 'query' | 'id'>} [target] - The blocked category, the query whose matches are all blocked, or the blocked joke id.
+ * @returns {JokeError} A `blocked` error.
+ */
+const blockedError = (
+  target: Pick<JokeError, 'category' | 'query' | 'id'> = {}
+): JokeError => ({
+  kind: 'blocked',
+  message: 'Hidden by safe mode',
+  ...target,
+});
+
+/**
+ * Build the check a fetched joke must pass to be shown: not seen yet in
+ * no-repeat mode, and outside the blocked categories in safe mode.
+ *
+ * @function acceptJoke
+ * @param {JokesRootState} state - The root state.
+ * @returns {(joke: Joke) => boolean} The check.
+ */
+function acceptJoke({
+  noRepeat,
+  safeMode,
+}: JokesRootState): (joke: Joke) => boolean {
+  const seen = new Set(noRepeat.enabled ? noRepeat.seenIds : []);
+  const blocked = safeMode.enabled ? safeMode.blockedCategories : [];
+  return (joke) => !seen.has(joke.id) && !isJokeBlocked(joke, blocked);
+}
+
+/**
+ * Mask the profanity of a joke while safe mode is on.
+ *
+ * @function presentJoke
+ * @param {Joke} joke - A fetched joke.
+ * @param {SafeModeState} safeMode - The safe mode settings.
+ * @returns {Joke} The joke to store.
+ */
+const presentJoke = (joke: Joke, { enabled }: SafeModeState): Joke =>
+  enabled ? maskJoke(joke) : joke;
+
+/**
+ * Build the check preferring jokes the user has not rated poorly, while
+ * `avoidLowRated` is on.
+ *
+ * @function preferJoke
+ * @param {JokesRootState} state - The root state.
+ * @returns {(joke: Joke) => boolean} The check.
+ */
+const preferJoke =
+  ({ ratings }: JokesRootState) =>
+  (joke: Joke) =>
+    !isLowRated(ratings, joke.id);
+
+/**
+ * Fetch random jokes until one passes `accept` and `prefer`.
+ *
+ * Without no-repeat, safe mode and rating preferences every joke passes, so
+ * the first is returned. If no fetched joke is preferred, the first accepted
+ * one is returned instead.
+ *
+ * @async
+ * @function fetchAccepted
+ * @param {() => Promise<Joke>} fetchJoke - Fetches one random joke.
+ * @param {(joke: Joke) => boolean} accept - Whether a joke may be shown.
+ * @param {(joke: Joke) => boolean} [prefer] - Whether an accepted joke is worth showing over fetching another.
+ * @returns {Promise<Joke | null>} An accepted joke, or `null` if every fetch returned a rejected one.
+ */
+async function fetchAccepted(
+  fetchJoke: () => Promise<Joke>,
+  accept: (joke: Joke) => boolean,
+  prefer: (joke: Joke) => boolean = () => true
+): Promise<Joke | null> {
+  let fallback: Joke | null = null;
+  for (let i = 0; i < FILTER_MAX_FETCHES; i++) {
+    const joke = await fetchJoke();
+    if (!accept(joke)) continue;
+    if (prefer(joke)) return joke;
+    fallback ??= joke;
+  }
+  return fallback;
+}
+
+/**
+ * Error returned when `fetchAccepted` gave up: repeated jokes in no-repeat
+ * mode, blocked jokes otherwise.
+ *
+ * @function rejectedError
+ * @param {JokesRootState} state - The root state.
+ * @param {string} [category] - The category jokes were fetched from.
+ * @returns {JokeError} An `exhausted` or `blocked` error.
+ */
+const rejectedError = (
+  { noRepeat }: JokesRootState,
+  category?: string
+): JokeError =>
+  noRepeat.enabled
+    ? exhaustedError(category)
+    : blockedError(category !== undefined ? { category } : {});
+
+/**
+ * Run an API call with retries, reporting each scheduled retry to the store.
+ *
+ * @async
+ * @function retrying
+ * @param {(signal: AbortSignal) => Promise<T>} call - The API call.
+ * @param {object} thunkAPI - Helpers of the calling thunk.
+ * @param {string | null} channel - Supersede channel, or `null` for independent requests.
+ * @returns {Promise<T>} The result of the first successful attempt.
+ */
+function retrying<T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  {
+    dispatch,
+    requestId,
+    signal,
+  }: {
+    dispatch: (action: UnknownAction) => unknown;
+    requestId: string;
+    signal: AbortSignal;
+  },
+  channel: string | null = JOKE_CHANNEL
+): Promise<T> {
+  const requestSignal = channel ? supersede(channel, signal) : signal;
+  return withRetry(() => call(requestSignal), {
+    signal: requestSignal,
+    onRetry: (attempt, maxAttempts) =>
+      dispatch(retryScheduled({ requestId, attempt, maxAttempts })),
+  });
+}
 
 /**
  * Fetch a random joke from the Chuck Norris API.
+ * In no-repeat mode, jokes that were already seen are re-fetched; in safe
+ * mode, so are jokes from blocked categories, and profanity is masked.
+ * Jokes rated poorly are re-fetched while `avoidLowRated` is on.
  *
  * @async
  * @function fetchRandomJoke
- * @returns {Promise<string>} A random joke string.
- */
-export const fetchRandomJoke = createAsyncThunk(
-  'jokes/fetchRandomJoke',
-  async () => {
-    const res = await fetch(`${API_BASE}/random`);
-    const data = await res.json();
-    return data.value;
+ * @returns {Promise<Joke>} A random joke.
+ */
+export const fetchRandomJoke = createAsyncThunk<
+  Joke,
+  void,
+  { rejectValue: JokeError; state: JokesRootState }
+>('jokes/fetchRandomJoke', async (_, thunkAPI) => {
+  const state = thunkAPI.getState();
+  try {
+    const joke = await retrying(
+      (signal) =>
+        fetchAccepted(
+          () => jokesApi.getRandomJoke(undefined, { signal }),
+          acceptJoke(state),
+          preferJoke(state)
+        ),
+      thunkAPI
+    );
+    if (!joke) return thunkAPI.rejectWithValue(rejectedError(state));
+    return presentJoke(joke, state.safeMode);
+  } catch (err) {
+    return thunkAPI.rejectWithValue(toJokeError(err));
   }
-);
+});
 
 /**
  * Fetch a random joke from a specific category.
+ * In no-repeat mode, jokes that were already seen are re-fetched; a category
+ * that keeps returning seen jokes is reported as `exhausted`. In safe mode a
+ * blocked category is rejected as `blocked` without a request. Jokes rated
+ * poorly are re-fetched while `avoidLowRated` is on.
  *
  * @async
  * @function fetchJokeByCategory
  * @param {string} category - The category to fetch a joke from.
- * @returns {Promise<{ joke: string, category: string }>} A random joke and its category.
- */
-export const fetchJokeByCategory = createAsyncThunk(
-  'jokes/fetchJokeByCategory',
-  async (category: string) => {
-    const res = await fetch(`${API_BASE}/random?category=${category}`);
-    const data = await res.json();
-    return { joke: data.value, category };
+ * @returns {Promise<{ joke: Joke, category: string }>} A random joke and its category.
+ */
+export const fetchJokeByCategory = createAsyncThunk<
+  { joke: Joke; category: string },
+  string,
+  { rejectValue: JokeError; state: JokesRootState }
+>('jokes/fetchJokeByCategory', async (category, thunkAPI) => {
+  const state = thunkAPI.getState();
+  const { categories } = state.jokes;
+  if (categories.length > 0 && !categories.includes(category)) {
+    return thunkAPI.rejectWithValue(invalidCategoryError(category));
+  }
+  const { enabled, blockedCategories } = state.safeMode;
+  if (enabled && blockedCategories.includes(category)) {
+    return thunkAPI.rejectWithValue(blockedError({ category }));
   }
-);
+
+  try {
+    const joke = await retrying(
+      (signal) =>
+        fetchAccepted(
+          () => jokesApi.getRandomJoke(category, { signal }),
+          acceptJoke(state),
+          preferJoke(state)
+        ),
+      thunkAPI
+    );
+    if (!joke) return thunkAPI.rejectWithValue(rejectedError(state, category));
+    return { joke: presentJoke(joke, state.safeMode), category };
+  } catch (err) {
+    const error = toJokeError(err);
+    // The API answers 404 for categories it does not know
+    return thunkAPI.rejectWithValue(
+      error.kind === 'http' && error.status === 404
+        ? invalidCategoryError(category)
+        : error
+    );
+  }
+});
 
 /**
- * Search jokes by a text query.
- * Returns a random joke from the search results.
+ * Fetch exactly the joke with the given upstream id, e.g. from a shared link.
+ * An unknown id is reported as `not-found` rather than as an HTTP error, and
+ * a joke from a blocked category as `blocked` in safe mode.
+ *
+ * @async
+ * @function fetchJokeById
+ * @param {string} id - Upstream joke id.
+ * @returns {Promise<Joke>} The requested joke.
+ */
+export const fetchJokeById = createAsyncThunk<
+  Joke,
+  string,
+  { rejectValue: JokeError; state: JokesRootState }
+>('jokes/fetchJokeById', async (id, thunkAPI) => {
+  const { safeMode } = thunkAPI.getState();
+  try {
+    const joke = await retrying(
+      (signal) => jokesApi.getJokeById(id, { signal }),
+      thunkAPI
+    );
+    if (safeMode.enabled && isJokeBlocked(joke, safeMode.blockedCategories)) {
+      return thunkAPI.rejectWithValue(blockedError({ id }));
+    }
+    return presentJoke(joke, safeMode);
+  } catch (err) {
+    const error = toJokeError(err);
+    // The API answers 404 for ids it does not know
+    return thunkAPI.rejectWithValue(
+      error.kind === 'http' && error.status === 404 ? notFoundError(id) : error
+    );
+  }
+});
+
+/**
+ * Keep the search matches that may be shown: in safe mode, jokes from blocked
+ * categories are dropped and profanity is masked.
+ *
+ * @function safeResults
+ * @param {Joke[]} result - The jokes returned by the API.
+ * @param {SafeModeState} safeMode - The safe mode settings.
+ * @returns {Joke[]} The jokes to show.
+ */
+const safeResults = (result: Joke[], safeMode: SafeModeState): Joke[] =>
+  safeMode.enabled
+    ? result
+        .filter((joke) => !isJokeBlocked(joke, safeMode.blockedCategories))
+        .map(maskJoke)
+    : result;
+
+/**
+ * Find the jokes matching a query in the current search source: the API, or
+ * the indexed jokes ranked by `fuzzySearch` (no request, so it works offline).
+ *
+ * @async
+ * @function findMatches
+ * @param {string} query - The search term.
+ * @param {JokesRootState} state - The root state.
+ * @param {object} thunkAPI - Helpers of the calling thunk.
+ * @param {string | null} [channel] - Supersede channel of the API request.
+ * @returns {Promise<JokeSearchResponse>} The matches, best first for local searches.
+ */
+async function findMatches(
+  query: string,
+  { jokes, jokeIndex }: JokesRootState,
+  thunkAPI: Parameters<typeof retrying>[1],
+  channel?: string | null
+): Promise<JokeSearchResponse> {
+  if (jokes.searchSource === 'local') {
+    const indexed = jokeIndex.ids.map((id) => jokeIndex.entities[id]);
+    const result = fuzzySearch(indexed, query).map((match) => match.joke);
+    return { total: result.length, result };
+  }
+  return retrying(
+    (signal) => jokesApi.searchJokes(query, { signal }),
+    thunkAPI,
+    channel
+  );
+}
+
+/**
+ * Argument of `searchJokes`: the query, or the query of a live search (run
+ * as the user types), whose URL replaces the previous live search's.
+ */
+type SearchArg = string | { query: string; live: boolean };
+
+/**
+ * Read the query of a `searchJokes` argument.
+ *
+ * @param {SearchArg} arg - The argument.
+ * @returns {string} The search term.
+ */
+const searchArgQuery = (arg: SearchArg): string =>
+  typeof arg === 'object' ? arg.query : arg;
+
+/**
+ * Search jokes by a text query, in the API or in the local index depending
+ * on `searchSource`.
+ * Returns every matching joke so the results can be browsed. In safe mode,
+ * `total` counts only the matches that are not blocked.
  *
  * @async
  * @function searchJokes
+ * @param {SearchArg} arg - The search term, or `{ query, live: true }` for a search run while typing.
+ * @param {object} thunkAPI - Redux thunk API helpers.
+ * @param {Function} thunkAPI.rejectWithValue - Used to return a typed {@link JokeError}.
+ * @returns {Promise<{ query: string, total: number, result: Joke[] }>} The query and its matches.
+ */
+export const searchJokes = createAsyncThunk<
+  JokeSearchResponse & { query: string },
+  SearchArg,
+  { rejectValue: JokeError; state: JokesRootState }
+>('jokes/searchJokes', async (arg, thunkAPI) => {
+  const query = searchArgQuery(arg);
+  const state = thunkAPI.getState();
+  const { safeMode } = state;
+  try {
+    const { total, result } = await findMatches(
+      query,
+      state,
+      thunkAPI,
+      SEARCH_CHANNEL
+    );
+    if (result.length === 0) {
+      return thunkAPI.rejectWithValue(emptySearchError(query));
+    }
+    const shown = safeResults(result, safeMode);
+    if (shown.length === 0) {
+      return thunkAPI.rejectWithValue(blockedError({ query }));
+    }
+    return {
+      query,
+      total: safeMode.enabled ? shown.length : total,
+      result: shown,
+    };
+  } catch (err) {
+    return thunkAPI.rejectWithValue(toJokeError(err));
+  }
+});
+
+/**
+ * "I'm feeling lucky" search.
+ * Returns a random joke from the search results (API or local index, see
+ * `searchSource`), skipping blocked jokes in safe mode.
+ *
+ * @async
+ * @function fetchLuckyJoke
  * @param {string} query - The search term.
  * @param {object} thunkAPI - Redux thunk API helpers.
- * @param {Function} thunkAPI.rejectWithValue - Used to return a custom error message.
- * @returns {Promise<string>} A random joke from the search results.
- */
-export const searchJokes = createAsyncThunk(
-  'jokes/searchJokes',
-  async (query: string, { rejectWithValue }) => {
-    const res = await fetch(`${API_BASE}/search?query=${query}`);
-    const data = await res.json();
-    if (data.result.length === 0) {
-      return rejectWithValue('No joke found for this query');
+ * @param {Function} thunkAPI.rejectWithValue - Used to return a typed {@link JokeError}.
+ * @returns {Promise<Joke>} A random joke from the search results.
+ */
+export const fetchLuckyJoke = createAsyncThunk<
+  Joke,
+  string,
+  { rejectValue: JokeError; state: JokesRootState }
+>('jokes/fetchLuckyJoke', async (query, thunkAPI) => {
+  const state = thunkAPI.getState();
+  const { safeMode } = state;
+  try {
+    const { result } = await findMatches(query, state, thunkAPI);
+    if (result.length === 0) {
+      return thunkAPI.rejectWithValue(emptySearchError(query));
     }
-    const randomIndex = Math.floor(Math.random() * data.result.length);
-    return data.result[randomIndex].value;
+    const shown = safeResults(result, safeMode);
+    if (shown.length === 0) {
+      return thunkAPI.rejectWithValue(blockedError({ query }));
+    }
+    const randomIndex = Math.floor(Math.random() * shown.length);
+    return shown[randomIndex];
+  } catch (err) {
+    return thunkAPI.rejectWithValue(toJokeError(err));
   }
-);
+});
 
 /**
  * Fetch all available joke categories from the Chuck Norris API.
@@ -67,134 +507,539 @@ export const searchJokes = createAsyncThunk(
  * @function fetchCategories
  * @returns {Promise<string[]>} An array of category names.
  */
-export const fetchCategories = createAsyncThunk(
-  'jokes/fetchCategories',
-  async () => {
-    const res = await fetch(`${API_BASE}/categories`);
-    const data = await res.json();
-    return data as string[];
+export const fetchCategories = createAsyncThunk<
+  string[],
+  void,
+  { rejectValue: JokeError }
+>('jokes/fetchCategories', async (_, thunkAPI) => {
+  try {
+    return await retrying(
+      (signal) => jokesApi.getCategories({ signal }),
+      thunkAPI,
+      null
+    );
+  } catch (err) {
+    return thunkAPI.rejectWithValue(toJokeError(err));
   }
-);
+});
+
+/**
+ * Dispatch the thunk matching a joke intent.
+ *
+ * @function requestJoke
+ * @param {JokeRequest} request - What the user asked for.
+ * @returns {ThunkAction} A thunk dispatching `fetchRandomJoke`, `fetchJokeByCategory`, `searchJokes`, `fetchLuckyJoke` or `fetchJokeById`.
+ */
+export const requestJoke =
+  (
+    request: JokeRequest
+  ): ThunkAction<void, JokesRootState, unknown, UnknownAction> =>
+  (dispatch) => {
+    switch (request.type) {
+      case 'random':
+        dispatch(fetchRandomJoke());
+        break;
+      case 'category':
+        dispatch(fetchJokeByCategory(request.category));
+        break;
+      case 'search':
+        dispatch(searchJokes(request.query));
+        break;
+      case 'lucky':
+        dispatch(fetchLuckyJoke(request.query));
+        break;
+      case 'id':
+        dispatch(fetchJokeById(request.id));
+        break;
+    }
+  };
 
 /**
- * Shape of the jokes state stored in Redux.
+ * Repeat the latest intent of an operation, e.g. after it failed.
  *
- * @typedef {Object} JokesState
- * @property {string | null} value - The current joke text.
- * @property {string | null} category - The category of the current joke.
- * @property {string[]} categories - List of available categories.
- * @property {string | null} error - Error message, if any.
- * @property {boolean} loading - Whether a request is currently loading.
- * @property {boolean} hasSearched - Whether the user has initiated a search or fetch.
+ * @function retryLastRequest
+ * @param {'joke' | 'search'} [operation='joke'] - Which operation to repeat.
+ * @returns {ThunkAction} A thunk re-dispatching the last request, if any.
  */
-type JokesState = {
-  value: string | null;
-  category: string | null;
-  categories: string[];
-  error: string | null;
-  loading: boolean;
-  hasSearched: boolean;
+export const retryLastRequest =
+  (
+    operation: 'joke' | 'search' = 'joke'
+  ): ThunkAction<void, JokesRootState, unknown, UnknownAction> =>
+  (dispatch, getState) => {
+    const request = getState().jokes.lastRequests[operation];
+    if (request) dispatch(requestJoke(request));
+  };
+
+/** Status of an operation that has not run yet. */
+const idleOperation: OperationState = {
+  status: 'idle',
+  requestId: null,
+  error: null,
+  retry: null,
+  startedAt: null,
+  finishedAt: null,
 };
 
 /** @type {JokesState} */
 const initialState: JokesState = {
-  value: null,
+  joke: null,
   category: null,
+  jokeQuery: null,
   categories: [],
-  error: null,
-  loading: false,
+  requests: {
+    categories: idleOperation,
+    joke: idleOperation,
+    search: idleOperation,
+  },
   hasSearched: false,
+  lastRequests: { joke: null, search: null },
+  searchQuery: null,
+  searchResults: [],
+  searchTotal: 0,
+  searchSort: 'relevance',
+  searchSource: 'remote',
+  searchLive: false,
 };
 
+/**
+ * Mark a new request of an operation as started.
+ *
+ * @param {OperationState} operation - The operation's draft state.
+ * @param {string} requestId - Id of the started request.
+ */
+function startRequest(operation: OperationState, requestId: string) {
+  operation.status = 'pending';
+  operation.requestId = requestId;
+  operation.error = null;
+  operation.retry = null;
+  operation.startedAt = Date.now();
+  operation.finishedAt = null;
+}
+
+/**
+ * Settle the latest request of an operation.
+ *
+ * @param {OperationState} operation - The operation's draft state.
+ * @param {JokeError | null} error - The failure, or `null` on success.
+ */
+function finishRequest(operation: OperationState, error: JokeError | null) {
+  operation.status = error ? 'failed' : 'succeeded';
+  operation.error = error;
+  operation.retry = null;
+  operation.finishedAt = Date.now();
+}
+
+/**
+ * Leave results mode because a joke was loaded into the card another way,
+ * so the card, not stale results, is what the URL describes.
+ *
+ * @param {JokesState} state - The jokes draft state.
+ */
+function dropSearchResults(state: JokesState) {
+  state.searchQuery = null;
+  state.searchResults = [];
+  state.searchTotal = 0;
+}
+
+/**
+ * Error stored when a request is rejected without a typed payload.
+ *
+ * @param {string} message - Fallback message.
+ * @returns {JokeError} An `unknown` error.
+ */
+const fallbackError = (message: string): JokeError => ({
+  kind: 'unknown',
+  message,
+});
+
 /**
  * Redux slice for managing jokes and categories.
  *
  * Handles async thunks:
- * - `fetchRandomJoke`
- * - `fetchJokeByCategory`
- * - `searchJokes`
- * - `fetchCategories`
+ * - `fetchRandomJoke`, `fetchJokeByCategory`, `fetchLuckyJoke`, `fetchJokeById` (`joke` operation)
+ * - `searchJokes` (`search` operation)
+ * - `fetchCategories` (`categories` operation)
  *
- * Updates state based on pending/fulfilled/rejected actions.
+ * Each operation keeps its own status in `requests`, so e.g. loading the
+ * categories does not hide the joke card. Requests record their `requestId`
+ * when they start; results of a request that has since been superseded are
+ * ignored so only the latest intent is shown. `retryScheduled` updates the
+ * retry progress of the matching operation.
  */
 export const jokesSlice = createSlice({
   name: 'jokes',
   initialState,
-  reducers: {},
+  reducers: {
+    /**
+     * Change the order in which search results are listed.
+     */
+    setSearchSort: (state, action: PayloadAction<SearchSort>) => {
+      state.searchSort = action.payload;
+    },
+
+    /**
+     * Switch between searching the API and the jokes received so far.
+     */
+    setSearchSource: (state, action: PayloadAction<SearchSource>) => {
+      state.searchSource = action.payload;
+    },
+
+    /**
+     * Leave results mode and drop the stored search results.
+     */
+    clearSearchResults: (state) => {
+      dropSearchResults(state);
+      state.requests.search = idleOperation;
+    },
+
+    /**
+     * Drop the pending search, keeping the results of the previous one.
+     * Its response is ignored because the request id no longer matches.
+     */
+    searchCancelled: (state) => {
+      state.requests.search = idleOperation;
+    },
+
+    /**
+     * Show a joke that is already known (e.g. a favorite) in the card;
+     * dispatched by `showJoke`.
+     *
+     * A pending joke request is dropped so its response cannot replace it.
+     */
+    jokeShown: (state, action: PayloadAction<Joke>) => {
+      dropSearchResults(state);
+      state.joke = action.payload;
+      state.category = action.payload.categories.join(', ') || null;
+      state.jokeQuery = null;
+      state.hasSearched = true;
+      state.requests.joke = idleOperation;
+    },
+
+    /**
+     * Report that a known joke is hidden by safe mode instead of showing it;
+     * dispatched by `showJoke`.
+     */
+    jokeHidden: (state, action: PayloadAction<string>) => {
+      state.joke = null;
+      state.category = null;
+      state.jokeQuery = null;
+      state.hasSearched = true;
+      state.requests.joke = {
+        ...idleOperation,
+        status: 'failed',
+        error: blockedError({ id: action.payload }),
+        finishedAt: Date.now(),
+      };
+    },
+  },
   extraReducers: (builder) => {
     builder
       // Random joke
-      .addCase(fetchRandomJoke.pending, (state) => {
-        state.loading = true;
-        state.error = null;
+      .addCase(fetchRandomJoke.pending, (state, action) => {
+        startRequest(state.requests.joke, action.meta.requestId);
+        state.lastRequests.joke = { type: 'random' };
       })
       .addCase(fetchRandomJoke.fulfilled, (state, action) => {
-        state.value = action.payload;
+        if (action.meta.requestId !== state.requests.joke.requestId) return;
+        finishRequest(state.requests.joke, null);
+        dropSearchResults(state);
+        state.joke = action.payload;
         state.category = null;
-        state.error = null;
-        state.loading = false;
+        state.jokeQuery = null;
         state.hasSearched = true;
       })
-      .addCase(fetchRandomJoke.rejected, (state) => {
-        state.error = 'Failed to fetch joke';
-        state.value = null;
-        state.loading = false;
+      .addCase(fetchRandomJoke.rejected, (state, action) => {
+        if (action.meta.requestId !== state.requests.joke.requestId) return;
+        finishRequest(
+          state.requests.joke,
+          action.payload ?? fallbackError('Failed to fetch joke')
+        );
+        state.joke = null;
+        state.jokeQuery = null;
         state.hasSearched = true;
       })
 
       // Joke by category
-      .addCase(fetchJokeByCategory.pending, (state) => {
-        state.loading = true;
-        state.error = null;
+      .addCase(fetchJokeByCategory.pending, (state, action) => {
+        startRequest(state.requests.joke, action.meta.requestId);
+        state.lastRequests.joke = {
+          type: 'category',
+          category: action.meta.arg,
+        };
       })
       .addCase(fetchJokeByCategory.fulfilled, (state, action) => {
-        state.value = action.payload.joke;
+        if (action.meta.requestId !== state.requests.joke.requestId) return;
+        finishRequest(state.requests.joke, null);
+        dropSearchResults(state);
+        state.joke = action.payload.joke;
         state.category = action.payload.category;
-        state.error = null;
-        state.loading = false;
+        state.jokeQuery = null;
+        state.hasSearched = true;
+      })
+      .addCase(fetchJokeByCategory.rejected, (state, action) => {
+        if (action.meta.requestId !== state.requests.joke.requestId) return;
+        finishRequest(
+          state.requests.joke,
+          action.payload ?? fallbackError('Failed to fetch joke')
+        );
+        state.joke = null;
+        state.jokeQuery = null;
+        state.hasSearched = true;
+      })
+
+      // Lucky search
+      .addCase(fetchLuckyJoke.pending, (state, action) => {
+        startRequest(state.requests.joke, action.meta.requestId);
+        state.lastRequests.joke = { type: 'lucky', query: action.meta.arg };
+      })
+      .addCase(fetchLuckyJoke.fulfilled, (state, action) => {
+        if (action.meta.requestId !== state.requests.joke.requestId) return;
+        finishRequest(state.requests.joke, null);
+        dropSearchResults(state);
+        state.joke = action.payload;
+        state.category = null;
+        state.jokeQuery = action.meta.arg;
         state.hasSearched = true;
       })
-      .addCase(fetchJokeByCategory.rejected, (state) => {
-        state.error = 'Failed to fetch joke';
-        state.value = null;
-        state.loading = false;
+      .addCase(fetchLuckyJoke.rejected, (state, action) => {
+        if (action.meta.requestId !== state.requests.joke.requestId) return;
+        finishRequest(
+          state.requests.joke,
+          action.payload ?? fallbackError('Failed to fetch joke')
+        );
+        state.joke = null;
+        state.jokeQuery = null;
+        state.hasSearched = true;
+      })
+
+      // Joke by id
+      .addCase(fetchJokeById.pending, (state, action) => {
+        startRequest(state.requests.joke, action.meta.requestId);
+        state.lastRequests.joke = { type: 'id', id: action.meta.arg };
+      })
+      .addCase(fetchJokeById.fulfilled, (state, action) => {
+        if (action.meta.requestId !== state.requests.joke.requestId) return;
+        finishRequest(state.requests.joke, null);
+        dropSearchResults(state);
+        state.joke = action.payload;
+        state.category = action.payload.categories.join(', ') || null;
+        state.jokeQuery = null;
+        state.hasSearched = true;
+      })
+      .addCase(fetchJokeById.rejected, (state, action) => {
+        if (action.meta.requestId !== state.requests.joke.requestId) return;
+        finishRequest(
+          state.requests.joke,
+          action.payload ?? fallbackError('Failed to fetch joke')
+        );
+        state.joke = null;
+        state.jokeQuery = null;
         state.hasSearched = true;
       })
 
       // Search jokes
-      .addCase(searchJokes.pending, (state) => {
-        state.loading = true;
-        state.error = null;
+      .addCase(searchJokes.pending, (state, action) => {
+        const { arg } = action.meta;
+        startRequest(state.requests.search, action.meta.requestId);
+        state.lastRequests.search = {
+          type: 'search',
+          query: searchArgQuery(arg),
+        };
+        state.searchLive = typeof arg === 'object' && arg.live;
       })
       .addCase(searchJokes.fulfilled, (state, action) => {
-        state.value = action.payload;
-        state.category = null;
-        state.error = null;
-        state.loading = false;
+        if (action.meta.requestId !== state.requests.search.requestId) return;
+        finishRequest(state.requests.search, null);
+        state.searchQuery = action.payload.query;
+        state.searchResults = action.payload.result;
+        state.searchTotal = action.payload.total;
         state.hasSearched = true;
       })
       .addCase(searchJokes.rejected, (state, action) => {
-        state.error = (action.payload as string) || 'Failed to fetch joke';
-        state.value = null;
-        state.loading = false;
+        if (action.meta.requestId !== state.requests.search.requestId) return;
+        finishRequest(
+          state.requests.search,
+          action.payload ?? fallbackError('Failed to fetch joke')
+        );
+        state.searchQuery = null;
+        state.searchResults = [];
+        state.searchTotal = 0;
         state.hasSearched = true;
       })
 
       // Fetch categories
-      .addCase(fetchCategories.pending, (state) => {
-        state.loading = true;
-        state.error = null;
+      .addCase(fetchCategories.pending, (state, action) => {
+        startRequest(state.requests.categories, action.meta.requestId);
       })
       .addCase(fetchCategories.fulfilled, (state, action) => {
+        if (action.meta.requestId !== state.requests.categories.requestId)
+          return;
+        finishRequest(state.requests.categories, null);
         state.categories = action.payload;
-        state.loading = false;
-        state.error = null;
       })
-      .addCase(fetchCategories.rejected, (state) => {
-        state.error = 'Failed to fetch categories';
-        state.loading = false;
+      .addCase(fetchCategories.rejected, (state, action) => {
+        if (action.meta.requestId !== state.requests.categories.requestId)
+          return;
+        finishRequest(
+          state.requests.categories,
+          action.payload ?? fallbackError('Failed to fetch categories')
+        );
+      })
+
+      // Retries
+      .addCase(retryScheduled, (state, action) => {
+        for (const operation of Object.values(state.requests)) {
+          if (
+            operation.status === 'pending' &&
+            operation.requestId === action.payload.requestId
+          ) {
+            operation.retry = action.payload;
+          }
+        }
       });
   },
 });
 
+export const { setSearchSort, setSearchSource, clearSearchResults } =
+  jokesSlice.actions;
+
+/**
+ * Match the `pending` action of a request loading the joke card.
+ *
+ * @function isJokeRequestPending
+ */
+export const isJokeRequestPending = isPending(
+  fetchRandomJoke,
+  fetchJokeByCategory,
+  fetchLuckyJoke,
+  fetchJokeById
+);
+
+/**
+ * Match the actions dispatched by `showJoke`, which drop the pending joke
+ * request.
+ *
+ * @function isKnownJokeShown
+ */
+export const isKnownJokeShown = isAnyOf(
+  jokesSlice.actions.jokeShown,
+  jokesSlice.actions.jokeHidden
+);
+
+/**
+ * Show a joke that is already known (e.g. a favorite or a history entry) in
+ * the card. A joke request still in flight is aborted first, so its response
+ * cannot replace the joke. In safe mode its profanity is masked, and a joke
+ * from a blocked category is refused with a `blocked` error.
+ *
+ * @function showJoke
+ * @param {Joke} joke - The joke to show.
+ * @returns {ThunkAction} A thunk showing the joke or reporting it as hidden.
+ */
+export const showJoke =
+  (
+    joke: Joke
+  ): ThunkAction<void, { safeMode: SafeModeState }, unknown, UnknownAction> =>
+  (dispatch, getState) => {
+    abortChannel(JOKE_CHANNEL);
+    const shown = safeJoke(joke, getState().safeMode);
+    dispatch(
+      shown
+        ? jokesSlice.actions.jokeShown(shown)
+        : jokesSlice.actions.jokeHidden(joke.id)
+    );
+  };
+
+/**
+ * Abort the search that is in flight, e.g. because the query changed.
+ *
+ * @function cancelSearch
+ * @returns {ThunkAction} A thunk aborting the pending `searchJokes` request, if any.
+ */
+export const cancelSearch =
+  (): ThunkAction<void, JokesRootState, unknown, UnknownAction> =>
+  (dispatch, getState) => {
+    if (getState().jokes.requests.search.status !== 'pending') return;
+    abortChannel(SEARCH_CHANNEL);
+    dispatch(jokesSlice.actions.searchCancelled());
+  };
+
+/**
+ * Select the status of the category list request.
+ *
+ * @function selectCategoriesRequest
+ * @param {{ jokes: JokesState }} state - The root state.
+ * @returns {OperationState} The `categories` operation status.
+ */
+export const selectCategoriesRequest = (state: { jokes: JokesState }) =>
+  state.jokes.requests.categories;
+
+/**
+ * Select the card's joke as safe mode lets it be displayed. A joke loaded
+ * before safe mode was turned on is masked, or replaced by a `blocked` error
+ * if its category is blocked.
+ *
+ * @function selectCardJoke
+ * @param {object} state - The root state.
+ * @returns {{ joke: Joke | null, error: JokeError | null }} The joke to show, or why it is hidden.
+ */
+export const selectCardJoke = createSelector(
+  [
+    (state: { jokes: JokesState }) => state.jokes.joke,
+    (state: { safeMode: SafeModeState }) => state.safeMode,
+  ],
+  (joke, safeMode): { joke: Joke | null; error: JokeError | null } => {
+    if (!joke) return { joke: null, error: null };
+    const shown = safeJoke(joke, safeMode);
+    return shown
+      ? { joke: shown, error: null }
+      : { joke: null, error: blockedError({ id: joke.id }) };
+  }
+);
+
+/**
+ * Select the status of the current joke request.
+ *
+ * @function selectJokeRequest
+ * @param {{ jokes: JokesState }} state - The root state.
+ * @returns {OperationState} The `joke` operation status.
+ */
+export const selectJokeRequest = (state: { jokes: JokesState }) =>
+  state.jokes.requests.joke;
+
+/**
+ * Select the status of the search request.
+ *
+ * @function selectSearchRequest
+ * @param {{ jokes: JokesState }} state - The root state.
+ * @returns {OperationState} The `search` operation status.
+ */
+export const selectSearchRequest = (state: { jokes: JokesState }) =>
+  state.jokes.requests.search;
+
+/**
+ * Select the stored search results in the currently chosen order. In safe
+ * mode, results from blocked categories are left out and profanity is
+ * masked, even for results stored before safe mode was turned on.
+ *
+ * @function selectSortedSearchResults
+ * @param {{ jokes: JokesState, safeMode: SafeModeState }} state - The root state.
+ * @returns {Joke[]} The sorted search results safe mode lets be shown.
+ */
+export const selectSortedSearchResults = createSelector(
+  [
+    (state: { jokes: JokesState }) => state.jokes.searchResults,
+    (state: { jokes: JokesState }) => state.jokes.searchSort,
+    (state: { safeMode: SafeModeState }) => state.safeMode,
+  ],
+  (results, sort, safeMode) =>
+    sortJokes(
+      results.flatMap((joke) => {
+        const shown = safeJoke(joke, safeMode);
+        return shown ? [shown] : [];
+      }),
+      sort
+    )
+);
+
 export default jokesSlice.reducer;
@@ -0,0 +1,51 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+import { readStorage } from '@/lib/storage';
+import { DEFAULT_LOCALE, detectLocale, isLocale } from '@/lib/i18n/translate';
+import type { LocaleState } from '@/types/jokeTypes';
+
+/** Local storage key of the UI language. */
+export const LOCALE_STORAGE_KEY = 'locale';
+
+/**
+ * Read the UI language chosen in a previous session, or detect it from the
+ * browser's preferred languages.
+ *
+ * @function loadLocale
+ * @returns {LocaleState} The restored or detected language.
+ */
+function loadLocale(): LocaleState {
+  const saved = readStorage(LOCALE_STORAGE_KEY) as
+    | Partial<Record<keyof LocaleState, unknown>>
+    | undefined;
+  if (isLocale(saved?.locale)) return { locale: saved.locale };
+
+  return {
+    locale:
+      typeof navigator === 'undefined'
+        ? DEFAULT_LOCALE
+        : detectLocale(navigator.languages ?? [navigator.language]),
+  };
+}
+
+/**
+ * Redux slice for the UI language used by `useTranslation`.
+ *
+ * The state is restored from local storage and written back by
+ * `persistState`.
+ */
+export const localeSlice = createSlice({
+  name: 'locale',
+  initialState: loadLocale,
+  reducers: {
+    /**
+     * Switch the UI language.
+     */
+    setLocale: (state, action: PayloadAction<LocaleState['locale']>) => {
+      state.locale = action.payload;
+    },
+  },
+});
+
+export const { setLocale } = localeSlice.actions;
+
+export default localeSlice.reducer;
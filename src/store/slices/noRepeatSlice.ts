@@ -0,0 +1,128 @@
+import {
+  createSelector,
+  createSlice,
+  type PayloadAction,
+} from '@reduxjs/toolkit';
+import { readStorage } from '@/lib/storage';
+import {
+  fetchJokeByCategory,
+  fetchJokeById,
+  fetchLuckyJoke,
+  fetchRandomJoke,
+  isJokeRequestPending,
+  isKnownJokeShown,
+} from './jokesSlice';
+import type { NoRepeatState } from '@/types/jokeTypes';
+
+/** Local storage key of the no-repeat settings. */
+export const NO_REPEAT_STORAGE_KEY = 'noRepeat';
+
+/** Maximum number of seen joke ids kept; the oldest are forgotten first. */
+export const SEEN_IDS_LIMIT = 500;
+
+/**
+ * Read the no-repeat settings saved by a previous session.
+ *
+ * @function loadNoRepeat
+ * @returns {NoRepeatState} The restored settings, or the defaults.
+ */
+function loadNoRepeat(): NoRepeatState {
+  const saved = readStorage(NO_REPEAT_STORAGE_KEY) as
+    | Partial<Record<keyof NoRepeatState, unknown>>
+    | undefined;
+
+  return {
+    enabled: saved?.enabled === true,
+    seenIds: Array.isArray(saved?.seenIds)
+      ? saved.seenIds.filter((id): id is string => typeof id === 'string')
+      : [],
+    requestId: null,
+  };
+}
+
+/**
+ * Remember a joke as seen.
+ *
+ * @param {NoRepeatState} state - Draft no-repeat state.
+ * @param {string} id - Upstream joke id.
+ */
+function markSeen(state: NoRepeatState, id: string) {
+  if (state.seenIds.includes(id)) return;
+  state.seenIds.push(id);
+  state.seenIds.splice(0, Math.max(0, state.seenIds.length - SEEN_IDS_LIMIT));
+}
+
+/**
+ * Redux slice for the "no repeats" mode.
+ *
+ * Every joke loaded into the card is remembered as seen, whether or not the
+ * mode is enabled; the response of a superseded request is ignored. While enabled, `fetchRandomJoke` and `fetchJokeByCategory`
+ * skip seen jokes. The state is restored from local storage and written back
+ * by `persistState`.
+ */
+export const noRepeatSlice = createSlice({
+  name: 'noRepeat',
+  initialState: loadNoRepeat,
+  reducers: {
+    /**
+     * Turn the no-repeat mode on or off.
+     */
+    setNoRepeat: (state, action: PayloadAction<boolean>) => {
+      state.enabled = action.payload;
+    },
+
+    /**
+     * Forget every seen joke, e.g. once a category is exhausted.
+     */
+    resetSeenJokes: (state) => {
+      state.seenIds = [];
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchRandomJoke.fulfilled, (state, action) => {
+        if (action.meta.requestId !== state.requestId) return;
+        markSeen(state, action.payload.id);
+      })
+      .addCase(fetchJokeByCategory.fulfilled, (state, action) => {
+        if (action.meta.requestId !== state.requestId) return;
+        markSeen(state, action.payload.joke.id);
+      })
+      .addCase(fetchLuckyJoke.fulfilled, (state, action) => {
+        if (action.meta.requestId !== state.requestId) return;
+        markSeen(state, action.payload.id);
+      })
+      .addCase(fetchJokeById.fulfilled, (state, action) => {
+        if (action.meta.requestId !== state.requestId) return;
+        markSeen(state, action.payload.id);
+      })
+      .addMatcher(isJokeRequestPending, (state, action) => {
+        state.requestId = action.meta.requestId;
+      })
+      .addMatcher(isKnownJokeShown, (state) => {
+        state.requestId = null;
+      });
+  },
+});
+
+export const { setNoRepeat, resetSeenJokes } = noRepeatSlice.actions;
+
+/**
+ * Select the part of the no-repeat state saved in local storage.
+ *
+ * @function selectSavedNoRepeat
+ * @param {{ noRepeat: NoRepeatState }} state - The root state.
+ * @returns {Omit<NoRepeatState, 'requestId'>} The setting and the seen ids.
+ */
+export const selectSavedNoRepeat = createSelector(
+  [
+    (state: { noRepeat: NoRepeatState }) => state.noRepeat.enabled,
+    (state: { noRepeat: NoRepeatState }) => state.noRepeat.seenIds,
+  ],
+  (enabled, seenIds): Omit<NoRepeatState, 'requestId'> => ({
+    enabled,
+    seenIds,
+  })
+);
+
+export default noRepeatSlice.reducer;
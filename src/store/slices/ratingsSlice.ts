@@ -0,0 +1,145 @@
+import {
+  createSelector,
+  createSlice,
+  type PayloadAction,
+} from '@reduxjs/toolkit';
+import { parseJoke } from '@/lib/api/validation';
+import { readStorage } from '@/lib/storage';
+import type { Joke, JokeRating, RatingsState } from '@/types/jokeTypes';
+
+/** Local storage key of the joke ratings. */
+export const RATINGS_STORAGE_KEY = 'ratings';
+
+/** Highest number of stars. */
+export const MAX_STARS = 5;
+
+/** Highest rating (in stars) counted as poor. */
+export const LOW_RATING_MAX = 2;
+
+/**
+ * Whether a stored value is a valid number of stars.
+ *
+ * @param {unknown} value - The stored value.
+ * @returns {boolean} `true` for a whole number from 1 to `MAX_STARS`.
+ */
+const isStars = (value: unknown): value is number =>
+  typeof value === 'number' &&
+  Number.isInteger(value) &&
+  value >= 1 &&
+  value <= MAX_STARS;
+
+/**
+ * Read the ratings saved by a previous session.
+ *
+ * Entries that are not valid ratings are dropped instead of failing the
+ * whole list.
+ *
+ * @function loadRatings
+ * @returns {RatingsState} The restored ratings, or no ratings.
+ */
+function loadRatings(): RatingsState {
+  const saved = readStorage(RATINGS_STORAGE_KEY) as
+    | Partial<Record<keyof RatingsState, unknown>>
+    | undefined;
+
+  const byId: Record<string, JokeRating> = {};
+  const entries =
+    saved?.byId && typeof saved.byId === 'object'
+      ? Object.values(saved.byId)
+      : [];
+  for (const entry of entries as Partial<Record<keyof JokeRating, unknown>>[]) {
+    if (!isStars(entry?.stars) || typeof entry.ratedAt !== 'number') continue;
+    try {
+      const joke = parseJoke(RATINGS_STORAGE_KEY, entry.joke);
+      byId[joke.id] = { joke, stars: entry.stars, ratedAt: entry.ratedAt };
+    } catch {
+      // Skip entries written by an older version
+    }
+  }
+
+  return { byId, avoidLowRated: saved?.avoidLowRated === true };
+}
+
+/**
+ * Redux slice for the user's 1–5 star joke ratings.
+ *
+ * Rated jokes are kept whole so the leaderboard can list them. While
+ * `avoidLowRated` is on, `fetchRandomJoke` and `fetchJokeByCategory` re-fetch
+ * jokes rated `LOW_RATING_MAX` stars or less, and only show one if nothing
+ * better turns up. The state is restored from local storage and written back
+ * by `persistState`.
+ */
+export const ratingsSlice = createSlice({
+  name: 'ratings',
+  initialState: loadRatings,
+  reducers: {
+    /**
+     * Rate a joke; giving it its current rating again removes the rating.
+     */
+    rateJoke: (state, action: PayloadAction<{ joke: Joke; stars: number }>) => {
+      const { joke, stars } = action.payload;
+      if (!isStars(stars)) return;
+      if (state.byId[joke.id]?.stars === stars) {
+        delete state.byId[joke.id];
+      } else {
+        state.byId[joke.id] = { joke, stars, ratedAt: Date.now() };
+      }
+    },
+
+    /**
+     * Remove the rating of a joke by its id.
+     */
+    clearRating: (state, action: PayloadAction<string>) => {
+      delete state.byId[action.payload];
+    },
+
+    /**
+     * Turn skipping poorly rated random jokes on or off.
+     */
+    setAvoidLowRated: (state, action: PayloadAction<boolean>) => {
+      state.avoidLowRated = action.payload;
+    },
+  },
+});
+
+export const { rateJoke, clearRating, setAvoidLowRated } = ratingsSlice.actions;
+
+/**
+ * Select the user's rating of a joke.
+ *
+ * @function selectRating
+ * @param {{ ratings: RatingsState }} state - The root state.
+ * @param {string} id - Upstream joke id.
+ * @returns {number | null} The number of stars, or `null` if not rated.
+ */
+export const selectRating = (state: { ratings: RatingsState }, id: string) =>
+  state.ratings.byId[id]?.stars ?? null;
+
+/**
+ * Select every rated joke, best rated first; equal ratings list the most
+ * recently rated first.
+ *
+ * @function selectTopRated
+ * @param {{ ratings: RatingsState }} state - The root state.
+ * @returns {JokeRating[]} The ratings, in leaderboard order.
+ */
+export const selectTopRated = createSelector(
+  (state: { ratings: RatingsState }) => state.ratings.byId,
+  (byId) =>
+    Object.values(byId).sort(
+      (a, b) => b.stars - a.stars || b.ratedAt - a.ratedAt
+    )
+);
+
+/**
+ * Whether a joke is rated poorly and should be skipped by random picks.
+ *
+ * @function isLowRated
+ * @param {RatingsState} ratings - The ratings state.
+ * @param {string} id - Upstream joke id.
+ * @returns {boolean} `true` while `avoidLowRated` is on and the joke has at most `LOW_RATING_MAX` stars.
+ */
+export const isLowRated = ({ byId, avoidLowRated }: RatingsState, id: string) =>
+  avoidLowRated && (byId[id]?.stars ?? Infinity) <= LOW_RATING_MAX;
+
+export default ratingsSlice.reducer;
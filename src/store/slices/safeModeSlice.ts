@@ -0,0 +1,96 @@
+import {
+  createSelector,
+  createSlice,
+  type PayloadAction,
+} from '@reduxjs/toolkit';
+import { readStorage } from '@/lib/storage';
+import { DEFAULT_BLOCKED_CATEGORIES } from '@/lib/safeMode';
+import type { JokesState, SafeModeState } from '@/types/jokeTypes';
+
+/** Local storage key of the safe mode settings. */
+export const SAFE_MODE_STORAGE_KEY = 'safeMode';
+
+/**
+ * Read the safe mode settings saved by a previous session.
+ *
+ * @function loadSafeMode
+ * @returns {SafeModeState} The restored settings, or the defaults.
+ */
+function loadSafeMode(): SafeModeState {
+  const saved = readStorage(SAFE_MODE_STORAGE_KEY) as
+    | Partial<Record<keyof SafeModeState, unknown>>
+    | undefined;
+
+  return {
+    enabled: saved?.enabled === true,
+    blockedCategories: Array.isArray(saved?.blockedCategories)
+      ? saved.blockedCategories.filter(
+          (name): name is string => typeof name === 'string'
+        )
+      : [...DEFAULT_BLOCKED_CATEGORIES],
+  };
+}
+
+/**
+ * Redux slice for the safe mode.
+ *
+ * While enabled, the joke thunks skip jokes from blocked categories and mask
+ * profanity in the jokes they return, and blocked categories are hidden from
+ * the category picker. The state is restored from local storage and written
+ * back by `persistState`.
+ */
+export const safeModeSlice = createSlice({
+  name: 'safeMode',
+  initialState: loadSafeMode,
+  reducers: {
+    /**
+     * Turn the safe mode on or off.
+     */
+    setSafeMode: (state, action: PayloadAction<boolean>) => {
+      state.enabled = action.payload;
+    },
+
+    /**
+     * Block a category, or unblock it if it is already blocked.
+     */
+    toggleBlockedCategory: (state, action: PayloadAction<string>) => {
+      const index = state.blockedCategories.indexOf(action.payload);
+      if (index === -1) {
+        state.blockedCategories.push(action.payload);
+      } else {
+        state.blockedCategories.splice(index, 1);
+      }
+    },
+
+    /**
+     * Restore the default blocklist.
+     */
+    resetBlockedCategories: (state) => {
+      state.blockedCategories = [...DEFAULT_BLOCKED_CATEGORIES];
+    },
+  },
+});
+
+export const { setSafeMode, toggleBlockedCategory, resetBlockedCategories } =
+  safeModeSlice.actions;
+
+/**
+ * Select the categories that may be shown, i.e. every loaded category minus
+ * the blocked ones while safe mode is on.
+ *
+ * @function selectVisibleCategories
+ * @param {object} state - The root state.
+ * @returns {string[]} The visible category names.
+ */
+export const selectVisibleCategories = createSelector(
+  [
+    (state: { jokes: JokesState }) => state.jokes.categories,
+    (state: { safeMode: SafeModeState }) => state.safeMode,
+  ],
+  (categories, { enabled, blockedCategories }) =>
+    enabled
+      ? categories.filter((c) => !blockedCategories.includes(c))
+      : categories
+);
+
+export default safeModeSlice.reducer;
@@ -0,0 +1,96 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+import { readStorage } from '@/lib/storage';
+import type { SearchHistoryState } from '@/types/jokeTypes';
+
+/** Local storage key of the recent and saved queries. */
+export const SEARCH_HISTORY_STORAGE_KEY = 'searchHistory';
+
+/** Maximum number of recent queries kept; the oldest are dropped first. */
+export const RECENT_QUERIES_LIMIT = 10;
+
+/**
+ * Keep the unique, non-empty strings of a stored list.
+ *
+ * @param {unknown} value - The stored value.
+ * @returns {string[]} The valid queries.
+ */
+const parseQueries = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? [
+        ...new Set(
+          value.filter(
+            (q): q is string => typeof q === 'string' && q.trim() !== ''
+          )
+        ),
+      ]
+    : [];
+
+/**
+ * Read the queries saved by a previous session.
+ *
+ * @function loadSearchHistory
+ * @returns {SearchHistoryState} The restored queries, or empty lists.
+ */
+function loadSearchHistory(): SearchHistoryState {
+  const saved = readStorage(SEARCH_HISTORY_STORAGE_KEY) as
+    | Partial<Record<keyof SearchHistoryState, unknown>>
+    | undefined;
+
+  return {
+    recent: parseQueries(saved?.recent).slice(0, RECENT_QUERIES_LIMIT),
+    saved: parseQueries(saved?.saved),
+  };
+}
+
+/**
+ * Redux slice for the queries suggested by `SearchBar`.
+ *
+ * Queries are compared case-insensitively, so `Chuck` replaces `chuck`
+ * instead of being listed twice. The state is restored from local storage
+ * and written back by `persistState`.
+ */
+export const searchHistorySlice = createSlice({
+  name: 'searchHistory',
+  initialState: loadSearchHistory,
+  reducers: {
+    /**
+     * Move a query to the top of the recent queries.
+     */
+    recordQuery: (state, action: PayloadAction<string>) => {
+      const query = action.payload.trim();
+      if (!query) return;
+      state.recent = [
+        query,
+        ...state.recent.filter((q) => q.toLowerCase() !== query.toLowerCase()),
+      ].slice(0, RECENT_QUERIES_LIMIT);
+    },
+
+    /**
+     * Save a query, or unsave it if it is already saved.
+     */
+    toggleSavedQuery: (state, action: PayloadAction<string>) => {
+      const query = action.payload.trim();
+      if (!query) return;
+      const index = state.saved.findIndex(
+        (q) => q.toLowerCase() === query.toLowerCase()
+      );
+      if (index === -1) {
+        state.saved.push(query);
+      } else {
+        state.saved.splice(index, 1);
+      }
+    },
+
+    /**
+     * Forget every recent query; saved queries are kept.
+     */
+    clearRecentQueries: (state) => {
+      state.recent = [];
+    },
+  },
+});
+
+export const { recordQuery, toggleSavedQuery, clearRecentQueries } =
+  searchHistorySlice.actions;
+
+export default searchHistorySlice.reducer;
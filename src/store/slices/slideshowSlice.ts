@@ -0,0 +1,126 @@
+import {
+  createSlice,
+  type PayloadAction,
+  type ThunkAction,
+  type UnknownAction,
+} from '@reduxjs/toolkit';
+import { readStorage } from '@/lib/storage';
+import { fetchRandomJoke } from './jokesSlice';
+import { fetchJokeFromSelection } from './categorySelectionSlice';
+import type {
+  CategorySelectionState,
+  JokeIndexState,
+  JokesState,
+  NoRepeatState,
+  RatingsState,
+  SafeModeState,
+  SlideshowSource,
+  SlideshowState,
+} from '@/types/jokeTypes';
+
+/** Local storage key of the slideshow settings. */
+export const SLIDESHOW_STORAGE_KEY = 'slideshow';
+
+/** Intervals (ms) offered for the slideshow. */
+export const SLIDESHOW_INTERVAL_OPTIONS = [
+  5_000, 10_000, 15_000, 30_000, 60_000,
+];
+
+/** Interval (ms) used until the user picks another. */
+export const DEFAULT_SLIDESHOW_INTERVAL_MS = 10_000;
+
+/**
+ * Read the slideshow settings saved by a previous session. The slideshow
+ * always starts paused.
+ *
+ * @function loadSlideshow
+ * @returns {SlideshowState} The restored settings, or the defaults.
+ */
+function loadSlideshow(): SlideshowState {
+  const saved = readStorage(SLIDESHOW_STORAGE_KEY) as
+    | Partial<Record<keyof SlideshowState, unknown>>
+    | undefined;
+
+  return {
+    playing: false,
+    intervalMs: SLIDESHOW_INTERVAL_OPTIONS.includes(Number(saved?.intervalMs))
+      ? Number(saved?.intervalMs)
+      : DEFAULT_SLIDESHOW_INTERVAL_MS,
+    source: saved?.source === 'selection' ? 'selection' : 'random',
+  };
+}
+
+/**
+ * Redux slice for the auto-play mode.
+ *
+ * Only the settings live here; `useSlideshow` runs the countdown and calls
+ * `nextSlide` when it runs out. The settings are restored from local storage
+ * and written back by `persistState`.
+ */
+export const slideshowSlice = createSlice({
+  name: 'slideshow',
+  initialState: loadSlideshow,
+  reducers: {
+    /**
+     * Start or stop cycling jokes.
+     */
+    setPlaying: (state, action: PayloadAction<boolean>) => {
+      state.playing = action.payload;
+    },
+
+    /**
+     * Change how long each joke is shown.
+     */
+    setSlideshowInterval: (state, action: PayloadAction<number>) => {
+      state.intervalMs = action.payload;
+    },
+
+    /**
+     * Change where the next jokes come from.
+     */
+    setSlideshowSource: (state, action: PayloadAction<SlideshowSource>) => {
+      state.source = action.payload;
+    },
+  },
+});
+
+export const { setPlaying, setSlideshowInterval, setSlideshowSource } =
+  slideshowSlice.actions;
+
+/**
+ * Show the next joke of the slideshow.
+ *
+ * Draws from the selected categories when that source is chosen and the
+ * selection is not empty, otherwise fetches a random joke.
+ *
+ * @function nextSlide
+ * @returns {ThunkAction} A thunk dispatching `fetchJokeFromSelection` or `fetchRandomJoke`.
+ */
+export const nextSlide =
+  (): ThunkAction<
+    void,
+    {
+      jokes: JokesState;
+      noRepeat: NoRepeatState;
+      safeMode: SafeModeState;
+      jokeIndex: JokeIndexState;
+      ratings: RatingsState;
+      categorySelection: CategorySelectionState;
+      slideshow: SlideshowState;
+    },
+    unknown,
+    UnknownAction
+  > =>
+  (dispatch, getState) => {
+    const { slideshow, categorySelection } = getState();
+    if (
+      slideshow.source === 'selection' &&
+      categorySelection.selected.length > 0
+    ) {
+      dispatch(fetchJokeFromSelection());
+    } else {
+      dispatch(fetchRandomJoke());
+    }
+  };
+
+export default slideshowSlice.reducer;
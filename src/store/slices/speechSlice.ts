@@ -0,0 +1,93 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+import { readStorage } from '@/lib/storage';
+import type { SpeechState } from '@/types/jokeTypes';
+
+/** Local storage key of the read-aloud preferences. */
+export const SPEECH_STORAGE_KEY = 'speech';
+
+/** Allowed speaking rates, from half to double speed. */
+export const SPEECH_RATE_RANGE = { min: 0.5, max: 2 };
+
+/** Allowed voice pitches. */
+export const SPEECH_PITCH_RANGE = { min: 0, max: 2 };
+
+/**
+ * Keep a number within a range, or use a default for invalid values.
+ *
+ * @param {unknown} value - The value to check.
+ * @param {{ min: number, max: number }} range - The allowed range.
+ * @param {number} fallback - Used when `value` is not a number.
+ * @returns {number} The clamped value.
+ */
+const clamp = (
+  value: unknown,
+  { min, max }: { min: number; max: number },
+  fallback: number
+) =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(max, Math.max(min, value))
+    : fallback;
+
+/**
+ * Read the read-aloud preferences saved by a previous session.
+ *
+ * @function loadSpeech
+ * @returns {SpeechState} The restored preferences, or the defaults.
+ */
+function loadSpeech(): SpeechState {
+  const saved = readStorage(SPEECH_STORAGE_KEY) as
+    | Partial<Record<keyof SpeechState, unknown>>
+    | undefined;
+
+  return {
+    voiceURI: typeof saved?.voiceURI === 'string' ? saved.voiceURI : null,
+    rate: clamp(saved?.rate, SPEECH_RATE_RANGE, 1),
+    pitch: clamp(saved?.pitch, SPEECH_PITCH_RANGE, 1),
+    autoRead: saved?.autoRead === true,
+  };
+}
+
+/**
+ * Redux slice for the read-aloud preferences used by `useSpeech`.
+ *
+ * The state is restored from local storage and written back by
+ * `persistState`.
+ */
+export const speechSlice = createSlice({
+  name: 'speech',
+  initialState: loadSpeech,
+  reducers: {
+    /**
+     * Choose the voice by its URI, or `null` for the browser default.
+     */
+    setVoice: (state, action: PayloadAction<string | null>) => {
+      state.voiceURI = action.payload;
+    },
+
+    /**
+     * Change the speaking rate, clamped to `SPEECH_RATE_RANGE`.
+     */
+    setSpeechRate: (state, action: PayloadAction<number>) => {
+      state.rate = clamp(action.payload, SPEECH_RATE_RANGE, state.rate);
+    },
+
+    /**
+     * Change the voice pitch, clamped to `SPEECH_PITCH_RANGE`.
+     */
+    setSpeechPitch: (state, action: PayloadAction<number>) => {
+      state.pitch = clamp(action.payload, SPEECH_PITCH_RANGE, state.pitch);
+    },
+
+    /**
+     * Turn reading each new joke aloud on or off.
+     */
+    setAutoRead: (state, action: PayloadAction<boolean>) => {
+      state.autoRead = action.payload;
+    },
+  },
+});
+
+export const { setVoice, setSpeechRate, setSpeechPitch, setAutoRead } =
+  speechSlice.actions;
+
+export default speechSlice.reducer;
@@ -5,12 +5,20 @@ import {
   within,
   waitFor,
   cleanup,
+  fireEvent,
 } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { Provider } from 'react-redux';
 import { configureStore } from '@reduxjs/toolkit';
 import CategoriesSelect from '@/components/categories/CategoriesSelect';
 import * as jokesSlice from '@/store/slices/jokesSlice';
+import favoritesReducer from '@/store/slices/favoritesSlice';
+import {
+  addCategory,
+  removeCategory,
+  setCategoryWeight,
+} from '@/store/slices/categorySelectionSlice';
+import type { RootState } from '../../store';
 import { useAppDispatch, useAppSelector } from '../../store';
 
 // Mock the Redux hooks
@@ -19,6 +27,32 @@ vi.mock('../../store', () => ({
   useAppSelector: vi.fn(),
 }));
 
+/**
+ * Root state slices the component does not read, at their initial values.
+ * The history and no-repeat slices are not imported because they depend on
+ * the mocked thunks.
+ */
+const otherSlices = (): Omit<RootState, 'jokes'> => ({
+  favorites: favoritesReducer(undefined, { type: 'init' }),
+  history: { entries: [], index: -1, limit: 50, requestId: null },
+  noRepeat: { enabled: false, seenIds: [], requestId: null },
+  safeMode: { enabled: false, blockedCategories: [] },
+  categorySelection: { selected: [] },
+  batch: { category: null, items: [] },
+  slideshow: { playing: false, intervalMs: 10_000, source: 'random' },
+  searchHistory: { recent: [], saved: [] },
+  jokeIndex: { ids: [], entities: {} },
+  ratings: { byId: {}, avoidLowRated: false },
+  speech: { voiceURI: null, rate: 1, pitch: 1, autoRead: false },
+  locale: { locale: 'en' },
+  colorThemes: { saved: [], activeId: null },
+});
+
+// jsdom lacks the pointer capture and scrolling APIs used by Radix Select
+Element.prototype.hasPointerCapture ??= () => false;
+Element.prototype.releasePointerCapture ??= () => {};
+Element.prototype.scrollIntoView ??= () => {};
+
 // Mock the thunks directly
 vi.mock('@/store/slices/jokesSlice', async () => {
   const actual = await vi.importActual<
@@ -40,9 +74,10 @@ vi.mock('@/store/slices/jokesSlice', async () => {
  *
  * Covers:
  * - Lifecycle behavior (dispatching `fetchCategories` on mount).
- * - Rendering of the default option and category options.
+ * - Rendering of the placeholder and category options.
  * - Interaction behavior when selecting categories.
- * - Validation of Tailwind classes applied to the `<select>`.
+ * - Typeahead and the grouping of sensitive categories.
+ * - Validation of the theme-aware classes applied to the picker.
  */
 describe('CategoriesSelect', () => {
   let store: ReturnType<typeof configureStore>;
@@ -65,13 +100,10 @@ describe('CategoriesSelect', () => {
     vi.mocked(useAppDispatch).mockReturnValue(mockDispatch);
     vi.mocked(useAppSelector).mockImplementation((selector) =>
       selector({
+        ...otherSlices(),
         jokes: {
+          ...jokesSlice.default(undefined, { type: 'init' }),
           categories: ['animal', 'career', 'celebrity'],
-          value: null,
-          category: null,
-          error: null,
-          loading: false,
-          hasSearched: false,
         },
       })
     );
@@ -102,59 +134,61 @@ describe('CategoriesSelect', () => {
   });
 
   /**
-   * Verifies that the `<select>` element renders
-   * with the default "Select a category" option.
+   * Verifies that the picker renders as a combobox showing the
+   * "Select a category" placeholder.
    */
-  it('should render select element with default option', () => {
+  it('should render the picker with its placeholder', () => {
     render(
       <Provider store={store}>
         <CategoriesSelect />
       </Provider>
     );
 
-    const select = screen.getByRole('combobox');
-    expect(select).toBeTruthy();
-    const defaultOption = within(select).getByRole('option', {
-      name: 'Select a category',
-    });
-    expect(defaultOption.getAttribute('value')).toBe('');
-    expect(defaultOption).toBeTruthy();
+    const trigger = screen.getByRole('combobox', { name: 'Select a category' });
+    expect(trigger.textContent).toBe('Select a category');
   });
 
   /**
-   * Ensures that categories from the Redux store are rendered
-   * as selectable `<option>` elements.
+   * Ensures that categories from the Redux store are offered as options,
+   * with sensitive categories grouped apart.
    */
-  it('should render categories from Redux store as options', () => {
+  it('should render categories from Redux store as grouped options', async () => {
+    vi.mocked(useAppSelector).mockImplementation((selector) =>
+      selector({
+        ...otherSlices(),
+        jokes: {
+          ...jokesSlice.default(undefined, { type: 'init' }),
+          categories: ['animal', 'career', 'explicit'],
+        },
+        safeMode: { enabled: false, blockedCategories: ['explicit'] },
+      })
+    );
     render(
       <Provider store={store}>
         <CategoriesSelect />
       </Provider>
     );
 
-    const select = screen.getByRole('combobox');
-    const options = within(select).getAllByRole('option');
-    expect(options.length).toBe(4); // Default option + 3 categories
-    expect(
-      within(select)
-        .getByRole('option', { name: 'animal' })
-        .getAttribute('value')
-    ).toBe('animal');
+    await userEvent.click(screen.getByRole('combobox'));
+
+    const listbox = screen.getByRole('listbox');
+    const [safe, sensitive] = within(listbox).getAllByRole('group');
     expect(
-      within(select)
-        .getByRole('option', { name: 'career' })
-        .getAttribute('value')
-    ).toBe('career');
+      within(safe)
+        .getAllByRole('option')
+        .map((option) => option.textContent)
+    ).toEqual(['animal', 'career']);
+    expect(within(sensitive).getByText(/sensitive/i)).toBeTruthy();
     expect(
-      within(select)
-        .getByRole('option', { name: 'celebrity' })
-        .getAttribute('value')
-    ).toBe('celebrity');
+      within(sensitive)
+        .getAllByRole('option')
+        .map((option) => option.textContent)
+    ).toEqual(['explicit']);
   });
 
   /**
-   * Verifies that selecting a category dispatches
-   * the `fetchJokeByCategory` thunk with the chosen value.
+   * Verifies that selecting a category adds it to the selection and
+   * dispatches the `fetchJokeByCategory` thunk with the chosen value.
    */
   it('should dispatch fetchJokeByCategory when a category is selected', async () => {
     render(
@@ -163,69 +197,217 @@ describe('CategoriesSelect', () => {
       </Provider>
     );
 
-    const select = screen.getByRole('combobox');
-    await userEvent.selectOptions(select, 'animal');
+    await userEvent.click(screen.getByRole('combobox'));
+    await userEvent.click(screen.getByRole('option', { name: 'animal' }));
 
     await waitFor(() => {
+      expect(mockDispatch).toHaveBeenCalledWith(addCategory('animal'));
       expect(mockDispatch).toHaveBeenCalledWith(
         mockFetchJokeByCategory('animal')
       );
-      expect(mockDispatch).toHaveBeenCalledTimes(2); // fetchCategories + fetchJokeByCategory
-      expect((select as HTMLSelectElement).value).toBe('animal');
+      expect(mockDispatch).toHaveBeenCalledTimes(3); // fetchCategories + addCategory + fetchJokeByCategory
+      // The picker resets so another category can be added
+      expect(screen.getByRole('combobox').textContent).toBe(
+        'Select a category'
+      );
     });
   });
 
   /**
-   * Ensures that selecting the default empty option
-   * does not dispatch `fetchJokeByCategory`.
+   * Ensures that typing in the open picker highlights the matching
+   * category, which Enter then picks.
    */
-  it('should not dispatch fetchJokeByCategory when default option is selected', async () => {
+  it('should find categories by typing', async () => {
     render(
       <Provider store={store}>
         <CategoriesSelect />
       </Provider>
     );
 
-    const select = screen.getByRole('combobox');
-    await userEvent.selectOptions(select, '');
+    await userEvent.click(screen.getByRole('combobox'));
+    await userEvent.keyboard('ce');
+    await waitFor(() =>
+      expect(document.activeElement?.textContent).toBe('celebrity')
+    );
+    await userEvent.keyboard('{Enter}');
 
-    await waitFor(() => {
-      expect(mockDispatch).not.toHaveBeenCalledWith(
-        mockFetchJokeByCategory('')
-      );
-      expect(mockDispatch).toHaveBeenCalledTimes(1); // Only fetchCategories
-      expect((select as HTMLSelectElement).value).toBe('');
-    });
+    expect(mockDispatch).toHaveBeenCalledWith(addCategory('celebrity'));
   });
 
   /**
-   * Checks that the `<select>` element has
-   * the expected Tailwind classes applied.
+   * Checks that the picker uses the theme tokens instead of fixed colors.
    */
-  it('should apply correct classes to select element', () => {
+  it('should style the picker with theme colors', () => {
     render(
       <Provider store={store}>
         <CategoriesSelect />
       </Provider>
     );
 
-    const select = screen.getByRole('combobox');
-    const classList = select.className.split(' ').filter((cls) => cls);
+    const classList = screen.getByRole('combobox').className.split(' ');
     expect(classList).toContain('w-full');
     expect(classList).toContain('rounded-xl');
-    expect(classList).toContain('border');
-    expect(classList).toContain('border-gray-300');
-    expect(classList).toContain('bg-white');
-    expect(classList).toContain('px-4');
-    expect(classList).toContain('py-2');
-    expect(classList).toContain('text-gray-700');
-    expect(classList).toContain('shadow-sm');
-    expect(classList).toContain('focus:border-blue-500');
-    expect(classList).toContain('focus:ring');
-    expect(classList).toContain('focus:ring-blue-300');
-    expect(classList).toContain('dark:bg-gray-800');
-    expect(classList).toContain('dark:text-gray-200');
-    expect(classList).toContain('dark:border-gray-700');
-    expect(classList).toContain('transition');
+    expect(classList).toContain('bg-card');
+    expect(classList).toContain('text-card-foreground');
+    expect(classList.some((cls) => /-(gray|blue)-|bg-white/.test(cls))).toBe(
+      false
+    );
+  });
+
+  /**
+   * Ensures that a failed category request is reported next to the
+   * `<select>` instead of in the joke area.
+   */
+  it('should show its own error when categories fail to load', () => {
+    const jokes = jokesSlice.default(undefined, { type: 'init' });
+    vi.mocked(useAppSelector).mockImplementation((selector) =>
+      selector({
+        ...otherSlices(),
+        jokes: {
+          ...jokes,
+          requests: {
+            ...jokes.requests,
+            categories: {
+              ...jokes.requests.categories,
+              status: 'failed',
+              error: { kind: 'timeout', message: 'timed out' },
+            },
+          },
+        },
+      })
+    );
+
+    render(
+      <Provider store={store}>
+        <CategoriesSelect />
+      </Provider>
+    );
+
+    expect(screen.getByRole('alert').textContent).toContain(
+      'The joke server took too long to respond.'
+    );
+    expect(screen.getByRole('button', { name: /retry/i })).toBeTruthy();
+  });
+
+  /**
+   * Ensures that selected categories are shown as chips, are no longer
+   * offered in the `<select>` and can be re-weighted and removed.
+   */
+  it('should render the selection as editable chips', async () => {
+    vi.mocked(useAppSelector).mockImplementation((selector) =>
+      selector({
+        ...otherSlices(),
+        jokes: {
+          ...jokesSlice.default(undefined, { type: 'init' }),
+          categories: ['animal', 'career', 'celebrity'],
+        },
+        categorySelection: {
+          selected: [
+            { name: 'animal', weight: 1 },
+            { name: 'career', weight: 3 },
+          ],
+        },
+      })
+    );
+
+    render(
+      <Provider store={store}>
+        <CategoriesSelect />
+      </Provider>
+    );
+
+    const chips = within(
+      screen.getByRole('list', { name: 'Selected categories' })
+    ).getAllByRole('listitem');
+    expect(chips.map((chip) => chip.textContent)).toEqual(['animal', 'career']);
+    await userEvent.click(screen.getByRole('combobox'));
+    expect(
+      screen.getAllByRole('option').map((option) => option.textContent)
+    ).toEqual(['celebrity']);
+    await userEvent.keyboard('{Escape}');
+
+    const weight = screen.getByRole('spinbutton', {
+      name: 'Weight of career',
+    }) as HTMLInputElement;
+    expect(weight.value).toBe('3');
+    fireEvent.change(weight, { target: { value: '5' } });
+    expect(mockDispatch).toHaveBeenCalledWith(
+      setCategoryWeight({ name: 'career', weight: 5 })
+    );
+
+    await userEvent.click(
+      screen.getByRole('button', { name: 'Remove animal' })
+    );
+    expect(mockDispatch).toHaveBeenCalledWith(removeCategory('animal'));
+  });
+
+  /**
+   * Ensures that clearing a weight while typing keeps the stored weight,
+   * which comes back once the field loses the focus.
+   */
+  it('should not reset a weight that is being retyped', () => {
+    vi.mocked(useAppSelector).mockImplementation((selector) =>
+      selector({
+        ...otherSlices(),
+        jokes: jokesSlice.default(undefined, { type: 'init' }),
+        categorySelection: { selected: [{ name: 'career', weight: 3 }] },
+      })
+    );
+
+    render(
+      <Provider store={store}>
+        <CategoriesSelect />
+      </Provider>
+    );
+
+    const weight = screen.getByRole('spinbutton', {
+      name: 'Weight of career',
+    }) as HTMLInputElement;
+    fireEvent.change(weight, { target: { value: '' } });
+    expect(weight.value).toBe('');
+    expect(mockDispatch).not.toHaveBeenCalledWith(
+      expect.objectContaining({ type: setCategoryWeight.type })
+    );
+
+    fireEvent.blur(weight);
+    expect(weight.value).toBe('3');
+  });
+
+  /**
+   * Ensures that categories blocked by safe mode are neither offered nor
+   * shown as chips.
+   */
+  it('should hide categories blocked by safe mode', () => {
+    vi.mocked(useAppSelector).mockImplementation((selector) =>
+      selector({
+        ...otherSlices(),
+        jokes: {
+          ...jokesSlice.default(undefined, { type: 'init' }),
+          categories: ['animal', 'career', 'explicit'],
+        },
+        safeMode: { enabled: true, blockedCategories: ['explicit', 'career'] },
+        categorySelection: {
+          selected: [
+            { name: 'animal', weight: 1 },
+            { name: 'career', weight: 1 },
+          ],
+        },
+      })
+    );
+
+    render(
+      <Provider store={store}>
+        <CategoriesSelect />
+      </Provider>
+    );
+
+    const chips = within(
+      screen.getByRole('list', { name: 'Selected categories' })
+    ).getAllByRole('listitem');
+    expect(chips.map((chip) => chip.textContent)).toEqual(['animal']);
+    // Nothing is left to pick
+    expect((screen.getByRole('combobox') as HTMLButtonElement).disabled).toBe(
+      true
+    );
   });
 });
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import FavoritesList from '@/components/favorites/FavoritesList';
+import favoritesReducer, {
+  toggleFavorite,
+} from '@/store/slices/favoritesSlice';
+import { renderWithStore } from '../mocks/renderWithStore';
+import { createJoke } from '../mocks/jokes';
+
+/** Favorites state holding one `dev` joke and one uncategorized joke */
+const withFavorites = () => ({
+  favorites: [
+    createJoke({ id: 'plain', value: 'Plain joke' }),
+    createJoke({ id: 'dev', value: 'Dev joke', categories: ['dev'] }),
+  ].reduce(
+    (state, joke) => favoritesReducer(state, toggleFavorite(joke)),
+    favoritesReducer(undefined, { type: 'init' })
+  ),
+});
+
+/**
+ * Test suite for the {@link FavoritesList} component.
+ *
+ * Ensures that:
+ * - An empty list shows a hint.
+ * - Favorites can be filtered by category, removed and re-opened.
+ * - Safe mode hides blocked favorites.
+ */
+describe('FavoritesList', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  /** Shows a hint without favorites */
+  it('renders a hint without favorites', () => {
+    renderWithStore(<FavoritesList onOpen={vi.fn()} />);
+    expect(screen.getByText(/no favorites yet/i)).toBeTruthy();
+  });
+
+  /** Filters by category */
+  it('filters favorites by category', async () => {
+    renderWithStore(<FavoritesList onOpen={vi.fn()} />, withFavorites());
+    expect(screen.getAllByRole('listitem')).toHaveLength(2);
+
+    await userEvent.selectOptions(screen.getByRole('combobox'), 'dev');
+
+    expect(screen.getAllByRole('listitem')).toHaveLength(1);
+    expect(screen.getByText('Dev joke')).toBeTruthy();
+  });
+
+  /** Removes a favorite from the store */
+  it('removes a favorite', async () => {
+    const { store } = renderWithStore(
+      <FavoritesList onOpen={vi.fn()} />,
+      withFavorites()
+    );
+
+    await userEvent.click(
+      screen.getAllByRole('button', { name: /remove/i })[0]
+    );
+
+    expect(store.getState().favorites.ids).toEqual(['plain']);
+  });
+
+  /** Re-opens a favorite */
+  it('re-opens a favorite', async () => {
+    const onOpen = vi.fn();
+    renderWithStore(<FavoritesList onOpen={onOpen} />, withFavorites());
+
+    await userEvent.click(screen.getAllByRole('button', { name: /open/i })[0]);
+
+    expect(onOpen).toHaveBeenCalledWith(expect.objectContaining({ id: 'dev' }));
+  });
+
+  /** Hides favorites from categories blocked by safe mode */
+  it('hides blocked favorites in safe mode', () => {
+    renderWithStore(<FavoritesList onOpen={vi.fn()} />, {
+      ...withFavorites(),
+      safeMode: { enabled: true, blockedCategories: ['dev'] },
+    });
+
+    expect(screen.getAllByRole('listitem')).toHaveLength(1);
+    expect(screen.queryByText('Dev joke')).toBeNull();
+    expect(screen.getByText('1 joke is hidden by safe mode.')).toBeTruthy();
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { cleanup, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import HistoryPanel from '@/components/history/HistoryPanel';
+import type { HistoryState } from '@/types/jokeTypes';
+import { renderWithStore } from '../mocks/renderWithStore';
+import { createJoke } from '../mocks/jokes';
+
+/** History holding a random joke followed by a category joke */
+const withHistory = (): { history: HistoryState } => ({
+  history: {
+    entries: [
+      {
+        joke: createJoke({ id: 'first', value: 'First joke' }),
+        source: { type: 'random' },
+        shownAt: 1,
+      },
+      {
+        joke: createJoke({ id: 'second', value: 'Second joke' }),
+        source: { type: 'category', category: 'dev' },
+        shownAt: 2,
+      },
+    ],
+    index: 1,
+    limit: 50,
+    requestId: null,
+  },
+});
+
+/**
+ * Test suite for the {@link HistoryPanel} component.
+ *
+ * Ensures that:
+ * - The panel is collapsed until toggled.
+ * - Entries are listed newest first with their source.
+ * - Selecting an entry shows it in the joke card.
+ */
+describe('HistoryPanel', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  /** Starts collapsed */
+  it('is collapsed by default', () => {
+    renderWithStore(<HistoryPanel />, withHistory());
+
+    const toggle = screen.getByRole('button', { name: /history \(2 jokes\)/i });
+    expect(toggle.getAttribute('aria-expanded')).toBe('false');
+    expect(screen.queryByRole('list')).toBeNull();
+  });
+
+  /** Counts and describes the entries in the UI language */
+  it('is translated to the UI language', async () => {
+    renderWithStore(<HistoryPanel />, {
+      ...withHistory(),
+      locale: { locale: 'sk' },
+    });
+
+    await userEvent.click(
+      screen.getByRole('button', { name: 'História (2 vtipy)' })
+    );
+
+    const items = screen.getAllByRole('listitem');
+    expect(items[0].textContent).toContain('Kategória: programovanie');
+    expect(items[1].textContent).toContain('Náhodný');
+  });
+
+  /** Lists entries newest first with their source */
+  it('lists entries when expanded', async () => {
+    renderWithStore(<HistoryPanel />, withHistory());
+
+    await userEvent.click(screen.getByRole('button', { name: /history/i }));
+
+    const items = screen.getAllByRole('listitem');
+    expect(items[0].textContent).toContain('Second joke');
+    expect(items[0].textContent).toContain('Category: dev');
+    expect(items[1].textContent).toContain('Random');
+  });
+
+  /** Re-opens an older entry */
+  it('shows a selected entry', async () => {
+    const { store } = renderWithStore(<HistoryPanel />, withHistory());
+
+    await userEvent.click(screen.getByRole('button', { name: /history/i }));
+    await userEvent.click(screen.getByRole('button', { name: /first joke/i }));
+
+    expect(store.getState().history.index).toBe(0);
+    expect(store.getState().jokes.joke?.id).toBe('first');
+  });
+});
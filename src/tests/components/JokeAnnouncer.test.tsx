@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import JokeAnnouncer from '@/components/status/JokeAnnouncer';
+import { renderWithStore } from '../mocks/renderWithStore';
+
+/**
+ * Test suite for the {@link JokeAnnouncer} component.
+ *
+ * Ensures that each new joke is put in a polite live region.
+ */
+describe('JokeAnnouncer', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  /** Stays empty without a joke and announces the new one */
+  it('announces new jokes', () => {
+    const { container, rerender, store } = renderWithStore(
+      <JokeAnnouncer joke={null} />,
+      { locale: { locale: 'en' } }
+    );
+    const region = container.querySelector('[aria-live="polite"]');
+    expect(region?.textContent).toBe('');
+
+    rerender(
+      <Provider store={store}>
+        <JokeAnnouncer joke="Chuck Norris can divide by zero." />
+      </Provider>
+    );
+    expect(region?.textContent).toBe(
+      'New joke: Chuck Norris can divide by zero.'
+    );
+  });
+});
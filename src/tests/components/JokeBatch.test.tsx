@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import JokeBatch from '@/components/batch/JokeBatch';
+import { renderWithStore } from '../mocks/renderWithStore';
+import { createJoke } from '../mocks/jokes';
+
+/**
+ * Test suite for the {@link JokeBatch} component.
+ *
+ * Ensures that:
+ * - Loaded, pending and failed cards are rendered side by side.
+ * - A failed card can be retried on its own.
+ * - The grid can be cleared.
+ * - Safe mode applies to loaded cards.
+ */
+describe('JokeBatch', () => {
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  /** A batch with one card of each state */
+  const batch = () => ({
+    batch: {
+      category: null,
+      items: [
+        {
+          requestId: 'r1',
+          status: 'succeeded' as const,
+          joke: createJoke({ id: 'a', value: 'First joke' }),
+          error: null,
+        },
+        {
+          requestId: 'r2',
+          status: 'failed' as const,
+          joke: null,
+          error: { kind: 'network' as const, message: 'Failed to fetch' },
+        },
+        {
+          requestId: 'r3',
+          status: 'pending' as const,
+          joke: null,
+          error: null,
+        },
+      ],
+    },
+  });
+
+  /** Renders nothing but the controls without a batch */
+  it('renders only the controls without a batch', () => {
+    renderWithStore(<JokeBatch />);
+
+    expect(screen.getByRole('button', { name: 'Get 6 jokes' })).toBeTruthy();
+    expect(screen.queryByRole('list')).toBeNull();
+  });
+
+  /** Shows each card according to its own status */
+  it('renders the grid with per-card status', () => {
+    renderWithStore(<JokeBatch />, batch());
+
+    const cards = within(screen.getByRole('list')).getAllByRole('listitem');
+    expect(cards).toHaveLength(3);
+    expect(cards[0].textContent).toContain('First joke');
+    expect(within(cards[1]).getByRole('alert').textContent).toContain(
+      'Could not reach the joke server.'
+    );
+    expect(within(cards[2]).getByLabelText('Loading joke')).toBeTruthy();
+    // A batch is still running
+    expect(
+      (screen.getByRole('button', { name: 'Get 6 jokes' }) as HTMLButtonElement)
+        .disabled
+    ).toBe(true);
+  });
+
+  /** Retries only the failed card */
+  it('retries a failed card', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        async () =>
+          new Response(JSON.stringify(createJoke({ value: 'Second joke' })), {
+            status: 200,
+          })
+      )
+    );
+    const { store } = renderWithStore(<JokeBatch />, batch());
+
+    await userEvent.click(screen.getByRole('button', { name: /retry/i }));
+
+    expect(await screen.findByText('Second joke')).toBeTruthy();
+    expect(store.getState().batch.items[0].joke?.value).toBe('First joke');
+  });
+
+  /** Removes the grid */
+  it('clears the grid', async () => {
+    const { store } = renderWithStore(<JokeBatch />, batch());
+
+    await userEvent.click(screen.getByRole('button', { name: /clear grid/i }));
+
+    expect(store.getState().batch.items).toEqual([]);
+    expect(screen.queryByRole('list')).toBeNull();
+  });
+
+  /** Turns blocked cards into failures and masks the others in safe mode */
+  it('applies safe mode to loaded cards', () => {
+    const loaded = (id: string, value: string, categories: string[] = []) => ({
+      requestId: id,
+      status: 'succeeded' as const,
+      joke: createJoke({ id, value, categories }),
+      error: null,
+    });
+    renderWithStore(<JokeBatch />, {
+      batch: {
+        category: null,
+        items: [
+          loaded('a', 'Rude joke', ['explicit']),
+          loaded('b', 'Holy shit.'),
+        ],
+      },
+      safeMode: { enabled: true, blockedCategories: ['explicit'] },
+    });
+
+    expect(screen.queryByText('Rude joke')).toBeNull();
+    expect(screen.getByRole('alert').textContent).toContain(
+      'Only got jokes hidden by safe mode.'
+    );
+    expect(screen.getByText('Holy s***.')).toBeTruthy();
+  });
+});
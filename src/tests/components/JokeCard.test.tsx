@@ -1,5 +1,7 @@
-import { screen } from '@testing-library/react';
-import { describe, it, expect } from 'vitest';
+import { act, cleanup, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Provider } from 'react-redux';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
 import JokeCard from '@/components/jokes/JokeCard';
 import { renderWithStore } from '../mocks/renderWithStore';
 
@@ -29,6 +31,56 @@ describe('JokeCard', () => {
     expect(screen.getByText(/Category: funny/)).toBeTruthy();
   });
 
+  /**
+   * Should translate the categories a joke was picked from only once.
+   */
+  it('names the selection a joke was picked from in the UI language', () => {
+    renderWithStore(
+      <JokeCard joke="Test joke" category="dev" pickedFrom={['dev', 'food']} />,
+      { locale: { locale: 'sk' } }
+    );
+    expect(
+      screen.getByText(
+        'Kategória: programovanie (vybrané z programovanie, jedlo)'
+      )
+    ).toBeTruthy();
+  });
+
+  /**
+   * Should mark every case-insensitive match of each query term.
+   */
+  it('highlights the search terms', () => {
+    const { container } = renderWithStore(
+      <JokeCard
+        joke="Chuck kicks. CHUCK never kicks twice."
+        category={null}
+        highlight="chuck kicks beard"
+      />
+    );
+    const marks = [...container.querySelectorAll('mark')];
+    expect(marks.map((m) => m.textContent)).toEqual([
+      'Chuck',
+      'kicks',
+      'CHUCK',
+      'kicks',
+    ]);
+    expect(container.querySelector('p')?.textContent).toBe(
+      'Chuck kicks. CHUCK never kicks twice.'
+    );
+    expect(screen.getByText('Matched: chuck, kicks')).toBeTruthy();
+  });
+
+  /**
+   * Should render plain text without a badge when nothing matches.
+   */
+  it('does not highlight without a match', () => {
+    const { container } = renderWithStore(
+      <JokeCard joke="Test joke" category={null} highlight="beard" />
+    );
+    expect(container.querySelector('mark')).toBeNull();
+    expect(container.textContent).not.toContain('Matched:');
+  });
+
   /**
    * Deliberately failing test for joke text.
    *
@@ -69,3 +121,103 @@ describe('JokeCard', () => {
     }
   });
 });
+
+/** Stand-in for the browser's `SpeechSynthesisUtterance` */
+class FakeUtterance {
+  rate = 1;
+  pitch = 1;
+  voice: unknown = null;
+  onboundary: ((e: { name: string; charIndex: number }) => void) | null = null;
+  onend: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  text: string;
+  constructor(text: string) {
+    this.text = text;
+  }
+}
+
+/**
+ * Test suite for reading a {@link JokeCard} aloud.
+ *
+ * Replaces the speech synthesis API with a fake whose events are fired by
+ * the tests.
+ */
+describe('JokeCard read aloud', () => {
+  const synth = {
+    speak: vi.fn<(utterance: FakeUtterance) => void>(),
+    cancel: vi.fn(),
+    getVoices: () => [],
+    addEventListener: vi.fn(),
+    removeEventListener: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.stubGlobal('speechSynthesis', synth);
+    vi.stubGlobal('SpeechSynthesisUtterance', FakeUtterance);
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  /** Speaks the joke and highlights each word as it is spoken */
+  it('reads the joke aloud word by word', async () => {
+    const { container } = renderWithStore(
+      <JokeCard joke="Chuck kicks twice." category={null} />
+    );
+    const card = within(container);
+
+    await userEvent.click(card.getByRole('button', { name: 'Read aloud' }));
+    const utterance = synth.speak.mock.calls[0][0];
+    expect(utterance.text).toBe('Chuck kicks twice.');
+
+    act(() => utterance.onboundary?.({ name: 'word', charIndex: 6 }));
+    expect(card.getByTestId('spoken-word').textContent).toBe('kicks');
+
+    act(() => utterance.onend?.());
+    expect(card.queryByTestId('spoken-word')).toBeNull();
+    expect(card.getByRole('button', { name: 'Read aloud' })).toBeTruthy();
+  });
+
+  /** Stops speaking from the same button */
+  it('stops reading', async () => {
+    const { container } = renderWithStore(
+      <JokeCard joke="Chuck kicks twice." category={null} />
+    );
+    const card = within(container);
+
+    await userEvent.click(card.getByRole('button', { name: 'Read aloud' }));
+    await userEvent.click(card.getByRole('button', { name: 'Stop reading' }));
+
+    expect(synth.cancel).toHaveBeenCalled();
+    expect(card.getByRole('button', { name: 'Read aloud' })).toBeTruthy();
+  });
+
+  /** Reads new jokes automatically only when asked to */
+  it('reads new jokes automatically', () => {
+    const speech = { voiceURI: null, rate: 1.5, pitch: 1, autoRead: true };
+    const { store, rerender } = renderWithStore(
+      <JokeCard joke="First joke" category={null} autoRead />,
+      { speech }
+    );
+    expect(synth.speak.mock.calls[0][0].rate).toBe(1.5);
+
+    rerender(
+      <Provider store={store}>
+        <JokeCard joke="Second joke" category={null} autoRead />
+      </Provider>
+    );
+    expect(synth.speak.mock.calls.map(([u]) => u.text)).toEqual([
+      'First joke',
+      'Second joke',
+    ]);
+
+    cleanup();
+    renderWithStore(<JokeCard joke="Third joke" category={null} />, {
+      speech,
+    });
+    expect(synth.speak).toHaveBeenCalledTimes(2);
+  });
+});
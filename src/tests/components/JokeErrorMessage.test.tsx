@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { cleanup, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import JokeErrorMessage from '@/components/errors/JokeErrorMessage';
+import { renderWithStore } from '../mocks/renderWithStore';
+
+/**
+ * Test suite for the {@link JokeErrorMessage} component.
+ *
+ * Ensures that each error kind gets its own message and recovery action.
+ */
+describe('JokeErrorMessage', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  /** Offers a retry for network failures */
+  it('offers a retry when the network fails', () => {
+    renderWithStore(
+      <JokeErrorMessage
+        error={{ kind: 'network', message: 'Failed to fetch' }}
+      />
+    );
+
+    expect(screen.getByText(/could not reach the joke server/i)).toBeTruthy();
+    expect(screen.getByRole('button', { name: /retry/i })).toBeTruthy();
+  });
+
+  /** Shows the status code of server errors */
+  it('shows the HTTP status of server errors', () => {
+    renderWithStore(
+      <JokeErrorMessage
+        error={{ kind: 'http', message: 'failed', status: 503 }}
+      />
+    );
+
+    expect(screen.getByText(/HTTP 503/)).toBeTruthy();
+    expect(screen.getByRole('button', { name: /retry/i })).toBeTruthy();
+  });
+
+  /** Suggests a random joke when a search matches nothing */
+  it('suggests a random joke for an empty search', () => {
+    renderWithStore(
+      <JokeErrorMessage
+        error={{
+          kind: 'empty-search',
+          message: 'No joke found for this query',
+          query: 'xyz',
+        }}
+      />
+    );
+
+    expect(
+      screen.getByText('No jokes match "xyz". Try another word.')
+    ).toBeTruthy();
+    expect(
+      screen.getByRole('button', { name: /random joke instead/i })
+    ).toBeTruthy();
+    expect(screen.queryByRole('button', { name: /retry/i })).toBeNull();
+  });
+
+  /** Offers to reload categories for an unknown category */
+  it('offers to reload categories for an invalid category', () => {
+    renderWithStore(
+      <JokeErrorMessage
+        error={{
+          kind: 'invalid-category',
+          message: 'Unknown category "nope"',
+          category: 'nope',
+        }}
+      />
+    );
+
+    expect(
+      screen.getByText('The category "nope" does not exist.')
+    ).toBeTruthy();
+    expect(
+      screen.getByRole('button', { name: /reload categories/i })
+    ).toBeTruthy();
+  });
+
+  /** Suggests a random joke when a joke id does not exist */
+  it('suggests a random joke for an unknown id', () => {
+    renderWithStore(
+      <JokeErrorMessage
+        error={{ kind: 'not-found', message: 'missing', id: 'nope' }}
+      />
+    );
+
+    expect(
+      screen.getByText('There is no joke with the id "nope".')
+    ).toBeTruthy();
+    expect(
+      screen.getByRole('button', { name: /random joke instead/i })
+    ).toBeTruthy();
+  });
+
+  /** Offers to forget seen jokes when a category is exhausted */
+  it('offers to reset seen jokes for an exhausted category', async () => {
+    const { store } = renderWithStore(
+      <JokeErrorMessage
+        error={{ kind: 'exhausted', message: 'exhausted', category: 'dev' }}
+      />,
+      { noRepeat: { enabled: true, seenIds: ['a', 'b'], requestId: null } }
+    );
+
+    expect(screen.getByText(/every joke we could find in "dev"/)).toBeTruthy();
+    await userEvent.click(
+      screen.getByRole('button', { name: /reset seen jokes/i })
+    );
+
+    expect(store.getState().noRepeat.seenIds).toEqual([]);
+  });
+
+  /** Explains that safe mode hides the requested category */
+  it('explains a category blocked by safe mode', () => {
+    renderWithStore(
+      <JokeErrorMessage
+        error={{ kind: 'blocked', message: 'blocked', category: 'explicit' }}
+      />
+    );
+
+    expect(
+      screen.getByText('The category "explicit" is hidden in safe mode.')
+    ).toBeTruthy();
+    expect(
+      screen.getByRole('button', { name: /random joke instead/i })
+    ).toBeTruthy();
+  });
+
+  /** Names categories in the UI language */
+  it('translates category names', () => {
+    renderWithStore(
+      <JokeErrorMessage
+        error={{ kind: 'blocked', message: 'blocked', category: 'explicit' }}
+      />,
+      { locale: { locale: 'sk' } }
+    );
+
+    expect(
+      screen.getByText('Kategória „explicitné“ je v bezpečnom režime skrytá.')
+    ).toBeTruthy();
+  });
+});
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import JokeIdInput from '@/components/jokes/JokeIdInput';
+import { renderWithStore } from '../mocks/renderWithStore';
+import { createJoke } from '../mocks/jokes';
+
+/**
+ * Test suite for the {@link JokeIdInput} component.
+ *
+ * Ensures that pasted ids and URLs load the joke and that other input is
+ * rejected without a request.
+ */
+describe('JokeIdInput', () => {
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  /** Loads the joke of a pasted URL */
+  it('loads the joke of a pasted URL', async () => {
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(JSON.stringify(createJoke({ id: 'abc123' })), {
+          status: 200,
+        })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const { store } = renderWithStore(<JokeIdInput />);
+
+    await userEvent.type(
+      screen.getByLabelText('Joke id or URL'),
+      'https://api.chucknorris.io/jokes/abc123'
+    );
+    await userEvent.click(screen.getByRole('button', { name: /load joke/i }));
+
+    await vi.waitFor(() =>
+      expect(store.getState().jokes.joke?.id).toBe('abc123')
+    );
+  });
+
+  /** Rejects input that is not an id */
+  it('rejects invalid input without a request', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    renderWithStore(<JokeIdInput />);
+
+    await userEvent.type(screen.getByLabelText('Joke id or URL'), 'not an id');
+    await userEvent.click(screen.getByRole('button', { name: /load joke/i }));
+
+    expect(screen.getByText(/not a joke id/i)).toBeTruthy();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
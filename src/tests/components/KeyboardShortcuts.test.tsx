@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import KeyboardShortcuts from '@/components/shortcuts/KeyboardShortcuts';
+import CategoriesSelect from '@/components/categories/CategoriesSelect';
+import jokesReducer from '@/store/slices/jokesSlice';
+import { renderWithStore } from '../mocks/renderWithStore';
+import { createJoke } from '../mocks/jokes';
+
+/** Jokes state with two categories and a `dev` joke in the card */
+const withJoke = () => ({
+  jokes: {
+    ...jokesReducer(undefined, { type: 'init' }),
+    categories: ['dev', 'food'],
+    category: 'dev',
+    joke: createJoke({ value: 'Chuck Norris can divide by zero.' }),
+  },
+});
+
+// jsdom lacks the pointer capture and scrolling APIs used by Radix Select
+Element.prototype.hasPointerCapture ??= () => false;
+Element.prototype.releasePointerCapture ??= () => {};
+Element.prototype.scrollIntoView ??= () => {};
+
+/**
+ * Test suite for the {@link KeyboardShortcuts} component.
+ *
+ * Ensures that the global shortcuts run their commands outside of text
+ * fields, that `?` lists them and that the command palette finds and runs
+ * actions and categories.
+ */
+describe('KeyboardShortcuts', () => {
+  beforeEach(() => {
+    // Requests stay pending: the tests only check what was requested
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() => new Promise(() => {}))
+    );
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  /** `n` fetches a random joke, except while typing */
+  it('runs shortcuts outside of text fields', async () => {
+    const user = userEvent.setup();
+    const { store } = renderWithStore(
+      <>
+        <input aria-label="Field" />
+        <KeyboardShortcuts />
+      </>,
+      withJoke()
+    );
+
+    await user.click(screen.getByRole('textbox', { name: 'Field' }));
+    await user.keyboard('n');
+    expect(store.getState().jokes.lastRequests.joke).toBeNull();
+
+    await user.click(document.body);
+    await user.keyboard('n');
+    expect(store.getState().jokes.lastRequests.joke).toEqual({
+      type: 'random',
+    });
+  });
+
+  /** `]` and `[` move through the categories from the current one */
+  it('cycles categories', async () => {
+    const user = userEvent.setup();
+    const { store } = renderWithStore(<KeyboardShortcuts />, withJoke());
+
+    await user.keyboard(']');
+    expect(store.getState().jokes.lastRequests.joke).toEqual({
+      type: 'category',
+      category: 'food',
+    });
+  });
+
+  /** `c` copies the joke and announces it */
+  it('copies the joke', async () => {
+    const user = userEvent.setup();
+    const writeText = vi
+      .spyOn(navigator.clipboard, 'writeText')
+      .mockResolvedValue();
+    renderWithStore(<KeyboardShortcuts />, withJoke());
+
+    await user.keyboard('c');
+
+    expect(writeText).toHaveBeenCalledWith('Chuck Norris can divide by zero.');
+    expect((await screen.findByRole('status')).textContent).toBe('Copied!');
+  });
+
+  /** `?` lists the shortcuts until Escape */
+  it('shows the shortcuts help', async () => {
+    const user = userEvent.setup();
+    renderWithStore(<KeyboardShortcuts />, withJoke());
+
+    await user.keyboard('?');
+    const help = screen.getByRole('dialog', { name: 'Keyboard shortcuts' });
+    expect(within(help).getByText('Next random joke')).toBeTruthy();
+    expect(within(help).getByText('Ctrl+K')).toBeTruthy();
+
+    await user.keyboard('{Escape}');
+    expect(screen.queryByRole('dialog')).toBeNull();
+  });
+
+  /** Ctrl+K finds a category by fuzzy matching and shows a joke from it */
+  it('runs commands from the palette', async () => {
+    const user = userEvent.setup();
+    const { store } = renderWithStore(<KeyboardShortcuts />, withJoke());
+
+    await user.keyboard('{Control>}k{/Control}');
+    const palette = screen.getByRole('dialog', { name: 'Command palette' });
+    await user.keyboard('fod');
+
+    const options = within(palette).getAllByRole('option');
+    expect(options[0].textContent).toBe('Show a joke from food');
+    expect(options[0].getAttribute('aria-selected')).toBe('true');
+
+    await user.keyboard('{Enter}');
+    expect(screen.queryByRole('dialog')).toBeNull();
+    expect(store.getState().jokes.lastRequests.joke).toEqual({
+      type: 'category',
+      category: 'food',
+    });
+  });
+
+  /** Letters typed in the open category picker only move its typeahead */
+  it('ignores keys typed in the category picker', async () => {
+    const user = userEvent.setup();
+    const writeText = vi
+      .spyOn(navigator.clipboard, 'writeText')
+      .mockResolvedValue();
+    const { store } = renderWithStore(
+      <>
+        <CategoriesSelect />
+        <KeyboardShortcuts />
+      </>,
+      withJoke()
+    );
+
+    await user.click(screen.getByRole('combobox'));
+    expect(screen.getByRole('listbox')).toBeTruthy();
+    await user.keyboard('nct');
+
+    expect(store.getState().jokes.lastRequests.joke).toBeNull();
+    expect(writeText).not.toHaveBeenCalled();
+    expect(screen.queryByRole('status', { name: /copied/i })).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { cleanup, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import LanguageSwitcher from '@/components/i18n/LanguageSwitcher';
+import JokeCard from '@/components/jokes/JokeCard';
+import { renderWithStore } from '../mocks/renderWithStore';
+
+/**
+ * Test suite for the {@link LanguageSwitcher} component.
+ *
+ * Ensures that picking a language translates the UI, including category
+ * names, and updates the page language.
+ */
+describe('LanguageSwitcher', () => {
+  afterEach(() => {
+    cleanup();
+    localStorage.clear();
+  });
+
+  /** Switches the card to Slovak */
+  it('translates the UI to the chosen language', async () => {
+    const user = userEvent.setup();
+    const { store } = renderWithStore(
+      <>
+        <LanguageSwitcher />
+        <JokeCard joke={null} category="dev, food" />
+      </>,
+      { locale: { locale: 'en' } }
+    );
+    expect(screen.getByText('No joke yet')).toBeTruthy();
+    expect(screen.getByText('Category: dev, food')).toBeTruthy();
+
+    await user.click(screen.getByRole('button', { name: 'Change language' }));
+    await user.click(screen.getByRole('menuitemradio', { name: 'Slovenčina' }));
+
+    expect(store.getState().locale.locale).toBe('sk');
+    expect(document.documentElement.lang).toBe('sk');
+    expect(screen.getByText('Zatiaľ žiadny vtip')).toBeTruthy();
+    expect(screen.getByText('Kategória: programovanie, jedlo')).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Zmeniť jazyk' })).toBeTruthy();
+  });
+});
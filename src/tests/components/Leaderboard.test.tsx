@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import Leaderboard from '@/components/ratings/Leaderboard';
+import ratingsReducer, { rateJoke } from '@/store/slices/ratingsSlice';
+import { renderWithStore } from '../mocks/renderWithStore';
+import { createJoke } from '../mocks/jokes';
+
+/** Ratings state with a 3 star `dev` joke and a 5 star uncategorized joke */
+const withRatings = () => ({
+  ratings: [
+    rateJoke({
+      joke: createJoke({ id: 'dev', value: 'Dev joke', categories: ['dev'] }),
+      stars: 3,
+    }),
+    rateJoke({
+      joke: createJoke({ id: 'plain', value: 'Plain joke' }),
+      stars: 5,
+    }),
+  ].reduce(ratingsReducer, ratingsReducer(undefined, { type: 'init' })),
+});
+
+/**
+ * Test suite for the {@link Leaderboard} component.
+ *
+ * Ensures that rated jokes are ranked best first, can be filtered by
+ * category and re-rated, and that poorly rated jokes can be avoided.
+ */
+describe('Leaderboard', () => {
+  afterEach(() => {
+    cleanup();
+    localStorage.clear();
+  });
+
+  /** Shows a hint without ratings */
+  it('renders a hint without ratings', () => {
+    renderWithStore(<Leaderboard onOpen={vi.fn()} />);
+    expect(screen.getByText(/no ratings yet/i)).toBeTruthy();
+  });
+
+  /** Lists the best rated joke first and filters by category */
+  it('ranks and filters rated jokes', async () => {
+    renderWithStore(<Leaderboard onOpen={vi.fn()} />, withRatings());
+    const items = screen.getAllByRole('listitem');
+    expect(items.map((item) => item.textContent)).toEqual([
+      expect.stringContaining('Plain joke'),
+      expect.stringContaining('Dev joke'),
+    ]);
+
+    await userEvent.selectOptions(screen.getByRole('combobox'), 'dev');
+
+    expect(screen.getAllByRole('listitem')).toHaveLength(1);
+    expect(screen.getByText('Dev joke')).toBeTruthy();
+  });
+
+  /** Re-rates a joke from its stars, and removes the rating on a second click */
+  it('rates a joke with the stars', async () => {
+    const { store } = renderWithStore(
+      <Leaderboard onOpen={vi.fn()} />,
+      withRatings()
+    );
+    const stars = within(
+      screen.getAllByRole('radiogroup', { name: 'Rate this joke' })[1]
+    );
+
+    await userEvent.click(stars.getByRole('radio', { name: '1 star' }));
+    expect(store.getState().ratings.byId.dev.stars).toBe(1);
+    expect(
+      stars.getByRole('radio', { name: '1 star' }).getAttribute('aria-checked')
+    ).toBe('true');
+
+    await userEvent.click(stars.getByRole('radio', { name: '1 star' }));
+    expect(store.getState().ratings.byId.dev).toBeUndefined();
+  });
+
+  /** Switches avoiding poorly rated random jokes */
+  it('toggles avoiding low rated jokes', async () => {
+    const { store } = renderWithStore(<Leaderboard onOpen={vi.fn()} />);
+
+    await userEvent.click(screen.getByRole('checkbox', { name: /avoid/i }));
+
+    expect(store.getState().ratings.avoidLowRated).toBe(true);
+  });
+});
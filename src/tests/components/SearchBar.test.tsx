@@ -11,18 +11,27 @@ import { Provider } from 'react-redux';
 import { configureStore } from '@reduxjs/toolkit';
 import SearchBar from '@/components/search/SearchBar';
 import jokesReducer, { searchJokes } from '@/store/slices/jokesSlice';
+import searchHistoryReducer from '@/store/slices/searchHistorySlice';
+import jokeIndexReducer from '@/store/slices/jokeIndexSlice';
+import localeReducer from '@/store/slices/localeSlice';
 
 /**
  * Mock implementation of the {@link searchJokes} thunk.
  *
  * Instead of executing the actual async logic,
  * it returns a simple action object with type `jokes/searchJokes`.
+ * Its action creators (`fulfilled`, ...) are kept for the reducers using them.
  */
 vi.mock('@/store/slices/jokesSlice', async () => {
-  const actual = await vi.importActual('@/store/slices/jokesSlice');
+  const actual = await vi.importActual<
+    typeof import('@/store/slices/jokesSlice')
+  >('@/store/slices/jokesSlice');
   return {
     ...actual,
-    searchJokes: vi.fn().mockReturnValue({ type: 'jokes/searchJokes' }),
+    searchJokes: Object.assign(
+      vi.fn().mockReturnValue({ type: 'jokes/searchJokes' }),
+      actual.searchJokes
+    ),
   };
 });
 
@@ -41,7 +50,14 @@ describe('SearchBar', () => {
    * Creates a new Redux store and clears mocks before each test.
    */
   beforeEach(() => {
-    store = configureStore({ reducer: { jokes: jokesReducer } });
+    store = configureStore({
+      reducer: {
+        jokes: jokesReducer,
+        searchHistory: searchHistoryReducer,
+        jokeIndex: jokeIndexReducer,
+        locale: localeReducer,
+      },
+    });
     vi.clearAllMocks();
   });
 
@@ -120,4 +136,132 @@ describe('SearchBar', () => {
       expect(searchJokes).not.toHaveBeenCalled();
     });
   });
+
+  /**
+   * Should search once typing pauses, but only for queries that are long
+   * enough.
+   */
+  it('should search as you type after a pause', async () => {
+    render(
+      <Provider store={store}>
+        <SearchBar />
+      </Provider>
+    );
+
+    const input = screen.getByTestId('search-input');
+    await userEvent.type(input, 'ch');
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    expect(searchJokes).not.toHaveBeenCalled();
+
+    await userEvent.type(input, 'uck');
+    await waitFor(() => {
+      expect(searchJokes).toHaveBeenCalledWith({ query: 'chuck', live: true });
+    });
+    expect(searchJokes).toHaveBeenCalledTimes(1);
+  });
+
+  /**
+   * Should offer recent queries and pick one with the keyboard.
+   */
+  it('should pick a suggestion with the keyboard', async () => {
+    store = configureStore({
+      reducer: {
+        jokes: jokesReducer,
+        searchHistory: searchHistoryReducer,
+        jokeIndex: jokeIndexReducer,
+        locale: localeReducer,
+      },
+      preloadedState: {
+        searchHistory: { recent: ['kick', 'beard'], saved: ['roundhouse'] },
+      },
+    });
+    render(
+      <Provider store={store}>
+        <SearchBar />
+      </Provider>
+    );
+
+    await userEvent.click(screen.getByTestId('search-input'));
+    const options = within(
+      screen.getByRole('listbox', { name: 'Search suggestions' })
+    ).getAllByRole('option');
+    expect(options.map((o) => o.textContent)).toEqual([
+      'roundhouse',
+      'kick',
+      'beard',
+    ]);
+
+    await userEvent.keyboard('{ArrowDown}{ArrowDown}{Enter}');
+
+    expect(searchJokes).toHaveBeenCalledWith('kick');
+    expect((screen.getByTestId('search-input') as HTMLInputElement).value).toBe(
+      'kick'
+    );
+    expect(screen.queryByRole('listbox')).toBeNull();
+  });
+
+  /**
+   * Should save the typed query so that it is suggested later.
+   */
+  it('should save the current query', async () => {
+    render(
+      <Provider store={store}>
+        <SearchBar />
+      </Provider>
+    );
+
+    await userEvent.type(screen.getByTestId('search-input'), 'kick');
+    await userEvent.click(screen.getByRole('button', { name: 'Save query' }));
+
+    expect(
+      (store.getState() as { searchHistory: { saved: string[] } }).searchHistory
+        .saved
+    ).toEqual(['kick']);
+    expect(
+      screen
+        .getByRole('button', { name: 'Remove saved query' })
+        .getAttribute('aria-pressed')
+    ).toBe('true');
+  });
+
+  /**
+   * Should switch to the local index and list the current results from it.
+   */
+  it('should search my jokes after switching the source', async () => {
+    store = configureStore({
+      reducer: {
+        jokes: jokesReducer,
+        searchHistory: searchHistoryReducer,
+        jokeIndex: jokeIndexReducer,
+        locale: localeReducer,
+      },
+      preloadedState: {
+        jokes: {
+          ...jokesReducer(undefined, { type: 'init' }),
+          searchQuery: 'kick',
+        },
+      },
+    });
+    render(
+      <Provider store={store}>
+        <SearchBar />
+      </Provider>
+    );
+
+    const source = screen.getByRole('group', { name: 'Search in' });
+    await userEvent.click(
+      within(source).getByRole('button', { name: /My jokes/ })
+    );
+
+    expect(
+      (store.getState() as { jokes: { searchSource: string } }).jokes
+        .searchSource
+    ).toBe('local');
+    expect(
+      within(source)
+        .getByRole('button', { name: /My jokes/ })
+        .getAttribute('aria-pressed')
+    ).toBe('true');
+    expect(searchJokes).toHaveBeenCalledWith('kick');
+  });
 });
@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { cleanup, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import SearchResults from '@/components/search/SearchResults';
+import jokesReducer from '@/store/slices/jokesSlice';
+import { renderWithStore } from '../mocks/renderWithStore';
+import { createJoke } from '../mocks/jokes';
+
+/**
+ * Build a jokes state holding `count` search results for `query`.
+ *
+ * @param {number} count - Number of results.
+ * @param {string} [query='chuck'] - The search query.
+ */
+const withResults = (count: number, query = 'chuck') => ({
+  jokes: {
+    ...jokesReducer(undefined, { type: 'init' }),
+    searchQuery: query,
+    searchTotal: count,
+    searchResults: Array.from({ length: count }, (_, i) =>
+      createJoke({ id: `id-${i}`, value: `Joke number ${i + 1}` })
+    ),
+  },
+});
+
+/**
+ * Test suite for the {@link SearchResults} component.
+ *
+ * Ensures that:
+ * - Nothing is rendered outside results mode.
+ * - Results are paginated and the pager moves between pages.
+ * - Sorting and clearing update the store.
+ * - Safe mode hides and masks stored results.
+ */
+describe('SearchResults', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  /** Renders nothing without an active search */
+  it('renders nothing without search results', () => {
+    const { container } = renderWithStore(<SearchResults />);
+    expect(container.innerHTML).toBe('');
+  });
+
+  /** Shows the total and the first page of results */
+  it('renders the first page of results', () => {
+    renderWithStore(<SearchResults />, withResults(12));
+
+    expect(screen.getByText('12 results for "chuck"')).toBeTruthy();
+    expect(screen.getAllByRole('listitem')).toHaveLength(10);
+    expect(screen.getByText('Page 1 of 2')).toBeTruthy();
+  });
+
+  /** Moves to the next page */
+  it('navigates between pages', async () => {
+    renderWithStore(<SearchResults />, withResults(12));
+
+    await userEvent.click(screen.getByRole('button', { name: /next/i }));
+
+    expect(screen.getAllByRole('listitem')).toHaveLength(2);
+    expect(screen.getByText('Joke number 12')).toBeTruthy();
+    expect(
+      (screen.getByRole('button', { name: /next/i }) as HTMLButtonElement)
+        .disabled
+    ).toBe(true);
+  });
+
+  /** Stores the chosen sort mode and resets to the first page */
+  it('changes the sort order', async () => {
+    const { store } = renderWithStore(<SearchResults />, withResults(12));
+
+    await userEvent.click(screen.getByRole('button', { name: /next/i }));
+    const sortGroup = screen.getByRole('group', { name: 'Sort results' });
+    await userEvent.click(
+      within(sortGroup).getByRole('button', { name: 'A–Z' })
+    );
+
+    expect(store.getState().jokes.searchSort).toBe('alphabetical');
+    expect(screen.getByText('Page 1 of 2')).toBeTruthy();
+    expect(screen.getAllByRole('listitem')[0].textContent).toContain(
+      'Joke number 1'
+    );
+  });
+
+  /** Leaves results mode */
+  it('clears the results', async () => {
+    const { store } = renderWithStore(<SearchResults />, withResults(3));
+
+    await userEvent.click(screen.getByRole('button', { name: /clear/i }));
+
+    expect(store.getState().jokes.searchQuery).toBeNull();
+    expect(screen.queryByRole('list')).toBeNull();
+  });
+
+  /** Applies safe mode to results stored before it was turned on */
+  it('hides and masks results in safe mode', () => {
+    const { jokes } = withResults(0);
+    renderWithStore(<SearchResults />, {
+      jokes: {
+        ...jokes,
+        searchTotal: 3,
+        searchResults: [
+          createJoke({ id: 'a', value: 'Clean joke' }),
+          createJoke({ id: 'b', value: 'Rude joke', categories: ['explicit'] }),
+          createJoke({ id: 'c', value: 'Holy shit.' }),
+        ],
+      },
+      safeMode: { enabled: true, blockedCategories: ['explicit'] },
+    });
+
+    expect(screen.getByText('2 results for "chuck"')).toBeTruthy();
+    expect(screen.getByText('1 joke is hidden by safe mode.')).toBeTruthy();
+    expect(screen.getAllByRole('listitem')).toHaveLength(2);
+    expect(screen.queryByText('Rude joke')).toBeNull();
+    expect(screen.getByText('Holy s***.')).toBeTruthy();
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import ShareMenu from '@/components/jokes/ShareMenu';
+import { createJoke } from '../mocks/jokes';
+import { renderWithStore } from '../mocks/renderWithStore';
+
+/**
+ * Test suite for the {@link ShareMenu} component.
+ *
+ * Ensures that the copy actions write the expected text to the clipboard,
+ * in the UI language, and announce the outcome.
+ */
+describe('ShareMenu', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  const joke = createJoke({ value: 'Chuck Norris can divide by zero.' });
+
+  /** Copies the joke as plain text */
+  it('copies the joke text', async () => {
+    const user = userEvent.setup();
+    const writeText = vi
+      .spyOn(navigator.clipboard, 'writeText')
+      .mockResolvedValue();
+    renderWithStore(<ShareMenu joke={joke} category="dev" />);
+
+    await user.click(screen.getByRole('button', { name: /share/i }));
+    await user.click(screen.getByRole('menuitem', { name: /copy text/i }));
+
+    expect(writeText).toHaveBeenCalledWith('Chuck Norris can divide by zero.');
+    expect((await screen.findByRole('status')).textContent).toBe('Copied!');
+  });
+
+  /** Reports a failed copy */
+  it('reports a failed copy', async () => {
+    const user = userEvent.setup();
+    vi.spyOn(navigator.clipboard, 'writeText').mockRejectedValue(
+      new Error('denied')
+    );
+    renderWithStore(<ShareMenu joke={joke} category={null} />);
+
+    await user.click(screen.getByRole('button', { name: /share/i }));
+    await user.click(
+      screen.getByRole('menuitem', { name: /copy as markdown/i })
+    );
+
+    expect((await screen.findByRole('status')).textContent).toBe(
+      'Could not copy'
+    );
+  });
+
+  /** Translates the Markdown link and category */
+  it('copies Markdown in the UI language', async () => {
+    const user = userEvent.setup();
+    const writeText = vi
+      .spyOn(navigator.clipboard, 'writeText')
+      .mockResolvedValue();
+    renderWithStore(<ShareMenu joke={joke} category="dev" />, {
+      locale: { locale: 'sk' },
+    });
+
+    await user.click(screen.getByRole('button', { name: 'Zdieľať' }));
+    await user.click(
+      screen.getByRole('menuitem', { name: 'Kopírovať ako Markdown' })
+    );
+
+    expect(writeText).toHaveBeenCalledWith(
+      '> Chuck Norris can divide by zero.\n\n' +
+        `— [Vtip o Chuckovi Norrisovi](${joke.url}) (programovanie)`
+    );
+    expect((await screen.findByRole('status')).textContent).toBe(
+      'Skopírované!'
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import ThemeEditor from '@/components/theme/ThemeEditor';
+import { renderWithStore } from '../mocks/renderWithStore';
+
+/**
+ * A file chosen for import; jsdom's `File` has no `text()`, so it is added.
+ *
+ * @param {string} content - The file contents.
+ * @returns {File} The file.
+ */
+const themesFile = (content: string) =>
+  Object.assign(new File([content], 'themes.json'), {
+    text: async () => content,
+  });
+
+/**
+ * Test suite for the {@link ThemeEditor} component.
+ *
+ * Ensures that themes can be built from a preset, saved, applied, deleted
+ * and imported from a file.
+ */
+describe('ThemeEditor', () => {
+  afterEach(() => {
+    cleanup();
+    localStorage.clear();
+  });
+
+  /** Starts from a preset and saves it under a new name */
+  it('saves a theme built from a preset', async () => {
+    const user = userEvent.setup();
+    const { store } = renderWithStore(<ThemeEditor onClose={vi.fn()} />, {
+      locale: { locale: 'en' },
+      colorThemes: { saved: [], activeId: null },
+    });
+
+    await user.click(screen.getByRole('button', { name: 'Ocean' }));
+    const name = screen.getByRole('textbox', { name: 'Name' });
+    await user.clear(name);
+    await user.type(name, 'Deep sea');
+    fireEvent.input(screen.getByLabelText('Card'), {
+      target: { value: '#000080' },
+    });
+    await user.click(screen.getByRole('button', { name: 'Save and apply' }));
+
+    const [saved] = store.getState().colorThemes.saved;
+    expect(saved).toMatchObject({
+      name: 'Deep sea',
+      accent: '#38bdf8',
+      background: '#0b1d2a',
+      card: '#000080',
+    });
+    expect(store.getState().colorThemes.activeId).toBe(saved.id);
+
+    await user.click(screen.getByRole('button', { name: 'Delete Deep sea' }));
+    expect(store.getState().colorThemes).toEqual({
+      saved: [],
+      activeId: null,
+    });
+  });
+
+  /** Imports the themes of a JSON file, and rejects invalid files */
+  it('imports themes from a file', async () => {
+    const user = userEvent.setup();
+    const { store } = renderWithStore(<ThemeEditor onClose={vi.fn()} />, {
+      locale: { locale: 'en' },
+      colorThemes: { saved: [], activeId: null },
+    });
+    const input = screen.getByTestId('theme-import');
+    const theme = {
+      name: 'Dusk',
+      accent: '#f97316',
+      background: '#1e1b4b',
+      card: '#312e81',
+    };
+
+    await user.upload(input, themesFile(JSON.stringify({ themes: [theme] })));
+    expect((await screen.findByRole('status')).textContent).toBe(
+      'Imported 1 theme'
+    );
+    expect(store.getState().colorThemes.saved).toEqual([
+      { ...theme, id: expect.any(String) },
+    ]);
+    expect(screen.getByRole('button', { name: 'Apply Dusk' })).toBeTruthy();
+
+    await user.upload(input, themesFile('nope'));
+    expect((await screen.findByRole('alert')).textContent).toBe(
+      'This file contains no valid themes.'
+    );
+    expect(store.getState().colorThemes.saved).toHaveLength(1);
+  });
+
+  /** Closes with Escape */
+  it('closes with Escape', async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    renderWithStore(<ThemeEditor onClose={onClose} />, {
+      locale: { locale: 'en' },
+    });
+    await user.keyboard('{Escape}');
+    expect(onClose).toHaveBeenCalled();
+  });
+});
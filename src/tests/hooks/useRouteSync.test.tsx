@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, render } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { MemoryRouter, useLocation, useNavigate } from 'react-router';
+import { useRouteSync } from '@/hooks/useRouteSync';
+import { rootReducer } from '@/store/index';
+import { fetchJokeByCategory, searchJokes } from '@/store/slices/jokesSlice';
+import { createJoke } from '../mocks/jokes';
+
+/** Location rendered by {@link Probe}, updated on every render */
+let currentUrl = '';
+
+/** Steps back in the router's history, set by {@link Probe} */
+let goBack = () => {};
+
+/** Runs the hook and records the current URL */
+function Probe() {
+  useRouteSync();
+  const location = useLocation();
+  const navigate = useNavigate();
+  currentUrl = location.pathname + location.search;
+  goBack = () => void navigate(-1);
+  return null;
+}
+
+/**
+ * Render the hook at a URL with a fresh store.
+ *
+ * @param {string} url - The initial URL.
+ */
+const renderAt = (url: string) => {
+  const store = configureStore({ reducer: rootReducer });
+  render(
+    <Provider store={store}>
+      <MemoryRouter initialEntries={[url]}>
+        <Probe />
+      </MemoryRouter>
+    </Provider>
+  );
+  return store;
+};
+
+/**
+ * Replace `fetch` with a mock answering every request with `body`.
+ *
+ * @param {unknown} body - The JSON payload.
+ */
+const mockFetchJson = (body: unknown) => {
+  const fetchMock = vi.fn<(url: string) => Promise<Response>>(
+    async () => new Response(JSON.stringify(body), { status: 200 })
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+/**
+ * Test suite for the {@link useRouteSync} hook.
+ *
+ * Ensures that deep links load their content and that loading something
+ * new updates the URL.
+ */
+describe('useRouteSync', () => {
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  /** Loads the joke of a `/joke/:id` link */
+  it('loads the joke of a deep link', async () => {
+    const fetchMock = mockFetchJson(createJoke({ id: 'abc' }));
+
+    const store = renderAt('/joke/abc');
+    await vi.waitFor(() => expect(store.getState().jokes.joke?.id).toBe('abc'));
+
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/abc$/);
+    expect(currentUrl).toBe('/joke/abc');
+  });
+
+  /** Replaces `/` with the link of the random joke */
+  it('links the random joke loaded on the home page', async () => {
+    mockFetchJson(createJoke({ id: 'rnd' }));
+
+    renderAt('/');
+
+    await vi.waitFor(() => expect(currentUrl).toBe('/joke/rnd'));
+  });
+
+  /** Updates the URL after a search */
+  it('updates the URL when the user searches', async () => {
+    mockFetchJson(createJoke({ id: 'rnd' }));
+    const store = renderAt('/');
+    await vi.waitFor(() => expect(currentUrl).toBe('/joke/rnd'));
+
+    mockFetchJson({ total: 1, result: [createJoke()] });
+    await act(() => store.dispatch(searchJokes('kick')));
+
+    expect(currentUrl).toBe('/search?q=kick');
+  });
+
+  /** Adds a single history entry while the user types a query */
+  it('replaces the URL of consecutive live searches', async () => {
+    mockFetchJson(createJoke({ id: 'rnd' }));
+    const store = renderAt('/');
+    await vi.waitFor(() => expect(currentUrl).toBe('/joke/rnd'));
+
+    mockFetchJson({ total: 1, result: [createJoke()] });
+    await act(() => store.dispatch(searchJokes({ query: 'kic', live: true })));
+    await act(() => store.dispatch(searchJokes({ query: 'kick', live: true })));
+    expect(currentUrl).toBe('/search?q=kick');
+
+    act(() => goBack());
+
+    expect(currentUrl).toBe('/joke/rnd');
+  });
+
+  /** Follows a category picked while search results are listed */
+  it('leaves the search URL when a joke is loaded another way', async () => {
+    mockFetchJson(createJoke({ id: 'rnd' }));
+    const store = renderAt('/');
+    await vi.waitFor(() => expect(currentUrl).toBe('/joke/rnd'));
+
+    mockFetchJson({ total: 1, result: [createJoke()] });
+    await act(() => store.dispatch(searchJokes('kick')));
+    expect(currentUrl).toBe('/search?q=kick');
+
+    mockFetchJson(createJoke({ id: 'dev-joke', categories: ['dev'] }));
+    await act(() => store.dispatch(fetchJokeByCategory('dev')));
+
+    expect(currentUrl).toBe('/category/dev');
+    expect(store.getState().jokes.searchQuery).toBeNull();
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  act,
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+} from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { useSlideshow } from '@/hooks/useSlideshow';
+import { rootReducer } from '@/store/index';
+import {
+  setPlaying,
+  setSlideshowInterval,
+} from '@/store/slices/slideshowSlice';
+import { createJoke } from '../mocks/jokes';
+
+/** Runs the hook on an element standing in for the joke card */
+function Probe() {
+  const { progress, holdProps } = useSlideshow();
+  return (
+    <div data-testid="card" data-progress={progress ?? ''} {...holdProps} />
+  );
+}
+
+/**
+ * Render the hook with a fresh store playing a 5 s slideshow.
+ */
+const renderPlaying = () => {
+  const store = configureStore({ reducer: rootReducer });
+  store.dispatch(setSlideshowInterval(5_000));
+  render(
+    <Provider store={store}>
+      <Probe />
+    </Provider>
+  );
+  act(() => {
+    store.dispatch(setPlaying(true));
+  });
+  return store;
+};
+
+/**
+ * Move the fake clock forward inside `act`.
+ *
+ * @param {number} ms - Time to advance.
+ */
+const advance = async (ms: number) => {
+  await act(async () => {
+    await vi.advanceTimersByTimeAsync(ms);
+  });
+};
+
+/**
+ * Test suite for the {@link useSlideshow} hook.
+ *
+ * Ensures that the countdown shows the next joke when it runs out and that
+ * it is paused by hovering and by hiding the tab.
+ */
+describe('useSlideshow', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock = vi.fn(
+      async () => new Response(JSON.stringify(createJoke()), { status: 200 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  /** Counts down and fetches the next joke once the interval has passed */
+  it('shows the next joke when the countdown runs out', async () => {
+    renderPlaying();
+
+    await advance(2_500);
+    expect(
+      Number(screen.getByTestId('card').getAttribute('data-progress'))
+    ).toBeCloseTo(0.5, 1);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await advance(2_600);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  /** Does not count down while the card is hovered */
+  it('pauses while the card is hovered', async () => {
+    renderPlaying();
+
+    fireEvent.mouseEnter(screen.getByTestId('card'));
+    await advance(10_000);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    fireEvent.mouseLeave(screen.getByTestId('card'));
+    await advance(5_100);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  /** Does not count down while the tab is hidden */
+  it('pauses while the tab is hidden', async () => {
+    const hidden = vi.spyOn(document, 'hidden', 'get').mockReturnValue(true);
+    renderPlaying();
+    act(() => {
+      document.dispatchEvent(new Event('visibilitychange'));
+    });
+
+    await advance(10_000);
+    expect(fetchMock).not.toHaveBeenCalled();
+    hidden.mockRestore();
+  });
+
+  /** Has no countdown when stopped */
+  it('reports no progress when not playing', () => {
+    const store = configureStore({ reducer: rootReducer });
+    render(
+      <Provider store={store}>
+        <Probe />
+      </Provider>
+    );
+
+    expect(screen.getByTestId('card').getAttribute('data-progress')).toBe('');
+  });
+});
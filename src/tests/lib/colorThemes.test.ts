@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  applyColorTheme,
+  downloadThemes,
+  exportThemes,
+  isDarkColor,
+  parseThemeDraft,
+  parseThemesFile,
+  THEME_PRESETS,
+  themeVariables,
+} from '@/lib/colorThemes';
+
+/** A valid theme. */
+const theme = {
+  name: 'Dusk',
+  accent: '#f97316',
+  background: '#1e1b4b',
+  card: '#312e81',
+};
+
+/**
+ * Unit tests for the color theme helpers.
+ */
+describe('colorThemes', () => {
+  /** Picks readable text colors for the background */
+  it('tells dark colors from light ones', () => {
+    expect(isDarkColor('#000000')).toBe(true);
+    expect(isDarkColor('#1e1b4b')).toBe(true);
+    expect(isDarkColor('#ffffff')).toBe(false);
+    expect(isDarkColor('#ffff00')).toBe(false);
+
+    const variables = themeVariables(theme);
+    expect(variables['--background']).toBe('#1e1b4b');
+    expect(variables['--foreground']).toBe('#ffffff');
+    expect(variables['--primary']).toBe('#f97316');
+    expect(variables['--primary-foreground']).toBe('#09090b');
+  });
+
+  /** Sets the variables on the root element, and removes them again */
+  it('applies and removes a theme', () => {
+    const root = document.createElement('div');
+    applyColorTheme(theme, root);
+    expect(root.style.getPropertyValue('--card')).toBe('#312e81');
+
+    applyColorTheme(null, root);
+    expect(root.style.getPropertyValue('--card')).toBe('');
+  });
+
+  /** Rejects themes without a name or with invalid colors */
+  it('validates themes', () => {
+    expect(parseThemeDraft({ ...theme, name: '  Dusk ' })).toEqual(theme);
+    expect(parseThemeDraft({ ...theme, accent: 'orange' })).toBeNull();
+    expect(parseThemeDraft({ ...theme, name: ' ' })).toBeNull();
+    expect(parseThemeDraft('Dusk')).toBeNull();
+  });
+
+  /** Reads back exported files, skipping invalid entries */
+  it('exports and imports themes as JSON', () => {
+    const file = exportThemes([{ ...THEME_PRESETS[0] }, theme]);
+    expect(JSON.parse(file).themes[0]).not.toHaveProperty('id');
+    expect(parseThemesFile(file)).toEqual([
+      {
+        name: 'High contrast',
+        accent: '#ffff00',
+        background: '#000000',
+        card: '#000000',
+      },
+      theme,
+    ]);
+
+    expect(parseThemesFile(JSON.stringify([theme, { name: 'x' }]))).toEqual([
+      theme,
+    ]);
+    expect(parseThemesFile('{"themes": []}')).toBeNull();
+    expect(parseThemesFile('not json')).toBeNull();
+  });
+
+  /** Keeps the file URL alive until the browser has started the download */
+  it('revokes the download URL after a delay', () => {
+    vi.useFakeTimers();
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, {
+      createObjectURL: () => 'blob:themes',
+      revokeObjectURL,
+    });
+    const click = vi
+      .spyOn(HTMLAnchorElement.prototype, 'click')
+      .mockImplementation(() => {});
+
+    downloadThemes([theme]);
+
+    expect(click).toHaveBeenCalled();
+    expect(revokeObjectURL).not.toHaveBeenCalled();
+    vi.runAllTimers();
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:themes');
+
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { mapWithConcurrency } from '@/lib/concurrency';
+
+/**
+ * Unit tests for {@link mapWithConcurrency}.
+ */
+describe('mapWithConcurrency', () => {
+  /** Never runs more calls at once than the limit */
+  it('respects the concurrency limit', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return n * 10;
+    });
+
+    expect(peak).toBe(2);
+    expect(results.map((r) => r.status === 'fulfilled' && r.value)).toEqual([
+      10, 20, 30, 40, 50,
+    ]);
+  });
+
+  /** Reports failures per item and keeps going */
+  it('settles every item', async () => {
+    const results = await mapWithConcurrency(['a', 'b'], 3, async (item) => {
+      if (item === 'a') throw new Error('boom');
+      return item;
+    });
+
+    expect(results[0]).toMatchObject({ status: 'rejected' });
+    expect(results[1]).toEqual({ status: 'fulfilled', value: 'b' });
+  });
+});
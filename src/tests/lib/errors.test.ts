@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import {
+  HttpError,
+  InvalidResponseError,
+  RequestTimeoutError,
+  toJokeError,
+} from '@/lib/api/errors';
+
+/**
+ * Unit tests for {@link toJokeError}.
+ *
+ * Verifies that every error the API client can throw is classified into
+ * the matching {@link JokeError} kind.
+ */
+describe('toJokeError', () => {
+  /** Keeps the status code of HTTP errors */
+  it('classifies HTTP errors', () => {
+    expect(toJokeError(new HttpError('/random', 503, null))).toEqual({
+      kind: 'http',
+      message: 'Request to /random failed with status 503',
+      status: 503,
+    });
+  });
+
+  /** Classifies timeouts, bad payloads and network failures */
+  it('classifies client errors', () => {
+    expect(toJokeError(new RequestTimeoutError('/random', 100)).kind).toBe(
+      'timeout'
+    );
+    expect(
+      toJokeError(new InvalidResponseError('/random', 'bad', null)).kind
+    ).toBe('invalid-payload');
+    expect(toJokeError(new TypeError('Failed to fetch')).kind).toBe('network');
+  });
+
+  /** Falls back to `unknown` for anything else */
+  it('classifies unexpected values as unknown', () => {
+    expect(toJokeError(new Error('boom'))).toEqual({
+      kind: 'unknown',
+      message: 'boom',
+    });
+    expect(toJokeError('boom')).toEqual({ kind: 'unknown', message: 'boom' });
+  });
+});
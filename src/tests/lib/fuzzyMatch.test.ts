@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { fuzzyMatch, rankFuzzyMatches } from '@/lib/fuzzyMatch';
+
+/**
+ * Unit tests for the command palette matching.
+ */
+describe('fuzzyMatch', () => {
+  /** Matches characters in order, ignoring case, spaces and diacritics */
+  it('matches abbreviations', () => {
+    expect(fuzzyMatch('nxj', 'Next joke')).not.toBeNull();
+    expect(fuzzyMatch('NEXT J', 'Next joke')).not.toBeNull();
+    expect(fuzzyMatch('kategoria', 'Kategória')).not.toBeNull();
+    expect(fuzzyMatch('jn', 'Next joke')).toBeNull();
+    expect(fuzzyMatch('xyz', 'Next joke')).toBeNull();
+  });
+
+  /** Prefers consecutive characters and word starts */
+  it('scores closer matches higher', () => {
+    expect(fuzzyMatch('dev', 'dev')).toBeGreaterThan(
+      fuzzyMatch('dev', 'undeveloped') ?? 0
+    );
+    expect(fuzzyMatch('nj', 'Next joke')).toBeGreaterThan(
+      fuzzyMatch('nj', 'inject') ?? 0
+    );
+  });
+
+  /** Keeps matching items, best first, by any of their texts */
+  it('ranks items', () => {
+    const items = [
+      { label: 'Toggle theme', keywords: [] },
+      { label: 'Show a joke from food', keywords: ['food'] },
+      { label: 'Copy joke', keywords: [] },
+    ];
+    const rank = (query: string) =>
+      rankFuzzyMatches(items, query, (i) => [i.label, ...i.keywords]).map(
+        (i) => i.label
+      );
+
+    expect(rank('food')).toEqual(['Show a joke from food']);
+    // Equally good matches keep their order
+    expect(rank('joke')).toEqual(['Show a joke from food', 'Copy joke']);
+    expect(rank(' ')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { editDistance, fuzzySearch, tokenize } from '@/lib/fuzzySearch';
+import { createJoke } from '../mocks/jokes';
+
+/**
+ * Unit tests for {@link fuzzySearch} and its helpers.
+ */
+describe('fuzzySearch', () => {
+  const jokes = [
+    createJoke({ id: 'a', value: 'Chuck Norris can kick a roundhouse.' }),
+    createJoke({ id: 'b', value: 'Chuck Norris counted to infinity. Twice.' }),
+    createJoke({ id: 'c', value: 'Roundhouse kicks are Chuck’s favorite.' }),
+  ];
+
+  /** Splits on anything but letters and digits */
+  it('tokenizes text into lowercase words', () => {
+    expect(tokenize('Chuck-Norris, 2x!')).toEqual(['chuck', 'norris', '2x']);
+  });
+
+  /** Counts edits and stops early above the bound */
+  it('computes the edit distance', () => {
+    expect(editDistance('kick', 'kick')).toBe(0);
+    expect(editDistance('kikc', 'kick')).toBe(2);
+    expect(editDistance('roundhuse', 'roundhouse')).toBe(1);
+    expect(editDistance('chuck', 'infinity', 2)).toBe(3);
+  });
+
+  /** Requires every term and ranks exact matches above prefixes */
+  it('ranks jokes matching every term', () => {
+    expect(fuzzySearch(jokes, 'roundhouse kick').map((m) => m.joke.id)).toEqual(
+      ['a', 'c']
+    );
+  });
+
+  /** Tolerates typos in longer terms */
+  it('matches misspelt terms', () => {
+    expect(fuzzySearch(jokes, 'infinty').map((m) => m.joke.id)).toEqual(['b']);
+    expect(fuzzySearch(jokes, 'rondhouse chuk').map((m) => m.joke.id)).toEqual([
+      'a',
+      'c',
+    ]);
+  });
+
+  /** Does not guess short terms */
+  it('requires short terms to match exactly', () => {
+    expect(fuzzySearch(jokes, 'kik')).toEqual([]);
+    expect(fuzzySearch(jokes, '  ')).toEqual([]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { highlightMatches, matchedTerms, queryTerms } from '@/lib/highlight';
+
+/**
+ * Unit tests for the search highlighting helpers.
+ */
+describe('highlight', () => {
+  /** Splits on whitespace and drops repeated terms */
+  it('splits a query into unique terms', () => {
+    expect(queryTerms('  Roundhouse  kick roundhouse ')).toEqual([
+      'Roundhouse',
+      'kick',
+    ]);
+  });
+
+  /** Marks every case-insensitive match of every term */
+  it('splits a text around the matches', () => {
+    expect(highlightMatches('Chuck kicks CHUCK', 'chuck kick')).toEqual([
+      { text: 'Chuck', match: true },
+      { text: ' ', match: false },
+      { text: 'kick', match: true },
+      { text: 's ', match: false },
+      { text: 'CHUCK', match: true },
+    ]);
+  });
+
+  /** Prefers the longer term and treats special characters literally */
+  it('matches the longest term literally', () => {
+    expect(highlightMatches('kick (c++)', 'kic kick c++')).toEqual([
+      { text: 'kick', match: true },
+      { text: ' (', match: false },
+      { text: 'c++', match: true },
+      { text: ')', match: false },
+    ]);
+  });
+
+  /** Returns the whole text unmatched for an empty query */
+  it('keeps the text without terms', () => {
+    expect(highlightMatches('Chuck', '  ')).toEqual([
+      { text: 'Chuck', match: false },
+    ]);
+  });
+
+  /** Lists only the terms found in the text */
+  it('lists the matched terms', () => {
+    expect(matchedTerms('Chuck Norris', 'norris beard CHUCK')).toEqual([
+      'norris',
+      'CHUCK',
+    ]);
+  });
+});
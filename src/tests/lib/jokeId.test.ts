@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parseJokeId } from '@/lib/jokeId';
+
+/**
+ * Unit tests for {@link parseJokeId}.
+ */
+describe('parseJokeId', () => {
+  /** Accepts bare ids */
+  it('accepts a bare id', () => {
+    expect(parseJokeId('  Xc2qX-_4Qb2Ljm0wl7BDrA ')).toBe(
+      'Xc2qX-_4Qb2Ljm0wl7BDrA'
+    );
+  });
+
+  /** Extracts the id from joke URLs */
+  it('extracts the id from a joke URL', () => {
+    expect(parseJokeId('https://api.chucknorris.io/jokes/abc123')).toBe(
+      'abc123'
+    );
+    expect(parseJokeId('https://chucknorris.io/jokes/abc123/')).toBe('abc123');
+  });
+
+  /** Rejects anything else */
+  it('rejects input that is not a joke id', () => {
+    expect(parseJokeId('')).toBeNull();
+    expect(parseJokeId('not an id')).toBeNull();
+    expect(parseJokeId('random')).toBeNull();
+    expect(parseJokeId('https://api.chucknorris.io/jokes/random')).toBeNull();
+    expect(parseJokeId('https://example.com/jokes/abc123')).toBeNull();
+  });
+});
@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  getCategories,
+  getJokeById,
+  getRandomJoke,
+  parseRetryAfter,
+  searchJokes,
+} from '@/lib/api/jokesApi';
+import {
+  HttpError,
+  InvalidResponseError,
+  RequestTimeoutError,
+} from '@/lib/api/errors';
+import { createJoke } from '../mocks/jokes';
+
+/**
+ * Replace `fetch` with a mock resolving to the given JSON body.
+ *
+ * @param {unknown} body - The payload returned by `res.json()`.
+ */
+const mockFetchJson = (body: unknown) => {
+  const fetchMock = vi
+    .fn()
+    .mockResolvedValue(new Response(JSON.stringify(body), { status: 200 }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+/**
+ * Unit tests for the Chuck Norris API client.
+ *
+ * Verifies that:
+ * - Requests hit the expected endpoints with encoded parameters.
+ * - Valid payloads are returned as typed objects.
+ * - Malformed payloads raise an {@link InvalidResponseError}.
+ */
+describe('jokesApi', () => {
+  beforeEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  /** Returns the validated joke from `/random` */
+  it('getRandomJoke returns a validated joke', async () => {
+    const joke = createJoke();
+    const fetchMock = mockFetchJson(joke);
+
+    await expect(getRandomJoke()).resolves.toEqual(joke);
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/random$/);
+  });
+
+  /** Encodes the category in the query string */
+  it('getRandomJoke encodes the category', async () => {
+    const fetchMock = mockFetchJson(createJoke({ categories: ['dev'] }));
+
+    await getRandomJoke('dev & ops');
+    expect(fetchMock.mock.calls[0][0]).toMatch(
+      /\/random\?category=dev%20%26%20ops$/
+    );
+  });
+
+  /** Requests a joke by its encoded id */
+  it('getJokeById fetches the joke path', async () => {
+    const joke = createJoke({ id: 'a/b' });
+    const fetchMock = mockFetchJson(joke);
+
+    await expect(getJokeById('a/b')).resolves.toEqual(joke);
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/a%2Fb$/);
+  });
+
+  /** Rejects jokes with missing or mistyped fields */
+  it('getRandomJoke rejects a joke without text', async () => {
+    mockFetchJson({ ...createJoke(), value: undefined });
+
+    await expect(getRandomJoke()).rejects.toThrow(
+      'Invalid response from /random: joke.value must be a string'
+    );
+  });
+
+  /** Rejects a body that cannot be decoded as JSON */
+  it('rejects a non-JSON body', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(new Response('<html></html>', { status: 200 }))
+    );
+
+    await expect(getCategories()).rejects.toBeInstanceOf(InvalidResponseError);
+  });
+
+  /** Returns every search result */
+  it('searchJokes returns total and results', async () => {
+    const jokes = [createJoke({ id: '1' }), createJoke({ id: '2' })];
+    mockFetchJson({ total: 2, result: jokes });
+
+    await expect(searchJokes('chuck')).resolves.toEqual({
+      total: 2,
+      result: jokes,
+    });
+  });
+
+  /** Points at the offending entry when a search result is malformed */
+  it('searchJokes reports the index of an invalid result', async () => {
+    mockFetchJson({
+      total: 2,
+      result: [createJoke(), { ...createJoke(), categories: 'dev' }],
+    });
+
+    await expect(searchJokes('chuck')).rejects.toThrow(
+      'result[1].categories must be an array of strings'
+    );
+  });
+
+  /** Accepts only arrays of strings for categories */
+  it('getCategories validates the category list', async () => {
+    mockFetchJson(['animal', 'career']);
+    await expect(getCategories()).resolves.toEqual(['animal', 'career']);
+
+    mockFetchJson({ status: 404, error: 'Not Found' });
+    await expect(getCategories()).rejects.toThrow(
+      'Invalid response from /categories: expected an array of category names'
+    );
+  });
+
+  /** Aborts a hung request once the timeout elapses */
+  it('rejects with RequestTimeoutError when the request hangs', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () =>
+              reject(init.signal?.reason)
+            );
+          })
+      )
+    );
+
+    const error = await getRandomJoke(undefined, { timeoutMs: 5 }).catch(
+      (err: unknown) => err
+    );
+
+    expect(error).toBeInstanceOf(RequestTimeoutError);
+    expect((error as RequestTimeoutError).message).toBe(
+      'Request to /random timed out after 5 ms'
+    );
+  });
+
+  /** Passes an external abort through to fetch */
+  it('aborts the request when the given signal aborts', async () => {
+    const fetchMock = mockFetchJson(createJoke());
+    const controller = new AbortController();
+    controller.abort();
+
+    await getRandomJoke(undefined, { signal: controller.signal });
+
+    const init = fetchMock.mock.calls[0][1] as RequestInit;
+    expect(init.signal?.aborted).toBe(true);
+  });
+
+  /** Rejects non-2xx responses with the status and Retry-After delay */
+  it('rejects with HttpError on an error status', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValue(
+          new Response('{}', { status: 429, headers: { 'Retry-After': '2' } })
+        )
+    );
+
+    const error = await getCategories().catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).status).toBe(429);
+    expect((error as HttpError).retryAfterMs).toBe(2000);
+  });
+
+  /** Parses both forms of the Retry-After header */
+  it('parseRetryAfter handles seconds, dates and garbage', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+    expect(
+      parseRetryAfter(new Date(Date.now() + 60_000).toUTCString())
+    ).toBeGreaterThan(55_000);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { pickWeighted } from '@/lib/pickWeighted';
+
+/**
+ * Unit tests for {@link pickWeighted}.
+ */
+describe('pickWeighted', () => {
+  const items = [
+    { name: 'a', weight: 1 },
+    { name: 'b', weight: 3 },
+    { name: 'c', weight: 0 },
+  ];
+  const weightOf = (item: { weight: number }) => item.weight;
+
+  /** Maps the random number onto the cumulative weights */
+  it('picks in proportion to the weights', () => {
+    expect(pickWeighted(items, weightOf, () => 0)?.name).toBe('a');
+    expect(pickWeighted(items, weightOf, () => 0.24)?.name).toBe('a');
+    expect(pickWeighted(items, weightOf, () => 0.25)?.name).toBe('b');
+    expect(pickWeighted(items, weightOf, () => 0.999)?.name).toBe('b');
+  });
+
+  /** Returns null without positive weights */
+  it('returns null when nothing can be picked', () => {
+    expect(pickWeighted([], weightOf)).toBeNull();
+    expect(pickWeighted([items[2]], weightOf)).toBeNull();
+  });
+});
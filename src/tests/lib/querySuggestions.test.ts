@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { suggestQueries } from '@/lib/querySuggestions';
+
+/**
+ * Unit tests for {@link suggestQueries}.
+ */
+describe('suggestQueries', () => {
+  const history = {
+    saved: ['Roundhouse kick', 'beard'],
+    recent: ['kick', 'roundhouse KICK', 'computer'],
+  };
+
+  /** Lists saved queries before recent ones, without duplicates */
+  it('suggests every query for an empty input', () => {
+    expect(suggestQueries(history, '')).toEqual([
+      { query: 'Roundhouse kick', saved: true },
+      { query: 'beard', saved: true },
+      { query: 'kick', saved: false },
+      { query: 'computer', saved: false },
+    ]);
+  });
+
+  /** Keeps queries containing the input, except the input itself */
+  it('filters by the typed text', () => {
+    expect(suggestQueries(history, ' KICK ').map((s) => s.query)).toEqual([
+      'Roundhouse kick',
+    ]);
+  });
+
+  /** Caps the number of suggestions */
+  it('respects the limit', () => {
+    expect(suggestQueries(history, '', 2)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+import { HttpError } from '@/lib/api/errors';
+import { getRetryDelay, isTransientError, withRetry } from '@/lib/api/retry';
+
+/**
+ * Unit tests for the retry helpers.
+ *
+ * Verifies which failures are retried, how the backoff delay is computed
+ * and that {@link withRetry} respects its attempt budget.
+ */
+describe('retry', () => {
+  /** Only network failures, 5xx and 429 are transient */
+  it('classifies transient errors', () => {
+    expect(isTransientError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isTransientError(new HttpError('/random', 503, null))).toBe(true);
+    expect(isTransientError(new HttpError('/random', 429, null))).toBe(true);
+    expect(isTransientError(new HttpError('/random', 404, null))).toBe(false);
+    expect(isTransientError(new DOMException('', 'AbortError'))).toBe(false);
+  });
+
+  /** Honors Retry-After and otherwise caps the jittered exponential delay */
+  it('computes the backoff delay', () => {
+    expect(getRetryDelay(1, new HttpError('/x', 429, 1500), 100, 1000)).toBe(
+      1500
+    );
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.999);
+    expect(getRetryDelay(1, new TypeError(), 100, 1000)).toBeCloseTo(99.9);
+    expect(getRetryDelay(3, new TypeError(), 100, 1000)).toBeCloseTo(399.6);
+    expect(getRetryDelay(10, new TypeError(), 100, 1000)).toBeCloseTo(999);
+    vi.restoreAllMocks();
+  });
+
+  /** Retries until success and reports each retry */
+  it('retries transient failures', async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockRejectedValueOnce(new HttpError('/random', 502, null))
+      .mockResolvedValue('joke');
+    const onRetry = vi.fn();
+
+    await expect(
+      withRetry(fn, { maxAttempts: 3, baseDelayMs: 0, onRetry })
+    ).resolves.toBe('joke');
+
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([attempt, max]) => [attempt, max])).toEqual([
+      [2, 3],
+      [3, 3],
+    ]);
+  });
+
+  /** Gives up once the budget is spent */
+  it('stops after maxAttempts', async () => {
+    const fn = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+
+    await expect(
+      withRetry(fn, { maxAttempts: 2, baseDelayMs: 0 })
+    ).rejects.toThrow('Failed to fetch');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  /** Does not retry permanent failures */
+  it('does not retry non-transient errors', async () => {
+    const fn = vi.fn().mockRejectedValue(new HttpError('/random', 404, null));
+
+    await expect(withRetry(fn, { baseDelayMs: 0 })).rejects.toBeInstanceOf(
+      HttpError
+    );
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  /** Gives up instead of waiting for a Retry-After beyond the cap */
+  it('does not wait for a long Retry-After', async () => {
+    const error = new HttpError('/random', 429, 3_600_000);
+    const fn = vi.fn().mockRejectedValue(error);
+    const onRetry = vi.fn();
+
+    await expect(withRetry(fn, { maxDelayMs: 8_000, onRetry })).rejects.toBe(
+      error
+    );
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+});
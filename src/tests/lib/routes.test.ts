@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  categoryPath,
+  jokePath,
+  pathFromState,
+  requestFromLocation,
+  searchPath,
+} from '@/lib/routes';
+import jokesReducer, {
+  fetchJokeByCategory,
+  fetchRandomJoke,
+  searchJokes,
+} from '@/store/slices/jokesSlice';
+import { createJoke } from '../mocks/jokes';
+
+/**
+ * Unit tests for the route helpers.
+ *
+ * Verifies that URLs map to the matching requests and back, including
+ * encoding of ids, categories and queries.
+ */
+describe('routes', () => {
+  /** Builds encoded paths */
+  it('builds paths', () => {
+    expect(jokePath('abc')).toBe('/joke/abc');
+    expect(categoryPath('dev ops')).toBe('/category/dev%20ops');
+    expect(searchPath('kick & punch')).toBe('/search?q=kick+%26+punch');
+  });
+
+  /** Maps each route to its request */
+  it('maps locations to requests', () => {
+    expect(requestFromLocation({ pathname: '/joke/abc', search: '' })).toEqual({
+      type: 'id',
+      id: 'abc',
+    });
+    expect(
+      requestFromLocation({ pathname: '/category/dev%20ops', search: '' })
+    ).toEqual({ type: 'category', category: 'dev ops' });
+    expect(
+      requestFromLocation({ pathname: '/search', search: '?q=kick' })
+    ).toEqual({ type: 'search', query: 'kick' });
+  });
+
+  /** Falls back to a random joke */
+  it('maps unknown locations to a random joke', () => {
+    expect(requestFromLocation({ pathname: '/', search: '' })).toEqual({
+      type: 'random',
+    });
+    expect(requestFromLocation({ pathname: '/search', search: '' })).toEqual({
+      type: 'random',
+    });
+  });
+
+  /** Derives the path of what is shown */
+  it('derives the path from the state', () => {
+    const initial = jokesReducer(undefined, { type: 'init' });
+    expect(pathFromState(initial)).toBeNull();
+
+    const random = [
+      fetchRandomJoke.pending('req-1'),
+      fetchRandomJoke.fulfilled(createJoke({ id: 'abc' }), 'req-1'),
+    ].reduce(jokesReducer, initial);
+    expect(pathFromState(random)).toBe('/joke/abc');
+
+    const category = [
+      fetchJokeByCategory.pending('req-2', 'dev'),
+      fetchJokeByCategory.fulfilled(
+        { joke: createJoke(), category: 'dev' },
+        'req-2',
+        'dev'
+      ),
+    ].reduce(jokesReducer, random);
+    expect(pathFromState(category)).toBe('/category/dev');
+
+    const search = [
+      searchJokes.pending('req-3', 'kick'),
+      searchJokes.fulfilled(
+        { query: 'kick', total: 1, result: [createJoke()] },
+        'req-3',
+        'kick'
+      ),
+    ].reduce(jokesReducer, category);
+    expect(pathFromState(search)).toBe('/search?q=kick');
+  });
+
+  /** Keeps the URL while loading */
+  it('derives no path while a request is pending', () => {
+    const state = jokesReducer(undefined, fetchRandomJoke.pending('req-1'));
+    expect(pathFromState(state)).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import {
+  containsProfanity,
+  isJokeBlocked,
+  maskJoke,
+  maskProfanity,
+  safeJoke,
+} from '@/lib/safeMode';
+import { createJoke } from '../mocks/jokes';
+
+/**
+ * Unit tests for the safe mode helpers.
+ */
+describe('safeMode', () => {
+  /** Masks whole words and stems, keeping the first letter */
+  it('masks profane words', () => {
+    expect(maskProfanity('Damn, that is some bullshit.')).toBe(
+      'D***, that is some b*******.'
+    );
+    expect(maskProfanity('Chuck Norris kicks ASSES.')).toBe(
+      'Chuck Norris kicks A****.'
+    );
+  });
+
+  /** Leaves innocent words containing a profane word alone */
+  it('does not mask innocent words', () => {
+    const text = 'Chuck Norris passed the class assignment in Scunthorpe.';
+    expect(containsProfanity(text)).toBe(false);
+    expect(maskProfanity(text)).toBe(text);
+  });
+
+  /** Reports jokes from blocked categories */
+  it('detects blocked categories', () => {
+    const joke = createJoke({ categories: ['dev', 'explicit'] });
+    expect(isJokeBlocked(joke, ['explicit'])).toBe(true);
+    expect(isJokeBlocked(joke, ['religion'])).toBe(false);
+  });
+
+  /** Copies only jokes that need masking */
+  it('masks a joke only when needed', () => {
+    const clean = createJoke();
+    expect(maskJoke(clean)).toBe(clean);
+    expect(maskJoke(createJoke({ value: 'Holy shit.' })).value).toBe(
+      'Holy s***.'
+    );
+  });
+
+  /** Hides blocked jokes and masks the others only while enabled */
+  it('applies safe mode to a stored joke', () => {
+    const blocked = createJoke({ categories: ['explicit'] });
+    const profane = createJoke({ value: 'Holy shit.' });
+    const safeMode = { enabled: true, blockedCategories: ['explicit'] };
+
+    expect(safeJoke(blocked, { ...safeMode, enabled: false })).toBe(blocked);
+    expect(safeJoke(blocked, safeMode)).toBeNull();
+    expect(safeJoke(profane, safeMode)?.value).toBe('Holy s***.');
+  });
+});
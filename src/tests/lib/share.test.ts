@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatJokeMarkdown,
+  formatJokeText,
+  readThemeColors,
+  wrapText,
+} from '@/lib/share';
+import { createJoke } from '../mocks/jokes';
+
+/** Measures every character as 10px wide */
+const fixedWidth = {
+  measureText: (text: string) => ({ width: text.length * 10 }) as TextMetrics,
+};
+
+/**
+ * Unit tests for the share helpers.
+ */
+describe('share', () => {
+  const joke = createJoke({ value: 'Chuck Norris can divide by zero.' });
+
+  /** Plain text is the joke itself */
+  it('formats plain text', () => {
+    expect(formatJokeText(joke)).toBe('Chuck Norris can divide by zero.');
+  });
+
+  /** Markdown quotes the joke and links its source */
+  it('formats Markdown with the source link', () => {
+    expect(formatJokeMarkdown(joke, 'dev', 'Chuck Norris joke')).toBe(
+      '> Chuck Norris can divide by zero.\n\n' +
+        `— [Chuck Norris joke](${joke.url}) (dev)`
+    );
+  });
+
+  /** Wraps words to the available width */
+  it('wraps text to the maximum width', () => {
+    expect(wrapText(fixedWidth, 'aaa bbb ccc', 70)).toEqual(['aaa bbb', 'ccc']);
+    expect(wrapText(fixedWidth, 'averylongword x', 50)).toEqual([
+      'averylongword',
+      'x',
+    ]);
+  });
+
+  /** Falls back to light colors without theme variables */
+  it('falls back to default colors', () => {
+    expect(readThemeColors(document.createElement('div'))).toEqual({
+      background: '#ffffff',
+      foreground: '#09090b',
+      muted: '#71717a',
+    });
+  });
+});
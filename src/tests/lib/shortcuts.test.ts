@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatShortcut,
+  isEditableTarget,
+  isWidgetTarget,
+  matchesShortcut,
+} from '@/lib/shortcuts';
+
+/** A key event without modifiers. */
+const key = (k: string, modifiers: Partial<KeyboardEvent> = {}) => ({
+  key: k,
+  ctrlKey: false,
+  metaKey: false,
+  altKey: false,
+  ...modifiers,
+});
+
+/**
+ * Unit tests for the keyboard shortcut helpers.
+ */
+describe('shortcuts', () => {
+  /** Plain shortcuts ignore modifier combinations used by the browser */
+  it('matches plain shortcuts', () => {
+    expect(matchesShortcut(key('n'), 'n')).toBe(true);
+    expect(matchesShortcut(key('?', { shiftKey: true }), '?')).toBe(true);
+    expect(matchesShortcut(key('n', { ctrlKey: true }), 'n')).toBe(false);
+    expect(matchesShortcut(key('N'), 'n')).toBe(false);
+  });
+
+  /** `Mod+` accepts Ctrl or Cmd */
+  it('matches Mod shortcuts', () => {
+    expect(matchesShortcut(key('k', { ctrlKey: true }), 'Mod+k')).toBe(true);
+    expect(matchesShortcut(key('K', { metaKey: true }), 'Mod+k')).toBe(true);
+    expect(matchesShortcut(key('k'), 'Mod+k')).toBe(false);
+  });
+
+  /** Text fields are editable, checkboxes and buttons are not */
+  it('detects editable targets', () => {
+    const text = document.createElement('input');
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+
+    expect(isEditableTarget(text)).toBe(true);
+    expect(isEditableTarget(document.createElement('textarea'))).toBe(true);
+    expect(isEditableTarget(checkbox)).toBe(false);
+    expect(isEditableTarget(document.createElement('button'))).toBe(false);
+    expect(isEditableTarget(null)).toBe(false);
+  });
+
+  /** Detects comboboxes, listboxes and their options */
+  it('detects widgets with their own typeahead', () => {
+    const listbox = document.createElement('div');
+    listbox.setAttribute('role', 'listbox');
+    const option = listbox.appendChild(document.createElement('div'));
+    option.setAttribute('role', 'option');
+    const label = option.appendChild(document.createElement('span'));
+
+    expect(isWidgetTarget(label)).toBe(true);
+    expect(isWidgetTarget(listbox)).toBe(true);
+    expect(isWidgetTarget(document.createElement('button'))).toBe(false);
+    expect(isWidgetTarget(null)).toBe(false);
+  });
+
+  /** Shows Ctrl, or the Cmd symbol on macOS */
+  it('formats shortcuts', () => {
+    expect(formatShortcut('n', false)).toBe('N');
+    expect(formatShortcut('Mod+k', false)).toBe('Ctrl+K');
+    expect(formatShortcut('Mod+k', true)).toBe('⌘K');
+  });
+});
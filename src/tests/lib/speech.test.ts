@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { isSpeechSupported, wordAt } from '@/lib/speech';
+
+/**
+ * Unit tests for the speech helpers.
+ */
+describe('speech', () => {
+  /** jsdom has no speech synthesis */
+  it('detects missing speech synthesis', () => {
+    expect(isSpeechSupported()).toBe(false);
+  });
+
+  /** Uses the reported length, or runs up to the next whitespace */
+  it('finds the spoken word', () => {
+    const text = 'Chuck kicks twice.';
+    expect(wordAt(text, 6, 5)).toEqual({ start: 6, end: 11 });
+    expect(wordAt(text, 6)).toEqual({ start: 6, end: 11 });
+    expect(wordAt(text, 12)).toEqual({ start: 12, end: 18 });
+    expect(wordAt(text, 12, 50)).toEqual({ start: 12, end: 18 });
+  });
+
+  /** Ignores indexes outside the text */
+  it('ignores invalid indexes', () => {
+    expect(wordAt('Chuck', 5)).toBeNull();
+    expect(wordAt('Chuck', -1)).toBeNull();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { supersede } from '@/lib/api/supersede';
+
+/**
+ * Unit tests for {@link supersede}.
+ *
+ * Verifies that starting a request aborts the previous one on the same
+ * channel only, and that an outer signal is forwarded.
+ */
+describe('supersede', () => {
+  /** Aborts the previous request on the same channel */
+  it('aborts the superseded request', () => {
+    const first = supersede('test-channel');
+    const second = supersede('test-channel');
+
+    expect(first.aborted).toBe(true);
+    expect(second.aborted).toBe(false);
+  });
+
+  /** Leaves other channels untouched */
+  it('does not abort requests on other channels', () => {
+    const first = supersede('channel-a');
+    supersede('channel-b');
+
+    expect(first.aborted).toBe(false);
+  });
+
+  /** Forwards an abort of the outer signal */
+  it('follows the outer signal', () => {
+    const outer = new AbortController();
+    const signal = supersede('outer-channel', outer.signal);
+
+    outer.abort('cancelled');
+
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toBe('cancelled');
+  });
+});
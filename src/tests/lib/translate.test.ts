@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  categoryLabel,
+  categoryName,
+  detectLocale,
+  translate,
+} from '@/lib/i18n/translate';
+
+/**
+ * Unit tests for the translation helpers.
+ */
+describe('translate', () => {
+  /** Replaces the placeholders of a message */
+  it('interpolates parameters', () => {
+    expect(translate('en', 'categories.remove', { category: 'dev' })).toBe(
+      'Remove dev'
+    );
+    expect(translate('sk', 'home.favorites', { count: 3 })).toBe(
+      'Obľúbené (3)'
+    );
+  });
+
+  /** Leaves placeholders without a value untouched */
+  it('keeps unknown placeholders', () => {
+    expect(translate('en', 'categories.remove')).toBe('Remove {category}');
+  });
+
+  /** English has one and other, Slovak one, few and other */
+  it('picks the plural form', () => {
+    const summary = (locale: 'en' | 'sk', count: number) =>
+      translate(locale, 'search.summary', { count, query: 'kick' });
+
+    expect(summary('en', 1)).toBe('1 result for "kick"');
+    expect(summary('en', 3)).toBe('3 results for "kick"');
+    expect(summary('sk', 1)).toBe('1 výsledok pre „kick“');
+    expect(summary('sk', 3)).toBe('3 výsledky pre „kick“');
+    expect(summary('sk', 5)).toBe('5 výsledkov pre „kick“');
+    expect(summary('sk', 0)).toBe('0 výsledkov pre „kick“');
+  });
+
+  /** Uses the first supported language, ignoring regions */
+  it('detects the locale', () => {
+    expect(detectLocale(['de-DE', 'sk-SK', 'en'])).toBe('sk');
+    expect(detectLocale(['EN-gb'])).toBe('en');
+    expect(detectLocale(['de'])).toBe('en');
+    expect(detectLocale([])).toBe('en');
+  });
+
+  /** Translates known categories and keeps the others */
+  it('localizes category names', () => {
+    expect(categoryName('sk', 'food')).toBe('jedlo');
+    expect(categoryName('sk', 'unknown')).toBe('unknown');
+    expect(categoryName('en', 'food')).toBe('food');
+  });
+
+  /** Translates every category of a label once, with the selection it came from */
+  it('localizes category labels', () => {
+    expect(categoryLabel('sk', 'dev, food')).toBe('programovanie, jedlo');
+    expect(categoryLabel('sk', 'dev', ['dev', 'food'])).toBe(
+      'programovanie (vybrané z programovanie, jedlo)'
+    );
+    expect(categoryLabel('en', 'dev', ['dev', 'food'])).toBe(
+      'dev (picked from dev, food)'
+    );
+  });
+});
@@ -0,0 +1,18 @@
+import type { Joke } from '@/types/jokeTypes';
+
+/**
+ * Build a joke object shaped like an upstream API response.
+ *
+ * @param {Partial<Joke>} [overrides] - Fields to override on the default joke.
+ * @returns {Joke} A complete joke fixture.
+ */
+export const createJoke = (overrides: Partial<Joke> = {}): Joke => ({
+  id: 'abc123',
+  url: 'https://api.chucknorris.io/jokes/abc123',
+  icon_url: 'https://api.chucknorris.io/img/avatar/chuck-norris.png',
+  categories: [],
+  created_at: '2020-01-05 13:42:19.576875',
+  updated_at: '2020-01-05 13:42:19.576875',
+  value: 'Chuck Norris counted to infinity. Twice.',
+  ...overrides,
+});
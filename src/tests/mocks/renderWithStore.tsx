@@ -1,9 +1,19 @@
 import { Provider } from 'react-redux';
 import { configureStore } from '@reduxjs/toolkit';
-import jokesReducer from '../../store/slices/jokesSlice';
 import { render } from '@testing-library/react';
+import { rootReducer, type RootState } from '../../store';
 
-export const renderWithStore = (ui: React.ReactNode) => {
-  const store = configureStore({ reducer: { jokes: jokesReducer } });
-  return render(<Provider store={store}>{ui}</Provider>);
+/**
+ * Render a component inside a fresh Redux store.
+ *
+ * @param {React.ReactNode} ui - The element to render.
+ * @param {Partial<RootState>} [preloadedState] - Initial state for the store.
+ * @returns The render result together with the created store.
+ */
+export const renderWithStore = (
+  ui: React.ReactNode,
+  preloadedState?: Partial<RootState>
+) => {
+  const store = configureStore({ reducer: rootReducer, preloadedState });
+  return { store, ...render(<Provider store={store}>{ui}</Provider>) };
 };
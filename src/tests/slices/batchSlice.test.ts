@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import {
+  clearBatch,
+  fetchBatchItem,
+  fetchJokeBatch,
+} from '@/store/slices/batchSlice';
+import { rootReducer } from '@/store/index';
+import { BATCH_CONCURRENCY } from '@/lib/api/config';
+import { createJoke } from '../mocks/jokes';
+
+/**
+ * Replace `fetch` with a mock answering each call with the next response;
+ * the last one is repeated once the list runs out. A number answers with
+ * that HTTP status instead of a joke.
+ *
+ * @param {(string | number)[]} responses - Joke ids or error statuses, in order.
+ */
+const mockFetchJokes = (responses: (string | number)[]) => {
+  let call = 0;
+  let running = 0;
+  const stats = { peak: 0 };
+  const fetchMock = vi.fn(async () => {
+    const next = responses[Math.min(call++, responses.length - 1)];
+    running++;
+    stats.peak = Math.max(stats.peak, running);
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    running--;
+    return typeof next === 'number'
+      ? new Response('{}', { status: next })
+      : new Response(JSON.stringify(createJoke({ id: next })), {
+          status: 200,
+        });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return { fetchMock, stats };
+};
+
+/**
+ * Unit tests for the batchSlice Redux reducer and its thunks.
+ */
+describe('batchSlice', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  /** Loads every card with a limited number of requests in flight */
+  it('should fetch a batch concurrently', async () => {
+    const store = configureStore({ reducer: rootReducer });
+    const { stats } = mockFetchJokes(['a', 'b', 'c', 'd', 'e', 'f']);
+
+    await store.dispatch(fetchJokeBatch({ count: 6, category: null }));
+
+    const { items } = store.getState().batch;
+    expect(items.map((item) => item.joke?.id)).toEqual([
+      'a',
+      'b',
+      'c',
+      'd',
+      'e',
+      'f',
+    ]);
+    expect(stats.peak).toBe(BATCH_CONCURRENCY);
+  });
+
+  /** Re-fetches jokes that are already in the grid */
+  it('should not repeat jokes within a batch', async () => {
+    const store = configureStore({ reducer: rootReducer });
+    const arg = { index: 0, category: 'dev' };
+    store.dispatch(
+      fetchJokeBatch.pending('batch', { count: 2, category: 'dev' })
+    );
+    store.dispatch(fetchBatchItem.pending('req', arg));
+    store.dispatch(
+      fetchBatchItem.fulfilled(createJoke({ id: 'a' }), 'req', arg)
+    );
+    const { fetchMock } = mockFetchJokes(['a', 'b']);
+
+    await store.dispatch(fetchBatchItem({ index: 1, category: 'dev' }));
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(store.getState().batch.items[1].joke?.id).toBe('b');
+  });
+
+  /** Keeps the loaded cards when one fails, and retries it alone */
+  it('should report failures per card', async () => {
+    const store = configureStore({ reducer: rootReducer });
+    mockFetchJokes(['a', 404, 'c']);
+
+    await store.dispatch(fetchJokeBatch({ count: 3, category: null }));
+
+    const { items } = store.getState().batch;
+    expect(items.map((item) => item.status)).toEqual([
+      'succeeded',
+      'failed',
+      'succeeded',
+    ]);
+    expect(items[1].error).toMatchObject({ kind: 'http', status: 404 });
+
+    mockFetchJokes(['b']);
+    await store.dispatch(fetchBatchItem({ index: 1, category: null }));
+    expect(store.getState().batch.items[1]).toMatchObject({
+      status: 'succeeded',
+      joke: { id: 'b' },
+    });
+  });
+
+  /** Removes the grid */
+  it('should clear the batch', () => {
+    const store = configureStore({ reducer: rootReducer });
+    store.dispatch(
+      fetchJokeBatch.pending('req', { count: 3, category: 'dev' })
+    );
+    expect(store.getState().batch.items).toHaveLength(3);
+
+    store.dispatch(clearBatch());
+    expect(store.getState().batch).toEqual({ category: null, items: [] });
+  });
+});
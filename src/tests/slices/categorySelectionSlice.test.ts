@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import categorySelectionReducer, {
+  addCategory,
+  CATEGORY_SELECTION_STORAGE_KEY,
+  clearCategories,
+  fetchJokeFromSelection,
+  removeCategory,
+  selectPickedFrom,
+  setCategoryWeight,
+} from '@/store/slices/categorySelectionSlice';
+import jokesReducer, { fetchJokeByCategory } from '@/store/slices/jokesSlice';
+import { writeStorage } from '@/lib/storage';
+import type { CategorySelectionState } from '@/types/jokeTypes';
+import { createJoke } from '../mocks/jokes';
+
+/**
+ * Unit tests for the categorySelectionSlice Redux reducer, the weighted
+ * `fetchJokeFromSelection` thunk and the card's category label.
+ */
+describe('categorySelectionSlice', () => {
+  afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  /** Reduce a list of actions starting from the initial state */
+  const reduce = (
+    ...actions: Parameters<typeof categorySelectionReducer>[1][]
+  ) =>
+    actions.reduce(
+      (state: CategorySelectionState, action) =>
+        categorySelectionReducer(state, action),
+      categorySelectionReducer(undefined, { type: 'init' })
+    );
+
+  /** Adds each category once, with the default weight */
+  it('should add and remove categories', () => {
+    const state = reduce(
+      addCategory('dev'),
+      addCategory('food'),
+      addCategory('dev'),
+      removeCategory('food')
+    );
+    expect(state.selected).toEqual([{ name: 'dev', weight: 1 }]);
+    expect(reduce(addCategory('dev'), clearCategories()).selected).toEqual([]);
+  });
+
+  /** Keeps weights whole and in range */
+  it('should clamp weights', () => {
+    const state = reduce(
+      addCategory('dev'),
+      addCategory('food'),
+      setCategoryWeight({ name: 'dev', weight: 42 }),
+      setCategoryWeight({ name: 'food', weight: Number.NaN })
+    );
+    expect(state.selected).toEqual([
+      { name: 'dev', weight: 10 },
+      { name: 'food', weight: 1 },
+    ]);
+  });
+
+  /** Restores the saved selection, skipping malformed entries */
+  it('should restore the selection from local storage', () => {
+    writeStorage(CATEGORY_SELECTION_STORAGE_KEY, {
+      selected: [{ name: 'dev', weight: 4 }, { weight: 2 }, 'food'],
+    });
+
+    expect(reduce().selected).toEqual([{ name: 'dev', weight: 4 }]);
+  });
+
+  /** Draws from a selected category that exists */
+  it('should fetch from a weighted random selected category', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const dispatch = vi.fn();
+    const getState = () => ({
+      jokes: {
+        ...jokesReducer(undefined, { type: 'init' }),
+        categories: ['dev', 'food'],
+      },
+      noRepeat: { enabled: false, seenIds: [], requestId: null },
+      safeMode: { enabled: false, blockedCategories: [] },
+      jokeIndex: { ids: [], entities: {} },
+      ratings: { byId: {}, avoidLowRated: false },
+      categorySelection: {
+        selected: [
+          { name: 'gone', weight: 10 },
+          { name: 'dev', weight: 1 },
+          { name: 'food', weight: 3 },
+        ],
+      },
+    });
+
+    fetchJokeFromSelection()(dispatch, getState, undefined);
+
+    expect(dispatch).toHaveBeenCalledTimes(1);
+    expect(dispatch.mock.calls[0][0]).toBeTypeOf('function');
+    // 0.5 of a total weight of 4 falls into "food" (1..4)
+    const thunk = dispatch.mock.calls[0][0];
+    const inner = vi.fn();
+    thunk(inner, getState, undefined);
+    expect(inner.mock.calls[0][0].meta.arg).toBe('food');
+  });
+
+  /** Names the whole selection a joke was drawn from */
+  it('should select the categories a joke was picked from', () => {
+    const jokes = [
+      fetchJokeByCategory.pending('req-1', 'dev'),
+      fetchJokeByCategory.fulfilled(
+        { joke: createJoke(), category: 'dev' },
+        'req-1',
+        'dev'
+      ),
+    ].reduce(jokesReducer, jokesReducer(undefined, { type: 'init' }));
+
+    expect(
+      selectPickedFrom({
+        jokes,
+        categorySelection: reduce(addCategory('dev'), addCategory('food')),
+      })
+    ).toEqual(['dev', 'food']);
+    expect(
+      selectPickedFrom({
+        jokes,
+        categorySelection: reduce(addCategory('dev')),
+      })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import colorThemesReducer, {
+  applyTheme,
+  COLOR_THEMES_STORAGE_KEY,
+  deleteTheme,
+  importThemes,
+  saveTheme,
+  selectActiveTheme,
+} from '@/store/slices/colorThemesSlice';
+import { writeStorage } from '@/lib/storage';
+
+/** A valid theme. */
+const theme = {
+  name: 'Dusk',
+  accent: '#f97316',
+  background: '#1e1b4b',
+  card: '#312e81',
+};
+
+/**
+ * Unit tests for the colorThemesSlice Redux reducer.
+ */
+describe('colorThemesSlice', () => {
+  afterEach(() => localStorage.clear());
+
+  /** Saves new themes, updates existing ones and applies them */
+  it('should save, update and delete themes', () => {
+    let state = colorThemesReducer(undefined, saveTheme(theme));
+    const [saved] = state.saved;
+    expect(saved).toMatchObject(theme);
+    expect(state.activeId).toBe(saved.id);
+
+    state = colorThemesReducer(
+      state,
+      saveTheme({ ...theme, id: saved.id, accent: '#22c55e' })
+    );
+    expect(state.saved).toEqual([{ ...saved, accent: '#22c55e' }]);
+
+    state = colorThemesReducer(state, deleteTheme(saved.id));
+    expect(state).toEqual({ saved: [], activeId: null });
+  });
+
+  /** Presets can be applied without being saved */
+  it('should apply presets and the built-in colors', () => {
+    let state = colorThemesReducer(undefined, applyTheme('preset:ocean'));
+    expect(selectActiveTheme({ colorThemes: state })?.name).toBe('Ocean');
+
+    state = colorThemesReducer(state, applyTheme(null));
+    expect(selectActiveTheme({ colorThemes: state })).toBeNull();
+  });
+
+  /** Imported themes get fresh ids, even when imported twice */
+  it('should import themes', () => {
+    let state = colorThemesReducer(undefined, importThemes([theme]));
+    state = colorThemesReducer(state, importThemes([theme]));
+    expect(state.saved).toHaveLength(2);
+    expect(state.saved[0].id).not.toBe(state.saved[1].id);
+    expect(state.activeId).toBeNull();
+  });
+
+  /** Drops invalid saved themes and unknown active ids */
+  it('should load the saved themes', () => {
+    writeStorage(COLOR_THEMES_STORAGE_KEY, {
+      saved: [
+        { ...theme, id: 'a' },
+        { ...theme, id: 'b', card: 'blue' },
+        null,
+        'c',
+      ],
+      activeId: 'a',
+    });
+    expect(colorThemesReducer(undefined, { type: 'init' })).toEqual({
+      saved: [{ ...theme, id: 'a' }],
+      activeId: 'a',
+    });
+
+    writeStorage(COLOR_THEMES_STORAGE_KEY, { saved: [], activeId: 'b' });
+    expect(colorThemesReducer(undefined, { type: 'init' })).toEqual({
+      saved: [],
+      activeId: null,
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import favoritesReducer, {
+  FAVORITES_STORAGE_KEY,
+  removeFavorite,
+  selectFavorites,
+  selectIsFavorite,
+  toggleFavorite,
+} from '@/store/slices/favoritesSlice';
+import { readStorage, writeStorage } from '@/lib/storage';
+import { persistState } from '@/store/persistence';
+import { configureStore } from '@reduxjs/toolkit';
+import { createJoke } from '../mocks/jokes';
+
+/**
+ * Unit tests for the favoritesSlice Redux reducer.
+ *
+ * Verifies that favorites are toggled and removed by joke id, that the list
+ * is restored from local storage (skipping malformed entries) and written
+ * back by `persistState`.
+ */
+describe('favoritesSlice reducer', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  const first = createJoke({ id: 'first', value: 'First joke' });
+  const second = createJoke({ id: 'second', value: 'Second joke' });
+
+  /** Starts empty without saved favorites */
+  it('should start empty', () => {
+    const state = favoritesReducer(undefined, { type: 'init' });
+    expect(selectFavorites({ favorites: state })).toEqual([]);
+  });
+
+  /** Adds favorites most recently added first */
+  it('should add favorites on toggle', () => {
+    let state = favoritesReducer(undefined, toggleFavorite(first));
+    state = favoritesReducer(state, toggleFavorite(second));
+
+    expect(selectFavorites({ favorites: state })).toEqual([second, first]);
+    expect(selectIsFavorite({ favorites: state }, 'first')).toBe(true);
+  });
+
+  /** Toggling a favorite again removes it */
+  it('should remove a favorite on a second toggle', () => {
+    let state = favoritesReducer(undefined, toggleFavorite(first));
+    state = favoritesReducer(state, toggleFavorite(first));
+
+    expect(selectIsFavorite({ favorites: state }, 'first')).toBe(false);
+  });
+
+  /** Removes a favorite by id */
+  it('should remove a favorite by id', () => {
+    let state = favoritesReducer(undefined, toggleFavorite(first));
+    state = favoritesReducer(state, removeFavorite('first'));
+
+    expect(selectFavorites({ favorites: state })).toEqual([]);
+  });
+
+  /** Restores saved favorites and drops malformed entries */
+  it('should restore favorites from local storage', () => {
+    writeStorage(FAVORITES_STORAGE_KEY, [second, { id: 'broken' }, first]);
+
+    const state = favoritesReducer(undefined, { type: 'init' });
+
+    expect(selectFavorites({ favorites: state })).toEqual([second, first]);
+  });
+
+  /** Writes changes back to local storage */
+  it('should persist changes', () => {
+    const store = configureStore({
+      reducer: { favorites: favoritesReducer },
+    });
+    const unsubscribe = persistState(store, {
+      [FAVORITES_STORAGE_KEY]: selectFavorites,
+    });
+
+    store.dispatch(toggleFavorite(first));
+
+    expect(readStorage(FAVORITES_STORAGE_KEY)).toEqual([first]);
+    unsubscribe();
+  });
+});
@@ -0,0 +1,187 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import historyReducer, {
+  clearHistory,
+  goToHistoryEntry,
+  HISTORY_STORAGE_KEY,
+  selectCanGoBack,
+  selectCanGoForward,
+  selectPreviousEntry,
+  setHistoryLimit,
+} from '@/store/slices/historySlice';
+import {
+  fetchJokeByCategory,
+  fetchLuckyJoke,
+  fetchRandomJoke,
+} from '@/store/slices/jokesSlice';
+import { setSafeMode } from '@/store/slices/safeModeSlice';
+import { rootReducer } from '@/store/index';
+import { writeStorage } from '@/lib/storage';
+import type { HistoryState } from '@/types/jokeTypes';
+import { createJoke } from '../mocks/jokes';
+
+/**
+ * Unit tests for the historySlice Redux reducer.
+ *
+ * Verifies that fulfilled joke requests are recorded with their source,
+ * that the history is capped and behaves like browser history when stepping
+ * back, and that it is restored from local storage.
+ */
+describe('historySlice reducer', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  /** Build the `pending` and `fulfilled` actions of a random joke request */
+  const randomLoaded = (id: string, joke = createJoke({ id })) => [
+    fetchRandomJoke.pending(`req-${id}`),
+    fetchRandomJoke.fulfilled(joke, `req-${id}`),
+  ];
+
+  /** Reduce a list of actions starting from the initial state */
+  const reduce = (...actions: Parameters<typeof historyReducer>[1][]) =>
+    actions.reduce(
+      (state: HistoryState, action) => historyReducer(state, action),
+      historyReducer(undefined, { type: 'init' })
+    );
+
+  /** Records each joke source */
+  it('should record fulfilled joke requests with their source', () => {
+    const joke = createJoke();
+    const state = reduce(
+      fetchRandomJoke.pending('req-1'),
+      fetchRandomJoke.fulfilled(joke, 'req-1'),
+      fetchJokeByCategory.pending('req-2', 'dev'),
+      fetchJokeByCategory.fulfilled({ joke, category: 'dev' }, 'req-2', 'dev'),
+      fetchLuckyJoke.pending('req-3', 'kick'),
+      fetchLuckyJoke.fulfilled(joke, 'req-3', 'kick')
+    );
+
+    expect(state.entries.map((entry) => entry.source)).toEqual([
+      { type: 'random' },
+      { type: 'category', category: 'dev' },
+      { type: 'lucky', query: 'kick' },
+    ]);
+    expect(state.index).toBe(2);
+  });
+
+  /** Ignores the response of a request superseded by a newer one */
+  it('should ignore superseded requests', () => {
+    const state = reduce(
+      fetchRandomJoke.pending('old'),
+      fetchRandomJoke.pending('new'),
+      fetchRandomJoke.fulfilled(createJoke({ id: 'stale' }), 'old'),
+      fetchRandomJoke.fulfilled(createJoke({ id: 'fresh' }), 'new')
+    );
+
+    expect(state.entries.map((entry) => entry.joke.id)).toEqual(['fresh']);
+  });
+
+  /** Drops the oldest entries beyond the limit */
+  it('should cap the history to its limit', () => {
+    let state = reduce(setHistoryLimit(10));
+    for (let i = 0; i < 12; i++) {
+      state = randomLoaded(`id-${i}`).reduce(historyReducer, state);
+    }
+
+    expect(state.entries).toHaveLength(10);
+    expect(state.entries[0].joke.id).toBe('id-2');
+    expect(state.index).toBe(9);
+  });
+
+  /** Lowering the limit trims the history and keeps the position valid */
+  it('should trim the history when the limit shrinks', () => {
+    let state = reduce();
+    for (let i = 0; i < 25; i++) {
+      state = randomLoaded(`id-${i}`).reduce(historyReducer, state);
+    }
+    state = historyReducer(state, setHistoryLimit(10));
+
+    expect(state.entries).toHaveLength(10);
+    expect(state.index).toBe(9);
+  });
+
+  /** Steps back and forward and shows the joke again */
+  it('should move through the history', () => {
+    const store = configureStore({ reducer: rootReducer });
+    for (const action of [
+      ...randomLoaded('first'),
+      ...randomLoaded('second'),
+    ]) {
+      store.dispatch(action);
+    }
+
+    store.dispatch(goToHistoryEntry(0));
+
+    expect(store.getState().jokes.joke?.id).toBe('first');
+    expect(selectCanGoBack(store.getState())).toBe(false);
+    expect(selectCanGoForward(store.getState())).toBe(true);
+  });
+
+  /** Skips the jokes hidden by safe mode when stepping back */
+  it('should skip hidden entries', () => {
+    const store = configureStore({ reducer: rootReducer });
+    for (const action of [
+      ...randomLoaded('first'),
+      ...randomLoaded('rude', createJoke({ categories: ['explicit'] })),
+      ...randomLoaded('last'),
+    ]) {
+      store.dispatch(action);
+    }
+    expect(selectPreviousEntry(store.getState())).toBe(1);
+
+    store.dispatch(setSafeMode(true));
+
+    expect(selectPreviousEntry(store.getState())).toBe(0);
+  });
+
+  /** A new joke after stepping back discards the newer entries */
+  it('should discard forward entries when a new joke is shown', () => {
+    const store = configureStore({ reducer: rootReducer });
+    for (const action of [
+      ...randomLoaded('first'),
+      ...randomLoaded('second'),
+    ]) {
+      store.dispatch(action);
+    }
+    store.dispatch(goToHistoryEntry(0));
+    for (const action of randomLoaded('third')) store.dispatch(action);
+
+    const { entries } = store.getState().history;
+    expect(entries.map((entry) => entry.joke.id)).toEqual(['first', 'third']);
+  });
+
+  /** Clears entries but keeps the limit */
+  it('should clear the history', () => {
+    const state = reduce(
+      setHistoryLimit(25),
+      ...randomLoaded('first'),
+      clearHistory()
+    );
+
+    expect(state).toMatchObject({ entries: [], index: -1, limit: 25 });
+  });
+
+  /** Restores the saved history and drops malformed entries */
+  it('should restore the history from local storage', () => {
+    const entry = {
+      joke: createJoke(),
+      source: { type: 'random' },
+      shownAt: 1,
+    };
+    writeStorage(HISTORY_STORAGE_KEY, {
+      entries: [entry, { ...entry, source: { type: 'bogus' } }],
+      index: 1,
+      limit: 10,
+    });
+
+    const state = historyReducer(undefined, { type: 'init' });
+
+    expect(state).toEqual({
+      entries: [entry],
+      index: 0,
+      limit: 10,
+      requestId: null,
+    });
+  });
+});
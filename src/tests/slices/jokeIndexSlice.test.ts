@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import jokeIndexReducer, {
+  clearJokeIndex,
+  JOKE_INDEX_LIMIT,
+  JOKE_INDEX_STORAGE_KEY,
+  selectIndexedJokes,
+} from '@/store/slices/jokeIndexSlice';
+import {
+  fetchRandomJoke,
+  searchJokes,
+  setSearchSource,
+} from '@/store/slices/jokesSlice';
+import { rootReducer } from '@/store/index';
+import { writeStorage } from '@/lib/storage';
+import { createJoke } from '../mocks/jokes';
+
+/**
+ * Unit tests for the jokeIndexSlice Redux reducer and local searches.
+ */
+describe('jokeIndexSlice', () => {
+  afterEach(() => {
+    localStorage.clear();
+    vi.unstubAllGlobals();
+  });
+
+  /** Indexes received jokes newest first, without duplicates, up to the limit */
+  it('should index received jokes', () => {
+    let state = jokeIndexReducer(undefined, { type: 'init' });
+    const jokes = Array.from({ length: JOKE_INDEX_LIMIT }, (_, i) =>
+      createJoke({ id: `j${i}` })
+    );
+    state = jokeIndexReducer(
+      state,
+      searchJokes.fulfilled(
+        { query: 'chuck', total: jokes.length, result: jokes },
+        'req',
+        'chuck'
+      )
+    );
+    state = jokeIndexReducer(
+      state,
+      fetchRandomJoke.fulfilled(createJoke({ id: 'new' }), 'req')
+    );
+    state = jokeIndexReducer(
+      state,
+      fetchRandomJoke.fulfilled(createJoke({ id: 'j5' }), 'req')
+    );
+
+    expect(state.ids).toHaveLength(JOKE_INDEX_LIMIT);
+    expect(state.ids.slice(0, 3)).toEqual(['j5', 'new', 'j0']);
+    expect(state.entities[`j${JOKE_INDEX_LIMIT - 1}`]).toBeUndefined();
+
+    state = jokeIndexReducer(state, clearJokeIndex());
+    expect(state.ids).toEqual([]);
+  });
+
+  /** Restores valid jokes saved by a previous session */
+  it('should load the saved index', () => {
+    writeStorage(JOKE_INDEX_STORAGE_KEY, [createJoke({ id: 'x' }), { id: 1 }]);
+    const state = jokeIndexReducer(undefined, { type: 'init' });
+
+    expect(selectIndexedJokes({ jokeIndex: state }).map((j) => j.id)).toEqual([
+      'x',
+    ]);
+  });
+
+  /** Searches the index without a request when the source is local */
+  it('should search indexed jokes offline', async () => {
+    const fetchMock = vi.fn(async () => {
+      throw new TypeError('Failed to fetch');
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const store = configureStore({ reducer: rootReducer });
+    store.dispatch(
+      fetchRandomJoke.fulfilled(
+        createJoke({ id: 'a', value: 'Chuck kicks a roundhouse.' }),
+        'req'
+      )
+    );
+    store.dispatch(
+      fetchRandomJoke.fulfilled(
+        createJoke({ id: 'b', value: 'Chuck counted to infinity.' }),
+        'req'
+      )
+    );
+
+    store.dispatch(setSearchSource('local'));
+    await store.dispatch(searchJokes('rondhouse'));
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    const { searchQuery, searchResults, searchTotal } = store.getState().jokes;
+    expect(searchQuery).toBe('rondhouse');
+    expect(searchResults.map((joke) => joke.id)).toEqual(['a']);
+    expect(searchTotal).toBe(1);
+
+    await store.dispatch(searchJokes('beard'));
+    expect(store.getState().jokes.requests.search.error?.kind).toBe(
+      'empty-search'
+    );
+  });
+});
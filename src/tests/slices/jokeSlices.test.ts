@@ -1,35 +1,94 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import { rootReducer } from '@/store/index';
 import jokesReducer, {
   fetchCategories,
   fetchJokeByCategory,
   fetchRandomJoke,
+  fetchLuckyJoke,
+  fetchJokeById,
+  cancelSearch,
+  retryLastRequest,
+  retryScheduled,
   searchJokes,
+  selectCategoriesRequest,
+  selectJokeRequest,
+  selectSortedSearchResults,
+  setSearchSort,
+  showJoke,
 } from '@/store/slices/jokesSlice';
+import type { JokesState, OperationState } from '@/types/jokeTypes';
+import { createJoke } from '../mocks/jokes';
 
 /**
  * Unit tests for the jokesSlice Redux reducer.
  *
  * These tests verify that the reducer handles all joke-related async thunks
- * (`fetchRandomJoke`, `fetchCategories`, `fetchJokeByCategory`, `searchJokes`)
+ * (`fetchRandomJoke`, `fetchCategories`, `fetchJokeByCategory`, `searchJokes`,
+ * `fetchLuckyJoke`, `fetchJokeById`)
  * correctly in their pending, fulfilled, and rejected states.
  *
  * The reducer manages state properties such as:
- * - `value`: current joke string or null
+ * - `joke`: current joke object or null
  * - `category`: current category or null
  * - `categories`: available joke categories
- * - `error`: error message or null
- * - `loading`: loading state for async actions
+ * - `requests`: status, typed error, retry progress and timestamps of the
+ *   `categories`, `joke` and `search` operations; stale results are ignored
  * - `hasSearched`: flag indicating if a joke fetch/search has been attempted
+ * - `lastRequests`: the intent to repeat per operation
+ * - `searchQuery` / `searchResults` / `searchTotal` / `searchSort`: results mode
  */
 describe('jokesSlice reducer', () => {
+  /** Status of an operation that has not run yet */
+  const idleOperation: OperationState = {
+    status: 'idle',
+    requestId: null,
+    error: null,
+    retry: null,
+    startedAt: null,
+    finishedAt: null,
+  };
+
   /** Initial state used for most tests */
-  const initialState = {
-    value: null,
+  const initialState: JokesState = {
+    joke: null,
     category: null,
+    jokeQuery: null,
     categories: [],
-    error: null,
-    loading: false,
+    requests: {
+      categories: idleOperation,
+      joke: idleOperation,
+      search: idleOperation,
+    },
     hasSearched: false,
+    lastRequests: { joke: null, search: null },
+    searchQuery: null,
+    searchResults: [],
+    searchTotal: 0,
+    searchSort: 'relevance',
+    searchSource: 'remote',
+    searchLive: false,
+  };
+
+  /** Metadata of the request used by the thunk tests */
+  const meta = { requestId: 'req-1' };
+
+  /** Status of an operation whose request in `meta` has started */
+  const pendingOperation: OperationState = {
+    ...idleOperation,
+    status: 'pending',
+    requestId: meta.requestId,
+    startedAt: 1,
+  };
+
+  /** State after the request in `meta` has started on every operation */
+  const pendingState: JokesState = {
+    ...initialState,
+    requests: {
+      categories: pendingOperation,
+      joke: pendingOperation,
+      search: pendingOperation,
+    },
   };
 
   /** Ensures reducer returns the initial state for unknown actions */
@@ -41,61 +100,242 @@ describe('jokesSlice reducer', () => {
   it('should handle fetchRandomJoke.pending', () => {
     const state = jokesReducer(initialState, {
       type: fetchRandomJoke.pending.type,
+      meta,
     });
-    expect(state.loading).toBe(true);
-    expect(state.error).toBeNull();
+    expect(state.requests.joke.status).toBe('pending');
+    expect(state.requests.joke.error).toBeNull();
   });
 
   /** Tests the fulfilled state of fetchRandomJoke */
   it('should handle fetchRandomJoke.fulfilled', () => {
-    const state = jokesReducer(initialState, {
+    const state = jokesReducer(pendingState, {
       type: fetchRandomJoke.fulfilled.type,
-      payload: 'Funny joke',
+      meta,
+      payload: createJoke({ value: 'Funny joke' }),
     });
-    expect(state.value).toBe('Funny joke');
-    expect(state.loading).toBe(false);
+    expect(state.joke?.value).toBe('Funny joke');
+    expect(state.requests.joke.status).toBe('succeeded');
     expect(state.hasSearched).toBe(true);
   });
 
+  /** Tests that a superseded request cannot overwrite the latest intent */
+  it('should ignore results of superseded requests', () => {
+    let state = jokesReducer(
+      initialState,
+      fetchJokeByCategory.pending('req-1', 'animal')
+    );
+    state = jokesReducer(state, fetchLuckyJoke.pending('req-2', 'chuck'));
+
+    state = jokesReducer(
+      state,
+      fetchJokeByCategory.fulfilled(
+        { joke: createJoke({ value: 'Stale joke' }), category: 'animal' },
+        'req-1',
+        'animal'
+      )
+    );
+    expect(state.joke).toBeNull();
+    expect(state.category).toBeNull();
+    expect(state.requests.joke.status).toBe('pending');
+
+    state = jokesReducer(
+      state,
+      fetchJokeByCategory.rejected(null, 'req-1', 'animal')
+    );
+    expect(state.requests.joke.error).toBeNull();
+    expect(state.requests.joke.status).toBe('pending');
+
+    state = jokesReducer(
+      state,
+      fetchLuckyJoke.fulfilled(
+        createJoke({ value: 'Lucky joke' }),
+        'req-2',
+        'chuck'
+      )
+    );
+    expect(state.joke?.value).toBe('Lucky joke');
+    expect(state.requests.joke.status).toBe('succeeded');
+    expect(state.requests.joke.requestId).toBe('req-2');
+  });
+
+  /** Tests that operations keep independent statuses */
+  it('should track each operation separately', () => {
+    let state = jokesReducer(initialState, fetchRandomJoke.pending('req-1'));
+    state = jokesReducer(state, fetchCategories.pending('req-2'));
+    state = jokesReducer(
+      state,
+      fetchCategories.rejected(null, 'req-2', undefined, {
+        kind: 'network',
+        message: 'Failed to fetch',
+      })
+    );
+
+    expect(state.requests.categories.status).toBe('failed');
+    expect(state.requests.categories.error?.kind).toBe('network');
+    expect(state.requests.categories.finishedAt).toBeTypeOf('number');
+    expect(state.requests.joke.status).toBe('pending');
+    expect(state.requests.joke.error).toBeNull();
+    expect(state.requests.search.status).toBe('idle');
+    expect(selectJokeRequest({ jokes: state })).toBe(state.requests.joke);
+    expect(selectCategoriesRequest({ jokes: state })).toBe(
+      state.requests.categories
+    );
+  });
+
+  /** Tests that the retry progress is tracked until the request settles */
+  it('should track retryScheduled until the request settles', () => {
+    let state = jokesReducer(
+      initialState,
+      fetchJokeByCategory.pending('req-1', 'animal')
+    );
+    expect(state.lastRequests.joke).toEqual({
+      type: 'category',
+      category: 'animal',
+    });
+
+    state = jokesReducer(
+      state,
+      retryScheduled({ requestId: 'req-1', attempt: 2, maxAttempts: 3 })
+    );
+    expect(state.requests.joke.retry).toEqual({
+      requestId: 'req-1',
+      attempt: 2,
+      maxAttempts: 3,
+    });
+    expect(state.requests.categories.retry).toBeNull();
+
+    state = jokesReducer(
+      state,
+      fetchJokeByCategory.rejected(null, 'req-1', 'animal', {
+        kind: 'http',
+        message: 'Request to /random?category=animal failed with status 503',
+        status: 503,
+      })
+    );
+    expect(state.requests.joke.retry).toBeNull();
+    expect(state.requests.joke.error?.kind).toBe('http');
+    expect(state.requests.joke.error?.status).toBe(503);
+  });
+
+  /** Tests that retryLastRequest repeats the latest intent */
+  it('should repeat the last request with retryLastRequest', () => {
+    const dispatch = vi.fn();
+    const getState = () => ({
+      jokes: {
+        ...initialState,
+        lastRequests: {
+          joke: null,
+          search: { type: 'search', query: 'chuck' } as const,
+        },
+      },
+      noRepeat: { enabled: false, seenIds: [], requestId: null },
+      safeMode: { enabled: false, blockedCategories: [] },
+      jokeIndex: { ids: [], entities: {} },
+      ratings: { byId: {}, avoidLowRated: false },
+    });
+
+    retryLastRequest('joke')(dispatch, getState, undefined);
+    expect(dispatch).not.toHaveBeenCalled();
+
+    retryLastRequest('search')(dispatch, getState, undefined);
+    const requestJokeThunk = dispatch.mock.calls[0][0];
+    requestJokeThunk(dispatch, getState, undefined);
+
+    expect(dispatch).toHaveBeenCalledTimes(2);
+    expect(dispatch.mock.calls[1][0]).toBeTypeOf('function');
+  });
+
+  /** Tests that unknown categories are rejected without a request */
+  it('should reject fetchJokeByCategory for an unknown category', async () => {
+    const dispatch = vi.fn();
+    const getState = () => ({
+      jokes: { ...initialState, categories: ['animal', 'career'] },
+      noRepeat: { enabled: false, seenIds: [], requestId: null },
+      safeMode: { enabled: false, blockedCategories: [] },
+      jokeIndex: { ids: [], entities: {} },
+      ratings: { byId: {}, avoidLowRated: false },
+    });
+
+    const action = await fetchJokeByCategory('nope')(
+      dispatch,
+      getState,
+      undefined
+    );
+
+    expect(action.payload).toEqual({
+      kind: 'invalid-category',
+      message: 'Unknown category "nope"',
+      category: 'nope',
+    });
+  });
+
   /** Tests the fulfilled state of fetchCategories */
   it('should handle fetchCategories.fulfilled', () => {
-    const state = jokesReducer(initialState, {
+    const state = jokesReducer(pendingState, {
       type: fetchCategories.fulfilled.type,
+      meta,
       payload: ['animal', 'career'],
     });
     expect(state.categories).toEqual(['animal', 'career']);
-    expect(state.loading).toBe(false);
+    expect(state.requests.categories.status).toBe('succeeded');
+  });
+
+  /** Tests that a validation error message from the API client is stored */
+  it('should handle fetchRandomJoke.rejected with an invalid response', () => {
+    const state = jokesReducer(pendingState, {
+      type: fetchRandomJoke.rejected.type,
+      meta,
+      payload: {
+        kind: 'invalid-payload',
+        message: 'Invalid response from /random: joke.value must be a string',
+      },
+    });
+    expect(state.requests.joke.error).toEqual({
+      kind: 'invalid-payload',
+      message: 'Invalid response from /random: joke.value must be a string',
+    });
+    expect(state.joke).toBeNull();
+    expect(state.requests.joke.status).toBe('failed');
   });
 
   /** Tests the pending state of fetchJokeByCategory */
   it('should handle fetchJokeByCategory.pending', () => {
     const state = jokesReducer(initialState, {
       type: fetchJokeByCategory.pending.type,
+      meta,
     });
-    expect(state.loading).toBe(true);
-    expect(state.error).toBeNull();
+    expect(state.requests.joke.status).toBe('pending');
+    expect(state.requests.joke.error).toBeNull();
   });
 
   /** Tests the fulfilled state of fetchJokeByCategory */
   it('should handle fetchJokeByCategory.fulfilled', () => {
-    const state = jokesReducer(initialState, {
+    const state = jokesReducer(pendingState, {
       type: fetchJokeByCategory.fulfilled.type,
-      payload: { joke: 'Category joke', category: 'animal' },
+      meta,
+      payload: {
+        joke: createJoke({ value: 'Category joke', categories: ['animal'] }),
+        category: 'animal',
+      },
     });
-    expect(state.value).toBe('Category joke');
+    expect(state.joke?.value).toBe('Category joke');
     expect(state.category).toBe('animal');
-    expect(state.loading).toBe(false);
+    expect(state.requests.joke.status).toBe('succeeded');
     expect(state.hasSearched).toBe(true);
   });
 
   /** Tests the rejected state of fetchJokeByCategory */
   it('should handle fetchJokeByCategory.rejected', () => {
-    const state = jokesReducer(initialState, {
+    const state = jokesReducer(pendingState, {
       type: fetchJokeByCategory.rejected.type,
+      meta,
+    });
+    expect(state.requests.joke.error).toEqual({
+      kind: 'unknown',
+      message: 'Failed to fetch joke',
     });
-    expect(state.error).toBe('Failed to fetch joke');
-    expect(state.value).toBeNull();
-    expect(state.loading).toBe(false);
+    expect(state.joke).toBeNull();
+    expect(state.requests.joke.status).toBe('failed');
     expect(state.hasSearched).toBe(true);
   });
 
@@ -103,44 +343,212 @@ describe('jokesSlice reducer', () => {
   it('should handle searchJokes.pending', () => {
     const state = jokesReducer(initialState, {
       type: searchJokes.pending.type,
+      meta,
     });
-    expect(state.loading).toBe(true);
-    expect(state.error).toBeNull();
+    expect(state.requests.search.status).toBe('pending');
+    expect(state.requests.search.error).toBeNull();
   });
 
-  /** Tests the fulfilled state of searchJokes */
+  /** Tests that searchJokes.fulfilled keeps the whole result set */
   it('should handle searchJokes.fulfilled', () => {
-    const state = jokesReducer(initialState, {
+    const result = [
+      createJoke({ id: '1', value: 'Found a matching joke' }),
+      createJoke({ id: '2', value: 'Another match' }),
+    ];
+    const state = jokesReducer(pendingState, {
       type: searchJokes.fulfilled.type,
-      payload: 'Found a matching joke',
+      meta,
+      payload: { query: 'match', total: 2, result },
     });
-    expect(state.value).toBe('Found a matching joke');
+    expect(state.searchQuery).toBe('match');
+    expect(state.searchResults).toEqual(result);
+    expect(state.searchTotal).toBe(2);
+    expect(state.requests.search.status).toBe('succeeded');
+    expect(state.hasSearched).toBe(true);
+  });
+
+  /** Tests that selectSortedSearchResults applies the chosen sort */
+  it('should sort search results with selectSortedSearchResults', () => {
+    const result = [
+      createJoke({ id: '1', value: 'bbb', updated_at: '2020-01-05 13:42:19' }),
+      createJoke({ id: '2', value: 'a', updated_at: '2021-03-01 08:00:00' }),
+      createJoke({ id: '3', value: 'cc', updated_at: '2019-07-12 10:15:00' }),
+    ];
+    let state = jokesReducer(pendingState, {
+      type: searchJokes.fulfilled.type,
+      meta,
+      payload: { query: 'x', total: 3, result },
+    });
+    const ids = () =>
+      selectSortedSearchResults({
+        jokes: state,
+        safeMode: { enabled: false, blockedCategories: [] },
+      }).map((joke) => joke.id);
+
+    expect(ids()).toEqual(['1', '2', '3']);
+    state = jokesReducer(state, setSearchSort('length'));
+    expect(ids()).toEqual(['2', '3', '1']);
+    state = jokesReducer(state, setSearchSort('newest'));
+    expect(ids()).toEqual(['2', '1', '3']);
+    state = jokesReducer(state, setSearchSort('alphabetical'));
+    expect(ids()).toEqual(['2', '1', '3']);
+  });
+
+  /** Tests that fetchLuckyJoke.fulfilled shows the picked joke and keeps its query */
+  it('should handle fetchLuckyJoke.fulfilled', () => {
+    let state = jokesReducer(pendingState, {
+      type: fetchLuckyJoke.fulfilled.type,
+      meta: { ...meta, arg: 'matching' },
+      payload: createJoke({ value: 'Found a matching joke' }),
+    });
+    expect(state.joke?.value).toBe('Found a matching joke');
     expect(state.category).toBeNull();
-    expect(state.loading).toBe(false);
+    expect(state.jokeQuery).toBe('matching');
+    expect(state.requests.joke.status).toBe('succeeded');
     expect(state.hasSearched).toBe(true);
+
+    state = jokesReducer(state, fetchRandomJoke.pending('req-2'));
+    state = jokesReducer(
+      state,
+      fetchRandomJoke.fulfilled(createJoke(), 'req-2')
+    );
+    expect(state.jokeQuery).toBeNull();
+  });
+
+  /** Tests that fetchJokeById records its intent and shows the joke */
+  it('should handle fetchJokeById', () => {
+    let state = jokesReducer(
+      initialState,
+      fetchJokeById.pending('req-1', 'x1')
+    );
+    expect(state.lastRequests.joke).toEqual({ type: 'id', id: 'x1' });
+
+    state = jokesReducer(
+      state,
+      fetchJokeById.fulfilled(
+        createJoke({ id: 'x1', categories: ['dev', 'food'] }),
+        'req-1',
+        'x1'
+      )
+    );
+    expect(state.joke?.id).toBe('x1');
+    expect(state.category).toBe('dev, food');
+    expect(state.requests.joke.status).toBe('succeeded');
+  });
+
+  /** Tests that an unknown id is reported as not-found */
+  it('should reject fetchJokeById with not-found on a 404', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('{}', { status: 404 }))
+    );
+
+    const getState = () => ({
+      jokes: initialState,
+      noRepeat: { enabled: false, seenIds: [], requestId: null },
+      safeMode: { enabled: false, blockedCategories: [] },
+      jokeIndex: { ids: [], entities: {} },
+      ratings: { byId: {}, avoidLowRated: false },
+    });
+
+    const action = await fetchJokeById('nope')(vi.fn(), getState, undefined);
+
+    expect(action.payload).toEqual({
+      kind: 'not-found',
+      message: 'No joke with id "nope"',
+      id: 'nope',
+    });
+    vi.unstubAllGlobals();
+  });
+
+  /** Tests that a cancelled search is dropped without an error */
+  it('should cancel a pending search', async () => {
+    let requestSignal: AbortSignal | undefined;
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        (_: string, init: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            requestSignal = init.signal ?? undefined;
+            requestSignal?.addEventListener('abort', () =>
+              reject(new DOMException('Aborted', 'AbortError'))
+            );
+          })
+      )
+    );
+    const store = configureStore({ reducer: rootReducer });
+
+    const search = store.dispatch(searchJokes('chuck'));
+    expect(store.getState().jokes.requests.search.status).toBe('pending');
+    store.dispatch(cancelSearch());
+    await search;
+
+    expect(requestSignal?.aborted).toBe(true);
+    expect(store.getState().jokes.requests.search).toEqual(idleOperation);
+    vi.unstubAllGlobals();
+  });
+
+  /** Tests that showing a favorite drops the joke request in flight */
+  it('should abort the joke request when a known joke is shown', async () => {
+    let requestSignal: AbortSignal | undefined;
+    let respond: (response: Response) => void = () => {};
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        (_: string, init: RequestInit) =>
+          new Promise<Response>((resolve) => {
+            requestSignal = init.signal ?? undefined;
+            respond = resolve;
+          })
+      )
+    );
+    const store = configureStore({ reducer: rootReducer });
+
+    const load = store.dispatch(fetchRandomJoke());
+    store.dispatch(showJoke(createJoke({ id: 'favorite' })));
+    respond(new Response(JSON.stringify(createJoke({ id: 'late' }))));
+    await load;
+
+    const state = store.getState();
+    expect(requestSignal?.aborted).toBe(true);
+    expect(state.jokes.joke?.id).toBe('favorite');
+    expect(state.history.entries).toEqual([]);
+    expect(state.noRepeat.seenIds).toEqual([]);
+    vi.unstubAllGlobals();
   });
 
   /** Tests the rejected state of searchJokes with a custom payload */
   it('should handle searchJokes.rejected with custom payload', () => {
-    const state = jokesReducer(initialState, {
+    const state = jokesReducer(pendingState, {
       type: searchJokes.rejected.type,
-      payload: 'No joke found for this query',
+      meta,
+      payload: {
+        kind: 'empty-search',
+        message: 'No joke found for this query',
+        query: 'xyz',
+      },
     });
-    expect(state.error).toBe('No joke found for this query');
-    expect(state.value).toBeNull();
-    expect(state.loading).toBe(false);
+    expect(state.requests.search.error?.kind).toBe('empty-search');
+    expect(state.requests.search.error?.message).toBe(
+      'No joke found for this query'
+    );
+    expect(state.requests.search.error?.query).toBe('xyz');
+    expect(state.joke).toBeNull();
+    expect(state.requests.search.status).toBe('failed');
     expect(state.hasSearched).toBe(true);
   });
 
   /** Tests the rejected state of searchJokes without a custom payload (fallback error) */
   it('should handle searchJokes.rejected without payload', () => {
-    const state = jokesReducer(initialState, {
+    const state = jokesReducer(pendingState, {
       type: searchJokes.rejected.type,
+      meta,
       error: { message: 'Network error' },
     });
-    expect(state.error).toBe('Failed to fetch joke'); // fallback from slice
-    expect(state.value).toBeNull();
-    expect(state.loading).toBe(false);
+    expect(state.requests.search.error?.message).toBe('Failed to fetch joke'); // fallback from slice
+    expect(state.requests.search.error?.kind).toBe('unknown');
+    expect(state.joke).toBeNull();
+    expect(state.requests.search.status).toBe('failed');
     expect(state.hasSearched).toBe(true);
   });
 });
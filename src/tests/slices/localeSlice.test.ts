@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import localeReducer, {
+  LOCALE_STORAGE_KEY,
+  setLocale,
+} from '@/store/slices/localeSlice';
+import { writeStorage } from '@/lib/storage';
+
+/**
+ * Unit tests for the localeSlice Redux reducer.
+ */
+describe('localeSlice', () => {
+  afterEach(() => {
+    localStorage.clear();
+    vi.unstubAllGlobals();
+  });
+
+  /** Detects the browser language and switches it */
+  it('should detect and switch the locale', () => {
+    vi.stubGlobal('navigator', { languages: ['sk-SK', 'en-US'] });
+    let state = localeReducer(undefined, { type: 'init' });
+    expect(state).toEqual({ locale: 'sk' });
+
+    state = localeReducer(state, setLocale('en'));
+    expect(state).toEqual({ locale: 'en' });
+  });
+
+  /** Prefers the saved locale, and ignores unsupported ones */
+  it('should load the saved locale', () => {
+    vi.stubGlobal('navigator', { languages: ['en-US'] });
+    writeStorage(LOCALE_STORAGE_KEY, { locale: 'sk' });
+    expect(localeReducer(undefined, { type: 'init' })).toEqual({
+      locale: 'sk',
+    });
+
+    writeStorage(LOCALE_STORAGE_KEY, { locale: 'xx' });
+    expect(localeReducer(undefined, { type: 'init' })).toEqual({
+      locale: 'en',
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import noRepeatReducer, {
+  resetSeenJokes,
+  setNoRepeat,
+  SEEN_IDS_LIMIT,
+} from '@/store/slices/noRepeatSlice';
+import {
+  fetchJokeByCategory,
+  fetchRandomJoke,
+} from '@/store/slices/jokesSlice';
+import { rootReducer } from '@/store/index';
+import { FILTER_MAX_FETCHES } from '@/lib/api/config';
+import { createJoke } from '../mocks/jokes';
+
+/**
+ * Replace `fetch` with a mock answering each call with the next joke id;
+ * the last id is repeated once the list runs out.
+ *
+ * @param {string[]} ids - Ids of the jokes returned, in order.
+ */
+const mockFetchJokes = (ids: string[]) => {
+  let call = 0;
+  const fetchMock = vi.fn(async () => {
+    const id = ids[Math.min(call++, ids.length - 1)];
+    return new Response(JSON.stringify(createJoke({ id })), { status: 200 });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+/**
+ * Build the `pending` and `fulfilled` actions of a random joke request.
+ *
+ * @param {string} id - Id of the joke received.
+ */
+const randomLoaded = (id: string) => [
+  fetchRandomJoke.pending(`req-${id}`),
+  fetchRandomJoke.fulfilled(createJoke({ id }), `req-${id}`),
+];
+
+/**
+ * Unit tests for the noRepeatSlice Redux reducer and the no-repeat behavior
+ * of `fetchRandomJoke` / `fetchJokeByCategory`.
+ */
+describe('noRepeatSlice', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  /** Remembers shown jokes once and caps the list */
+  it('should remember seen jokes', () => {
+    let state = noRepeatReducer(undefined, { type: 'init' });
+    for (let i = 0; i <= SEEN_IDS_LIMIT; i++) {
+      state = randomLoaded(`id-${i}`).reduce(noRepeatReducer, state);
+    }
+    state = randomLoaded('id-1').reduce(noRepeatReducer, state);
+
+    expect(state.seenIds).toHaveLength(SEEN_IDS_LIMIT);
+    expect(state.seenIds[0]).toBe('id-1');
+  });
+
+  /** Toggles the mode and forgets seen jokes */
+  it('should toggle the mode and reset seen jokes', () => {
+    let state = noRepeatReducer(undefined, setNoRepeat(true));
+    state = randomLoaded('a').reduce(noRepeatReducer, state);
+    state = noRepeatReducer(state, resetSeenJokes());
+
+    expect(state).toMatchObject({ enabled: true, seenIds: [] });
+  });
+
+  /** Re-fetches until an unseen joke comes back */
+  it('should skip seen jokes when enabled', async () => {
+    const store = configureStore({ reducer: rootReducer });
+    store.dispatch(setNoRepeat(true));
+    for (const action of randomLoaded('a')) store.dispatch(action);
+    const fetchMock = mockFetchJokes(['a', 'a', 'b']);
+
+    await store.dispatch(fetchRandomJoke());
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(store.getState().jokes.joke?.id).toBe('b');
+  });
+
+  /** Returns duplicates as usual when disabled */
+  it('should accept seen jokes when disabled', async () => {
+    const store = configureStore({ reducer: rootReducer });
+    for (const action of randomLoaded('a')) store.dispatch(action);
+    const fetchMock = mockFetchJokes(['a']);
+
+    await store.dispatch(fetchRandomJoke());
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(store.getState().jokes.joke?.id).toBe('a');
+  });
+
+  /** Reports an exhausted category after a bounded number of fetches */
+  it('should report an exhausted category', async () => {
+    const store = configureStore({ reducer: rootReducer });
+    store.dispatch(setNoRepeat(true));
+    store.dispatch(fetchJokeByCategory.pending('req', 'dev'));
+    store.dispatch(
+      fetchJokeByCategory.fulfilled(
+        { joke: createJoke({ id: 'a' }), category: 'dev' },
+        'req',
+        'dev'
+      )
+    );
+    const fetchMock = mockFetchJokes(['a']);
+
+    await store.dispatch(fetchJokeByCategory('dev'));
+
+    expect(fetchMock).toHaveBeenCalledTimes(FILTER_MAX_FETCHES);
+    expect(store.getState().jokes.requests.joke.error).toMatchObject({
+      kind: 'exhausted',
+      category: 'dev',
+    });
+  });
+});
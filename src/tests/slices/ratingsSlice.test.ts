@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import ratingsReducer, {
+  clearRating,
+  isLowRated,
+  rateJoke,
+  RATINGS_STORAGE_KEY,
+  selectTopRated,
+  setAvoidLowRated,
+} from '@/store/slices/ratingsSlice';
+import { fetchRandomJoke } from '@/store/slices/jokesSlice';
+import { rootReducer } from '@/store/index';
+import { writeStorage } from '@/lib/storage';
+import { createJoke } from '../mocks/jokes';
+
+/**
+ * Unit tests for the ratingsSlice Redux reducer and the rating bias of
+ * random jokes.
+ */
+describe('ratingsSlice', () => {
+  afterEach(() => {
+    localStorage.clear();
+    vi.unstubAllGlobals();
+  });
+
+  /** Rates, re-rates, clears and ranks jokes */
+  it('should rate jokes', () => {
+    let state = ratingsReducer(undefined, { type: 'init' });
+    state = ratingsReducer(
+      state,
+      rateJoke({ joke: createJoke({ id: 'a' }), stars: 4 })
+    );
+    state = ratingsReducer(
+      state,
+      rateJoke({ joke: createJoke({ id: 'b' }), stars: 5 })
+    );
+    state = ratingsReducer(
+      state,
+      rateJoke({ joke: createJoke({ id: 'c' }), stars: 6 })
+    );
+    expect(
+      selectTopRated({ ratings: state }).map((r) => [r.joke.id, r.stars])
+    ).toEqual([
+      ['b', 5],
+      ['a', 4],
+    ]);
+
+    state = ratingsReducer(
+      state,
+      rateJoke({ joke: createJoke({ id: 'b' }), stars: 5 })
+    );
+    state = ratingsReducer(state, clearRating('a'));
+    expect(state.byId).toEqual({});
+  });
+
+  /** Counts jokes with few stars as low rated only while avoiding them */
+  it('should detect low rated jokes', () => {
+    let state = ratingsReducer(
+      undefined,
+      rateJoke({ joke: createJoke({ id: 'a' }), stars: 2 })
+    );
+    expect(isLowRated(state, 'a')).toBe(false);
+
+    state = ratingsReducer(state, setAvoidLowRated(true));
+    expect(isLowRated(state, 'a')).toBe(true);
+    expect(isLowRated(state, 'unrated')).toBe(false);
+  });
+
+  /** Restores valid ratings saved by a previous session */
+  it('should load the saved ratings', () => {
+    writeStorage(RATINGS_STORAGE_KEY, {
+      byId: {
+        a: { joke: createJoke({ id: 'a' }), stars: 3, ratedAt: 1 },
+        b: { joke: createJoke({ id: 'b' }), stars: 9, ratedAt: 1 },
+        c: { joke: { id: 'c' }, stars: 3, ratedAt: 1 },
+      },
+      avoidLowRated: true,
+    });
+    const state = ratingsReducer(undefined, { type: 'init' });
+
+    expect(Object.keys(state.byId)).toEqual(['a']);
+    expect(state.avoidLowRated).toBe(true);
+  });
+
+  /** Re-fetches poorly rated jokes, but shows one if nothing better turns up */
+  it('should bias random jokes away from low ratings', async () => {
+    const responses = [
+      createJoke({ id: 'low' }),
+      createJoke({ id: 'good' }),
+      ...Array.from({ length: 5 }, () => createJoke({ id: 'low' })),
+    ];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        async () =>
+          new Response(JSON.stringify(responses.shift()), { status: 200 })
+      )
+    );
+    const store = configureStore({ reducer: rootReducer });
+    store.dispatch(rateJoke({ joke: createJoke({ id: 'low' }), stars: 1 }));
+    store.dispatch(setAvoidLowRated(true));
+
+    await store.dispatch(fetchRandomJoke());
+    expect(store.getState().jokes.joke?.id).toBe('good');
+
+    await store.dispatch(fetchRandomJoke());
+    expect(store.getState().jokes.joke?.id).toBe('low');
+  });
+});
@@ -0,0 +1,204 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import safeModeReducer, {
+  resetBlockedCategories,
+  selectVisibleCategories,
+  setSafeMode,
+  toggleBlockedCategory,
+} from '@/store/slices/safeModeSlice';
+import {
+  fetchCategories,
+  fetchJokeByCategory,
+  fetchRandomJoke,
+  searchJokes,
+  selectCardJoke,
+  showJoke,
+} from '@/store/slices/jokesSlice';
+import { rootReducer } from '@/store/index';
+import { DEFAULT_BLOCKED_CATEGORIES } from '@/lib/safeMode';
+import { FILTER_MAX_FETCHES } from '@/lib/api/config';
+import { createJoke } from '../mocks/jokes';
+
+/**
+ * Replace `fetch` with a mock answering each call with the next payload;
+ * the last payload is repeated once the list runs out.
+ *
+ * @param {unknown[]} payloads - JSON bodies returned, in order.
+ */
+const mockFetch = (payloads: unknown[]) => {
+  let call = 0;
+  const fetchMock = vi.fn(async () => {
+    const payload = payloads[Math.min(call++, payloads.length - 1)];
+    return new Response(JSON.stringify(payload), { status: 200 });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+/**
+ * Create a store with safe mode enabled and the default blocklist.
+ */
+const safeStore = () => {
+  const store = configureStore({ reducer: rootReducer });
+  store.dispatch(setSafeMode(true));
+  return store;
+};
+
+/**
+ * Unit tests for the safeModeSlice Redux reducer and the safe mode behavior
+ * of the joke thunks.
+ */
+describe('safeModeSlice', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  /** Starts disabled with the default blocklist, which can be edited */
+  it('should edit the blocklist', () => {
+    let state = safeModeReducer(undefined, { type: 'init' });
+    expect(state).toEqual({
+      enabled: false,
+      blockedCategories: DEFAULT_BLOCKED_CATEGORIES,
+    });
+
+    state = safeModeReducer(state, toggleBlockedCategory('religion'));
+    state = safeModeReducer(state, toggleBlockedCategory('dev'));
+    expect(state.blockedCategories).toEqual(['explicit', 'political', 'dev']);
+
+    state = safeModeReducer(state, resetBlockedCategories());
+    expect(state.blockedCategories).toEqual(DEFAULT_BLOCKED_CATEGORIES);
+  });
+
+  /** Hides blocked categories only while enabled */
+  it('should select the visible categories', () => {
+    const store = configureStore({ reducer: rootReducer });
+    store.dispatch(fetchCategories.pending('req'));
+    store.dispatch(
+      fetchCategories.fulfilled(['dev', 'explicit', 'religion'], 'req')
+    );
+
+    expect(selectVisibleCategories(store.getState())).toEqual([
+      'dev',
+      'explicit',
+      'religion',
+    ]);
+    store.dispatch(setSafeMode(true));
+    expect(selectVisibleCategories(store.getState())).toEqual(['dev']);
+  });
+
+  /** Re-fetches blocked random jokes and masks profanity */
+  it('should skip blocked random jokes', async () => {
+    const store = safeStore();
+    const fetchMock = mockFetch([
+      createJoke({ id: 'a', categories: ['explicit'] }),
+      createJoke({ id: 'b', value: 'Damn.' }),
+    ]);
+
+    await store.dispatch(fetchRandomJoke());
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(store.getState().jokes.joke).toMatchObject({
+      id: 'b',
+      value: 'D***.',
+    });
+  });
+
+  /** Gives up after a bounded number of blocked jokes */
+  it('should report only blocked random jokes', async () => {
+    const store = safeStore();
+    const fetchMock = mockFetch([createJoke({ categories: ['political'] })]);
+
+    await store.dispatch(fetchRandomJoke());
+
+    expect(fetchMock).toHaveBeenCalledTimes(FILTER_MAX_FETCHES);
+    expect(store.getState().jokes.requests.joke.error?.kind).toBe('blocked');
+  });
+
+  /** Rejects a blocked category without a request */
+  it('should reject a blocked category', async () => {
+    const store = safeStore();
+    const fetchMock = mockFetch([createJoke()]);
+
+    await store.dispatch(fetchJokeByCategory('explicit'));
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(store.getState().jokes.requests.joke.error).toMatchObject({
+      kind: 'blocked',
+      category: 'explicit',
+    });
+  });
+
+  /** Drops blocked matches from the results and recounts them */
+  it('should filter search results', async () => {
+    const store = safeStore();
+    mockFetch([
+      {
+        total: 3,
+        result: [
+          createJoke({ id: 'a' }),
+          createJoke({ id: 'b', categories: ['religion'] }),
+          createJoke({ id: 'c', value: 'Holy shit.' }),
+        ],
+      },
+    ]);
+
+    await store.dispatch(searchJokes('holy'));
+
+    const { searchResults, searchTotal } = store.getState().jokes;
+    expect(searchTotal).toBe(2);
+    expect(searchResults.map((j) => j.value)).toEqual([
+      createJoke().value,
+      'Holy s***.',
+    ]);
+  });
+
+  /** Reports a search whose matches are all blocked */
+  it('should report a search with only blocked matches', async () => {
+    const store = safeStore();
+    mockFetch([
+      { total: 1, result: [createJoke({ categories: ['explicit'] })] },
+    ]);
+
+    await store.dispatch(searchJokes('naughty'));
+
+    expect(store.getState().jokes.requests.search.error).toMatchObject({
+      kind: 'blocked',
+      query: 'naughty',
+    });
+  });
+
+  /** Hides the card's joke once its category gets blocked */
+  it('should hide a loaded joke when safe mode is switched on', () => {
+    const store = configureStore({ reducer: rootReducer });
+    const joke = createJoke({ id: 'rude', categories: ['explicit'] });
+    store.dispatch(fetchRandomJoke.pending('req'));
+    store.dispatch(fetchRandomJoke.fulfilled(joke, 'req'));
+    expect(selectCardJoke(store.getState()).joke).toBe(joke);
+
+    store.dispatch(setSafeMode(true));
+
+    expect(selectCardJoke(store.getState())).toMatchObject({
+      joke: null,
+      error: { kind: 'blocked', id: 'rude' },
+    });
+  });
+
+  /** Refuses blocked jokes and masks profane ones picked from a list */
+  it('should apply safe mode to a shown joke', () => {
+    const store = safeStore();
+
+    store.dispatch(
+      showJoke(createJoke({ id: 'rude', categories: ['explicit'] }))
+    );
+    expect(store.getState().jokes.joke).toBeNull();
+    expect(store.getState().jokes.requests.joke.error).toMatchObject({
+      kind: 'blocked',
+      id: 'rude',
+    });
+
+    store.dispatch(showJoke(createJoke({ value: 'Holy shit.' })));
+    expect(store.getState().jokes.joke?.value).toBe('Holy s***.');
+    expect(store.getState().jokes.requests.joke.error).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import searchHistoryReducer, {
+  clearRecentQueries,
+  recordQuery,
+  RECENT_QUERIES_LIMIT,
+  SEARCH_HISTORY_STORAGE_KEY,
+  toggleSavedQuery,
+} from '@/store/slices/searchHistorySlice';
+import { writeStorage } from '@/lib/storage';
+
+/**
+ * Unit tests for the searchHistorySlice Redux reducer.
+ */
+describe('searchHistorySlice', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  /** Keeps recent queries unique, newest first and capped */
+  it('should record recent queries', () => {
+    let state = searchHistoryReducer(undefined, { type: 'init' });
+    for (let i = 0; i <= RECENT_QUERIES_LIMIT; i++) {
+      state = searchHistoryReducer(state, recordQuery(`query ${i}`));
+    }
+    state = searchHistoryReducer(state, recordQuery('  QUERY 5 '));
+
+    expect(state.recent).toHaveLength(RECENT_QUERIES_LIMIT);
+    expect(state.recent[0]).toBe('QUERY 5');
+    expect(state.recent).not.toContain('query 5');
+    expect(state.recent).not.toContain('query 0');
+
+    state = searchHistoryReducer(state, clearRecentQueries());
+    expect(state.recent).toEqual([]);
+  });
+
+  /** Saves and unsaves queries regardless of case */
+  it('should toggle saved queries', () => {
+    let state = searchHistoryReducer(undefined, toggleSavedQuery('kick'));
+    expect(state.saved).toEqual(['kick']);
+
+    state = searchHistoryReducer(state, toggleSavedQuery('KICK'));
+    expect(state.saved).toEqual([]);
+  });
+
+  /** Drops invalid entries from local storage */
+  it('should restore valid queries only', () => {
+    writeStorage(SEARCH_HISTORY_STORAGE_KEY, {
+      recent: ['kick', 42, '', 'kick'],
+      saved: 'beard',
+    });
+
+    expect(searchHistoryReducer(undefined, { type: 'init' })).toEqual({
+      recent: ['kick'],
+      saved: [],
+    });
+  });
+});
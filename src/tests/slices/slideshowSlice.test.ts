@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import slideshowReducer, {
+  DEFAULT_SLIDESHOW_INTERVAL_MS,
+  nextSlide,
+  setPlaying,
+  setSlideshowInterval,
+  setSlideshowSource,
+} from '@/store/slices/slideshowSlice';
+import { addCategory } from '@/store/slices/categorySelectionSlice';
+import { rootReducer } from '@/store/index';
+import { createJoke } from '../mocks/jokes';
+
+/**
+ * Unit tests for the slideshowSlice Redux reducer and `nextSlide`.
+ */
+describe('slideshowSlice', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  /** Starts paused with the default interval and updates its settings */
+  it('should update the settings', () => {
+    let state = slideshowReducer(undefined, { type: 'init' });
+    expect(state).toEqual({
+      playing: false,
+      intervalMs: DEFAULT_SLIDESHOW_INTERVAL_MS,
+      source: 'random',
+    });
+
+    state = slideshowReducer(state, setPlaying(true));
+    state = slideshowReducer(state, setSlideshowInterval(30_000));
+    state = slideshowReducer(state, setSlideshowSource('selection'));
+    expect(state).toEqual({
+      playing: true,
+      intervalMs: 30_000,
+      source: 'selection',
+    });
+  });
+
+  /** Draws from the selection only when it is the source and not empty */
+  it('should pick the source of the next joke', async () => {
+    const fetchMock = vi.fn<(url: string) => Promise<Response>>(
+      async () => new Response(JSON.stringify(createJoke()), { status: 200 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const store = configureStore({ reducer: rootReducer });
+
+    store.dispatch(setSlideshowSource('selection'));
+    await store.dispatch(nextSlide());
+    store.dispatch(addCategory('dev'));
+    await store.dispatch(nextSlide());
+    store.dispatch(setSlideshowSource('random'));
+    await store.dispatch(nextSlide());
+
+    expect(fetchMock.mock.calls.map(([url]) => url.split('/').pop())).toEqual([
+      'random',
+      'random?category=dev',
+      'random',
+    ]);
+    vi.unstubAllGlobals();
+  });
+});
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import speechReducer, {
+  setAutoRead,
+  setSpeechPitch,
+  setSpeechRate,
+  setVoice,
+  SPEECH_STORAGE_KEY,
+} from '@/store/slices/speechSlice';
+import { writeStorage } from '@/lib/storage';
+
+/**
+ * Unit tests for the speechSlice Redux reducer.
+ */
+describe('speechSlice', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  /** Starts with the defaults and clamps rate and pitch */
+  it('should update the preferences', () => {
+    let state = speechReducer(undefined, { type: 'init' });
+    expect(state).toEqual({
+      voiceURI: null,
+      rate: 1,
+      pitch: 1,
+      autoRead: false,
+    });
+
+    state = speechReducer(state, setVoice('urn:voice'));
+    state = speechReducer(state, setSpeechRate(5));
+    state = speechReducer(state, setSpeechPitch(-1));
+    state = speechReducer(state, setAutoRead(true));
+    expect(state).toEqual({
+      voiceURI: 'urn:voice',
+      rate: 2,
+      pitch: 0,
+      autoRead: true,
+    });
+  });
+
+  /** Restores valid preferences and replaces invalid ones */
+  it('should load the saved preferences', () => {
+    writeStorage(SPEECH_STORAGE_KEY, {
+      voiceURI: 42,
+      rate: 1.5,
+      pitch: 'high',
+      autoRead: true,
+    });
+
+    expect(speechReducer(undefined, { type: 'init' })).toEqual({
+      voiceURI: null,
+      rate: 1.5,
+      pitch: 1,
+      autoRead: true,
+    });
+  });
+});
@@ -1,9 +1,439 @@
-type JokeStatus = 'idle' | 'loading' | 'failed';
+import type { EntityState } from '@reduxjs/toolkit';
 
-export interface JokeState {
-  value: string | null;
+/**
+ * A single joke as returned by the Chuck Norris API.
+ *
+ * Field names mirror the upstream JSON payload so that responses can be
+ * stored without any mapping step.
+ *
+ * @typedef {Object} Joke
+ * @property {string} id - Upstream joke identifier.
+ * @property {string} url - Permalink to the joke on api.chucknorris.io.
+ * @property {string} icon_url - URL of the Chuck Norris avatar.
+ * @property {string[]} categories - Categories the joke belongs to (may be empty).
+ * @property {string} created_at - Creation timestamp as sent by the API.
+ * @property {string} updated_at - Last update timestamp as sent by the API.
+ * @property {string} value - The joke text.
+ */
+export interface Joke {
+  id: string;
+  url: string;
+  icon_url: string;
+  categories: string[];
+  created_at: string;
+  updated_at: string;
+  value: string;
+}
+
+/**
+ * Response of the `/search?query=` endpoint.
+ *
+ * @typedef {Object} JokeSearchResponse
+ * @property {number} total - Number of jokes matching the query.
+ * @property {Joke[]} result - The matching jokes.
+ */
+export interface JokeSearchResponse {
+  total: number;
+  result: Joke[];
+}
+
+/**
+ * A user's intent that produces jokes, used to repeat a request.
+ *
+ * - `random`: any random joke
+ * - `category`: a random joke from `category`
+ * - `search`: every joke matching `query`
+ * - `lucky`: one random joke matching `query`
+ * - `id`: exactly the joke with upstream id `id`
+ */
+export type JokeRequest =
+  | { type: 'random' }
+  | { type: 'category'; category: string }
+  | { type: 'search'; query: string }
+  | { type: 'lucky'; query: string }
+  | { type: 'id'; id: string };
+
+/**
+ * Progress of a request that is being retried after a transient failure.
+ *
+ * @typedef {Object} RetryStatus
+ * @property {string} requestId - The thunk request being retried.
+ * @property {number} attempt - Number of the upcoming attempt (2 for the first retry).
+ * @property {number} maxAttempts - Attempt budget of the request.
+ */
+export interface RetryStatus {
+  requestId: string;
+  attempt: number;
+  maxAttempts: number;
+}
+
+/**
+ * Kinds of failure a joke request can end with.
+ *
+ * - `network`: the request never reached the server
+ * - `timeout`: the server did not answer in time
+ * - `http`: the server answered with an error status
+ * - `invalid-payload`: the response did not have the expected shape
+ * - `empty-search`: a search matched no jokes
+ * - `invalid-category`: the requested category does not exist
+ * - `not-found`: no joke has the requested id
+ * - `exhausted`: no-repeat mode only got jokes that were already seen
+ * - `blocked`: safe mode hides the requested category, joke or every match
+ * - `unknown`: anything else
+ */
+export type JokeErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'http'
+  | 'invalid-payload'
+  | 'empty-search'
+  | 'invalid-category'
+  | 'not-found'
+  | 'exhausted'
+  | 'blocked'
+  | 'unknown';
+
+/**
+ * Serializable description of a failed request, stored in Redux.
+ *
+ * @typedef {Object} JokeError
+ * @property {JokeErrorKind} kind - What went wrong.
+ * @property {string} message - Technical description, useful for logs.
+ * @property {number} [status] - HTTP status code (`http` only).
+ * @property {string} [query] - The query that matched nothing (`empty-search`, `blocked`).
+ * @property {string} [category] - The unknown, exhausted or blocked category (`invalid-category`, `exhausted`, `blocked`).
+ * @property {string} [id] - The joke id that does not exist or is blocked (`not-found`, `blocked`).
+ */
+export interface JokeError {
+  kind: JokeErrorKind;
+  message: string;
+  status?: number;
+  query?: string;
+  category?: string;
+  id?: string;
+}
+
+/**
+ * Independent request operations of the jokes slice.
+ *
+ * - `categories`: loading the category list
+ * - `joke`: loading the joke shown in the card (random, category, lucky, id)
+ * - `search`: loading the search result list
+ */
+export type JokesOperation = 'categories' | 'joke' | 'search';
+
+/**
+ * Lifecycle of an operation's latest request.
+ */
+export type RequestStatus = 'idle' | 'pending' | 'succeeded' | 'failed';
+
+/**
+ * Status of one operation.
+ *
+ * @typedef {Object} OperationState
+ * @property {RequestStatus} status - Lifecycle of the latest request.
+ * @property {string | null} requestId - Id of the latest request; responses of older ones are ignored.
+ * @property {JokeError | null} error - Why the latest request failed, if it did.
+ * @property {RetryStatus | null} retry - Set while the request waits for its next attempt.
+ * @property {number | null} startedAt - When the latest request started (ms since epoch).
+ * @property {number | null} finishedAt - When the latest request settled (ms since epoch).
+ */
+export interface OperationState {
+  status: RequestStatus;
+  requestId: string | null;
+  error: JokeError | null;
+  retry: RetryStatus | null;
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+/**
+ * Order in which search results are listed.
+ *
+ * - `relevance`: order returned by the API
+ * - `length`: shortest jokes first
+ * - `newest`: most recently updated first
+ * - `alphabetical`: A to Z by joke text
+ */
+export type SearchSort = 'relevance' | 'length' | 'newest' | 'alphabetical';
+
+/**
+ * Where `searchJokes` and `fetchLuckyJoke` look for matches.
+ *
+ * - `remote`: the API's `/search` endpoint
+ * - `local`: fuzzy search over the jokes received so far (works offline)
+ */
+export type SearchSource = 'remote' | 'local';
+
+/**
+ * Shape of the jokes state stored in Redux.
+ *
+ * @typedef {Object} JokesState
+ * @property {Joke | null} joke - The currently displayed joke.
+ * @property {string | null} category - The category the current joke was requested from.
+ * @property {string | null} jokeQuery - Search query the current joke was found with, highlighted in the card.
+ * @property {string[]} categories - List of available categories.
+ * @property {Record<JokesOperation, OperationState>} requests - Status of each operation.
+ * @property {boolean} hasSearched - Whether the user has initiated a search or fetch.
+ * @property {Record<'joke' | 'search', JokeRequest | null>} lastRequests - The latest intent per operation, repeated by a manual retry.
+ * @property {string | null} searchQuery - Query of the last successful search.
+ * @property {Joke[]} searchResults - Every joke matching `searchQuery`, in API order (best match first for local searches).
+ * @property {number} searchTotal - Total number of matches reported by the API.
+ * @property {SearchSort} searchSort - Order in which `searchResults` are listed.
+ * @property {SearchSource} searchSource - Whether searches go to the API or to the local index.
+ * @property {boolean} searchLive - Whether the latest search was run as the user typed, rather than submitted.
+ */
+export interface JokesState {
+  joke: Joke | null;
   category: string | null;
-  status: JokeStatus;
-  error: string | null;
+  jokeQuery: string | null;
   categories: string[];
+  requests: Record<JokesOperation, OperationState>;
+  hasSearched: boolean;
+  lastRequests: Record<'joke' | 'search', JokeRequest | null>;
+  searchQuery: string | null;
+  searchResults: Joke[];
+  searchTotal: number;
+  searchSort: SearchSort;
+  searchSource: SearchSource;
+  searchLive: boolean;
+}
+
+/**
+ * Favorite jokes, keyed by upstream joke id and persisted in local storage.
+ */
+export type FavoritesState = EntityState<Joke, string>;
+
+/**
+ * Every joke the app has received, keyed by upstream joke id, most recently
+ * received first. Persisted in local storage and searched offline.
+ */
+export type JokeIndexState = EntityState<Joke, string>;
+
+/**
+ * A joke shown in the joke card, together with how it was obtained.
+ *
+ * @typedef {Object} HistoryEntry
+ * @property {Joke} joke - The joke that was shown.
+ * @property {JokeRequest} source - The request that produced it (random, category, search query or id).
+ * @property {number} shownAt - When it was first shown (ms since epoch).
+ */
+export interface HistoryEntry {
+  joke: Joke;
+  source: JokeRequest;
+  shownAt: number;
+}
+
+/**
+ * Session history of the joke card, persisted in local storage.
+ *
+ * @typedef {Object} HistoryState
+ * @property {HistoryEntry[]} entries - Shown jokes, oldest first.
+ * @property {number} index - Position of the joke currently shown, `-1` when empty.
+ * @property {number} limit - Maximum number of entries kept; the oldest are dropped first.
+ * @property {string | null} requestId - Latest joke request, the only one whose joke is recorded; not persisted.
+ */
+export interface HistoryState {
+  entries: HistoryEntry[];
+  index: number;
+  limit: number;
+  requestId: string | null;
+}
+
+/**
+ * State of the "no repeats" mode, persisted in local storage.
+ *
+ * @typedef {Object} NoRepeatState
+ * @property {boolean} enabled - Whether already seen jokes are re-fetched.
+ * @property {string[]} seenIds - Ids of the jokes shown so far, oldest first.
+ * @property {string | null} requestId - Latest joke request, the only one whose joke is marked as seen; not persisted.
+ */
+export interface NoRepeatState {
+  enabled: boolean;
+  seenIds: string[];
+  requestId: string | null;
+}
+
+/**
+ * A category chosen for random picks, with its relative weight.
+ *
+ * @typedef {Object} WeightedCategory
+ * @property {string} name - Category name.
+ * @property {number} weight - Relative chance of being picked (1 = normal).
+ */
+export interface WeightedCategory {
+  name: string;
+  weight: number;
+}
+
+/**
+ * Categories the next joke is drawn from, persisted in local storage.
+ *
+ * @typedef {Object} CategorySelectionState
+ * @property {WeightedCategory[]} selected - Selected categories, in the order they were added.
+ */
+export interface CategorySelectionState {
+  selected: WeightedCategory[];
+}
+
+/**
+ * Settings of the safe mode, persisted in local storage.
+ *
+ * @typedef {Object} SafeModeState
+ * @property {boolean} enabled - Whether blocked categories are hidden and profanity is masked.
+ * @property {string[]} blockedCategories - Categories whose jokes are never shown in safe mode.
+ */
+export interface SafeModeState {
+  enabled: boolean;
+  blockedCategories: string[];
+}
+
+/**
+ * One card of a joke batch.
+ *
+ * @typedef {Object} BatchItem
+ * @property {string | null} requestId - Id of the request filling the card; responses of older ones are ignored.
+ * @property {RequestStatus} status - Lifecycle of that request.
+ * @property {Joke | null} joke - The loaded joke.
+ * @property {JokeError | null} error - Why the card failed to load, if it did.
+ */
+export interface BatchItem {
+  requestId: string | null;
+  status: RequestStatus;
+  joke: Joke | null;
+  error: JokeError | null;
+}
+
+/**
+ * A grid of jokes fetched together.
+ *
+ * @typedef {Object} BatchState
+ * @property {string | null} category - Category the jokes are drawn from, `null` for random jokes.
+ * @property {BatchItem[]} items - One entry per card, in display order.
+ */
+export interface BatchState {
+  category: string | null;
+  items: BatchItem[];
+}
+
+/**
+ * Where the slideshow draws its jokes from.
+ *
+ * - `random`: any random joke
+ * - `selection`: a weighted pick from the selected categories
+ */
+export type SlideshowSource = 'random' | 'selection';
+
+/**
+ * Settings of the auto-play mode; all but `playing` are persisted.
+ *
+ * @typedef {Object} SlideshowState
+ * @property {boolean} playing - Whether jokes are cycled automatically.
+ * @property {number} intervalMs - How long each joke is shown.
+ * @property {SlideshowSource} source - Where the next joke comes from.
+ */
+export interface SlideshowState {
+  playing: boolean;
+  intervalMs: number;
+  source: SlideshowSource;
+}
+
+/**
+ * Queries offered as search suggestions, persisted in local storage.
+ *
+ * @typedef {Object} SearchHistoryState
+ * @property {string[]} recent - Recently searched queries, newest first.
+ * @property {string[]} saved - Queries the user pinned, in the order they were saved.
+ */
+export interface SearchHistoryState {
+  recent: string[];
+  saved: string[];
+}
+
+/**
+ * A joke rated by the user.
+ *
+ * @typedef {Object} JokeRating
+ * @property {Joke} joke - The rated joke, kept so it can be listed later.
+ * @property {number} stars - The rating, from 1 (poor) to 5 stars.
+ * @property {number} ratedAt - When it was last rated (ms since epoch).
+ */
+export interface JokeRating {
+  joke: Joke;
+  stars: number;
+  ratedAt: number;
+}
+
+/**
+ * The user's joke ratings, persisted in local storage.
+ *
+ * @typedef {Object} RatingsState
+ * @property {Record<string, JokeRating>} byId - Ratings keyed by upstream joke id.
+ * @property {boolean} avoidLowRated - Whether random jokes rated poorly are skipped when possible.
+ */
+export interface RatingsState {
+  byId: Record<string, JokeRating>;
+  avoidLowRated: boolean;
+}
+
+/**
+ * Read-aloud preferences, persisted in local storage.
+ *
+ * @typedef {Object} SpeechState
+ * @property {string | null} voiceURI - Chosen speech synthesis voice, `null` for the browser default.
+ * @property {number} rate - Speaking rate, 1 being normal speed.
+ * @property {number} pitch - Voice pitch, 1 being the normal pitch.
+ * @property {boolean} autoRead - Whether each new joke in the card is read aloud.
+ */
+export interface SpeechState {
+  voiceURI: string | null;
+  rate: number;
+  pitch: number;
+  autoRead: boolean;
+}
+
+/**
+ * Languages the UI is translated to.
+ */
+export type Locale = 'en' | 'sk';
+
+/**
+ * UI language preference, persisted in local storage.
+ *
+ * @typedef {Object} LocaleState
+ * @property {Locale} locale - Language of the UI, detected from the browser until the user picks one.
+ */
+export interface LocaleState {
+  locale: Locale;
+}
+
+/**
+ * A custom color theme. Colors are `#rrggbb` hex strings; text colors and the
+ * remaining shades are derived from them.
+ *
+ * @typedef {Object} ColorTheme
+ * @property {string} id - Unique id; bundled presets use a `preset:` prefix.
+ * @property {string} name - Name shown in the theme menu.
+ * @property {string} accent - Buttons, highlights and focus rings.
+ * @property {string} background - Page background.
+ * @property {string} card - Cards, menus and dialogs.
+ */
+export interface ColorTheme {
+  id: string;
+  name: string;
+  accent: string;
+  background: string;
+  card: string;
+}
+
+/**
+ * Saved custom color themes, persisted in local storage.
+ *
+ * @typedef {Object} ColorThemesState
+ * @property {ColorTheme[]} saved - Themes created or imported by the user, in the order they were added.
+ * @property {string | null} activeId - Applied preset or saved theme, `null` for the built-in light and dark themes.
+ */
+export interface ColorThemesState {
+  saved: ColorTheme[];
+  activeId: string | null;
 }